@@ -0,0 +1,256 @@
+/**
+ * Image input handling
+ * Turns OpenAI image URLs and Anthropic image sources into validated base64
+ * image blocks for the Claude CLI
+ */
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import type { ClaudeImageBlock, ImageConfig, ImageReference } from '../core/types.js';
+import { ClaudeRequestError } from '../core/errors.js';
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and other addresses that are not on the public
+// internet. IPv4-mapped IPv6 addresses match the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Build a 400 error for an unusable image
+ */
+function invalidImage(message: string, code = 'invalid_image'): ClaudeRequestError {
+  return new ClaudeRequestError('invalid_request_error', message, 400, code);
+}
+
+/**
+ * Detect the image type from its leading bytes
+ */
+function sniffMediaType(bytes: Buffer): string | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (bytes.length >= 6 && /^GIF8[79]a$/.test(bytes.subarray(0, 6).toString('latin1'))) {
+    return 'image/gif';
+  }
+  if (bytes.length >= 12 &&
+      bytes.subarray(0, 4).toString('latin1') === 'RIFF' &&
+      bytes.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * Validate decoded image bytes and build the CLI image block
+ */
+function buildImageBlock(
+  bytes: Buffer,
+  declaredType: string | undefined,
+  config: ImageConfig
+): ClaudeImageBlock {
+  if (bytes.length === 0) {
+    throw invalidImage('Image data is empty');
+  }
+  if (bytes.length > config.maxBytes) {
+    throw invalidImage(
+      `Image is ${bytes.length} bytes, which exceeds the ${config.maxBytes} byte limit`,
+      'image_too_large'
+    );
+  }
+
+  const mediaType = declaredType?.toLowerCase().trim();
+  if (mediaType && !SUPPORTED_IMAGE_TYPES.includes(mediaType)) {
+    throw invalidImage(
+      `Unsupported image media type: ${mediaType}. Supported types: ${SUPPORTED_IMAGE_TYPES.join(', ')}`,
+      'unsupported_image_type'
+    );
+  }
+
+  const detected = sniffMediaType(bytes);
+  if (!detected) {
+    throw invalidImage('Image data is not a valid JPEG, PNG, GIF or WebP image', 'unsupported_image_type');
+  }
+  if (mediaType && mediaType !== detected) {
+    throw invalidImage(`Image media type ${mediaType} does not match the image data (${detected})`);
+  }
+
+  return {
+    type: 'image',
+    source: { type: 'base64', media_type: detected, data: bytes.toString('base64') },
+  };
+}
+
+/**
+ * Decode base64 image data, rejecting malformed input
+ */
+function decodeBase64(data: string): Buffer {
+  const compact = data.replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(compact) || compact.length % 4 === 1) {
+    throw invalidImage('Image data is not valid base64');
+  }
+  return Buffer.from(compact, 'base64');
+}
+
+/**
+ * Parse a data URL into its media type and base64 payload
+ */
+export function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+)(?:;[^;,]+)*;base64,(.*)$/s);
+  if (!match || !match[1]) return null;
+  return { mediaType: match[1], data: match[2] || '' };
+}
+
+/**
+ * Whether a host name or any address it resolves to is loopback, private or
+ * link-local. Hosts that do not resolve are left for the fetch to report.
+ */
+export async function isPrivateHost(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: Array<{ address: string; family: number }>;
+  if (isIP(host)) {
+    addresses = [{ address: host, family: isIP(host) }];
+  } else {
+    try {
+      addresses = await lookup(host, { all: true });
+    } catch {
+      return false;
+    }
+  }
+  return addresses.some(({ address, family }) =>
+    PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+  );
+}
+
+function tooLarge(size: string, maxBytes: number): ClaudeRequestError {
+  return invalidImage(`Image is ${size}, which exceeds the ${maxBytes} byte limit`, 'image_too_large');
+}
+
+/**
+ * Read a response body, giving up as soon as it grows past the size limit
+ */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer> {
+  const length = Number(response.headers.get('content-length'));
+  if (length > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge(`${length} bytes`, maxBytes);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(`over ${maxBytes} bytes`, maxBytes);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Download a remote image when fetching is enabled. Redirects are followed
+ * by hand so that every hop is checked against private addresses.
+ */
+async function fetchRemoteImage(url: string, config: ImageConfig): Promise<ClaudeImageBlock> {
+  const signal = AbortSignal.timeout(config.fetchTimeoutMs);
+  let target = new URL(url);
+  let response: Response;
+  let bytes: Buffer;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      if (!/^https?:$/.test(target.protocol)) {
+        throw invalidImage('Image URLs must be http(s) or base64 data URLs');
+      }
+      if (!config.allowPrivateHosts && await isPrivateHost(target.hostname)) {
+        throw invalidImage(
+          `Image URL ${target.href} points to a private address, which this proxy does not fetch`,
+          'image_url_not_supported'
+        );
+      }
+
+      response = await fetch(target, { signal, redirect: 'manual' });
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw invalidImage(`Failed to download image from ${url}: too many redirects`, 'image_fetch_failed');
+      }
+      target = new URL(location, target);
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw invalidImage(`Failed to download image from ${url}: HTTP ${response.status}`, 'image_fetch_failed');
+    }
+    bytes = await readLimitedBody(response, config.maxBytes);
+  } catch (err) {
+    if (err instanceof ClaudeRequestError) throw err;
+    throw invalidImage(`Failed to download image from ${url}: ${(err as Error).message}`, 'image_fetch_failed');
+  }
+
+  // Servers often mislabel images, so the type is taken from the bytes alone
+  return buildImageBlock(bytes, undefined, config);
+}
+
+/**
+ * Resolve an image reference into a validated base64 image block
+ */
+export async function resolveImage(
+  image: ImageReference,
+  config: ImageConfig
+): Promise<ClaudeImageBlock> {
+  if (image.type === 'base64') {
+    return buildImageBlock(decodeBase64(image.data), image.media_type, config);
+  }
+
+  const url = image.url.trim();
+  if (url.startsWith('data:')) {
+    const parsed = parseDataUrl(url);
+    if (!parsed) {
+      throw invalidImage('Image data URLs must be base64 encoded (data:<media type>;base64,...)');
+    }
+    return buildImageBlock(decodeBase64(parsed.data), parsed.mediaType, config);
+  }
+
+  if (!/^https?:\/\//i.test(url)) {
+    throw invalidImage('Image URLs must be http(s) or base64 data URLs');
+  }
+
+  if (!config.allowRemoteFetch) {
+    throw invalidImage(
+      'Remote image URLs are not supported by this proxy; send the image as a base64 data URL instead',
+      'image_url_not_supported'
+    );
+  }
+
+  return fetchRemoteImage(url, config);
+}
+
+export const imageConverters = {
+  parseDataUrl,
+  isPrivateHost,
+  resolveImage,
+};
+
+export default imageConverters;
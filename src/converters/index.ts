@@ -4,3 +4,9 @@
 
 export * from './messages.js';
 export * from './responses.js';
+export * from './tools.js';
+export * from './images.js';
+export * from './limits.js';
+export * from './json-schema.js';
+export * from './json-output.js';
+export * from './thinking.js';
@@ -0,0 +1,119 @@
+/**
+ * JSON output
+ * Emulates response_format json_object / json_schema: the model is told to
+ * answer in JSON, and its reply is cleaned up and checked before it is returned
+ */
+
+import type { OpenAIResponseFormat } from '../core/types.js';
+import { validateJsonSchema } from './json-schema.js';
+
+export type JsonOutputResult =
+  | { ok: true; json: string }
+  | { ok: false; errors: string[] };
+
+/**
+ * Check whether a response format asks for JSON output
+ */
+export function wantsJsonOutput(format?: OpenAIResponseFormat): boolean {
+  return format?.type === 'json_object' || format?.type === 'json_schema';
+}
+
+/**
+ * Build the system prompt instructions for a JSON response format
+ */
+export function buildJsonFormatPrompt(format?: OpenAIResponseFormat): string {
+  if (!wantsJsonOutput(format)) return '';
+
+  const lines = [
+    'Reply with a single valid JSON value and nothing else: no explanation before or',
+    'after it, and no markdown code fences.',
+  ];
+
+  const spec = format!.json_schema;
+  if (format!.type === 'json_object') {
+    lines.push('The value must be a JSON object.');
+  } else if (spec?.schema) {
+    lines.push(
+      '',
+      `The JSON must match this schema${spec.name ? ` ("${spec.name}")` : ''}:`,
+      JSON.stringify(spec.schema),
+    );
+    if (spec.description) lines.push(`Schema description: ${spec.description}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Remove a markdown code fence wrapped around the reply, if any
+ */
+export function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+  const match = trimmed.match(/^```[\w-]*[ \t]*\n([\s\S]*?)\n?```$/);
+  return match ? match[1]!.trim() : trimmed;
+}
+
+/**
+ * Parse and check a reply written for a JSON response format.
+ * On success the JSON is returned compactly re-serialized.
+ */
+export function parseJsonOutput(text: string, format: OpenAIResponseFormat): JsonOutputResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFences(text));
+  } catch (err) {
+    return { ok: false, errors: [`reply is not valid JSON: ${(err as Error).message}`] };
+  }
+
+  if (format.type === 'json_object' && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+    return { ok: false, errors: ['reply must be a JSON object'] };
+  }
+
+  const schema = format.json_schema?.schema;
+  if (format.type === 'json_schema' && schema) {
+    const errors = validateJsonSchema(value, schema);
+    if (errors.length > 0) return { ok: false, errors };
+  }
+
+  return { ok: true, json: JSON.stringify(value) };
+}
+
+/**
+ * Instructions asking the model to fix a reply that failed validation
+ */
+export function buildJsonRetryPrompt(previous: string, errors: string[]): string {
+  return [
+    'Your previous reply to this conversation was rejected because it is not the required JSON:',
+    ...errors.map(error => `- ${error}`),
+    '',
+    'Previous reply:',
+    previous,
+    '',
+    'Reply again with only the corrected JSON.',
+  ].join('\n');
+}
+
+/**
+ * Content returned when the reply could not be turned into valid JSON
+ */
+export function buildJsonErrorContent(errors: string[], output: string): string {
+  return JSON.stringify({
+    error: {
+      type: 'invalid_json_output',
+      message: 'The model did not produce JSON matching the requested response_format',
+      errors,
+      output,
+    },
+  });
+}
+
+export const jsonOutputConverters = {
+  wantsJsonOutput,
+  buildJsonFormatPrompt,
+  stripCodeFences,
+  parseJsonOutput,
+  buildJsonRetryPrompt,
+  buildJsonErrorContent,
+};
+
+export default jsonOutputConverters;
@@ -0,0 +1,257 @@
+/**
+ * JSON Schema validation
+ * Checks values against the subset of JSON Schema used by structured outputs:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * length/size/range bounds, pattern, allOf/anyOf/oneOf/not and local $ref
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+const MAX_ERRORS = 20;
+
+/**
+ * JSON type name of a value, as used by the `type` keyword
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  const actual = jsonType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * A keyword's subschema; anything that is not a schema is treated as absent
+ */
+function subschema(value: unknown): JsonSchema | boolean | undefined {
+  return typeof value === 'boolean' || isSchemaObject(value) ? value : undefined;
+}
+
+function subschemas(value: unknown): (JsonSchema | boolean)[] | undefined {
+  return Array.isArray(value) ? value.filter(item => subschema(item) !== undefined) : undefined;
+}
+
+function numberKeyword(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Test a string against a schema pattern; patterns JavaScript cannot compile are not enforced
+ */
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Resolve a local reference such as `#/$defs/Item`
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | boolean | null {
+  if (!ref.startsWith('#')) return null;
+  let target: unknown = root;
+  for (const part of ref.slice(1).split('/').filter(Boolean)) {
+    if (!target || typeof target !== 'object') return null;
+    const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+    target = Array.isArray(target) ? target[Number(key)] : (target as Record<string, unknown>)[key];
+  }
+  return subschema(target) ?? null;
+}
+
+/**
+ * Check a value against a schema, adding to `errors`. `refs` holds the
+ * references already followed for this value, so a reference that leads back
+ * to itself without descending into the value is reported instead of
+ * recursing forever.
+ */
+function validate(
+  value: unknown,
+  schema: JsonSchema | boolean,
+  root: JsonSchema,
+  path: string,
+  errors: string[],
+  refs: ReadonlySet<string>
+): void {
+  if (errors.length >= MAX_ERRORS) return;
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+
+  const matches = (sub: JsonSchema | boolean): boolean => {
+    const subErrors: string[] = [];
+    validate(value, sub, root, path, subErrors, refs);
+    return subErrors.length === 0;
+  };
+
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    if (refs.has(ref)) {
+      errors.push(`${path}: ${ref} refers back to itself`);
+      return;
+    }
+    const target = resolveRef(root, ref);
+    if (target === null) {
+      errors.push(`${path}: cannot resolve ${ref}`);
+      return;
+    }
+    validate(value, target, root, path, errors, new Set([...refs, ref]));
+  }
+
+  if (schema.type !== undefined) {
+    const types: unknown[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(' or ')}, got ${jsonType(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    const minLength = numberKeyword(schema.minLength);
+    const maxLength = numberKeyword(schema.maxLength);
+    if (minLength !== undefined && value.length < minLength) {
+      errors.push(`${path}: must be at least ${minLength} characters`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      errors.push(`${path}: must be at most ${maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !matchesPattern(value, schema.pattern)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    const minimum = numberKeyword(schema.minimum);
+    const maximum = numberKeyword(schema.maximum);
+    const exclusiveMinimum = numberKeyword(schema.exclusiveMinimum);
+    const exclusiveMaximum = numberKeyword(schema.exclusiveMaximum);
+    const multipleOf = numberKeyword(schema.multipleOf);
+    if (minimum !== undefined && value < minimum) {
+      errors.push(`${path}: must be >= ${minimum}`);
+    }
+    if (maximum !== undefined && value > maximum) {
+      errors.push(`${path}: must be <= ${maximum}`);
+    }
+    if (exclusiveMinimum !== undefined && value <= exclusiveMinimum) {
+      errors.push(`${path}: must be > ${exclusiveMinimum}`);
+    }
+    if (exclusiveMaximum !== undefined && value >= exclusiveMaximum) {
+      errors.push(`${path}: must be < ${exclusiveMaximum}`);
+    }
+    if (multipleOf !== undefined && !Number.isInteger(value / multipleOf)) {
+      errors.push(`${path}: must be a multiple of ${multipleOf}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const minItems = numberKeyword(schema.minItems);
+    const maxItems = numberKeyword(schema.maxItems);
+    if (minItems !== undefined && value.length < minItems) {
+      errors.push(`${path}: must have at least ${minItems} items`);
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      errors.push(`${path}: must have at most ${maxItems} items`);
+    }
+    if (schema.uniqueItems === true && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      errors.push(`${path}: items must be unique`);
+    }
+
+    const prefix = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, index) => {
+      const itemSchema = subschema(index < prefix.length ? prefix[index] : schema.items);
+      if (itemSchema !== undefined) validate(item, itemSchema, root, `${path}[${index}]`, errors, new Set());
+    });
+  }
+
+  if (jsonType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = isSchemaObject(schema.properties) ? schema.properties : {};
+    const additional = schema.additionalProperties;
+    const required = Array.isArray(schema.required) ? schema.required : [];
+
+    for (const name of required) {
+      if (typeof name === 'string' && !(name in object)) {
+        errors.push(`${path}: missing required property "${name}"`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const propertySchema = name in properties ? subschema(properties[name]) : undefined;
+      if (name in properties) {
+        if (propertySchema !== undefined) {
+          validate(propertyValue, propertySchema, root, `${path}.${name}`, errors, new Set());
+        }
+      } else if (additional === false) {
+        errors.push(`${path}: unexpected property "${name}"`);
+      } else if (isSchemaObject(additional)) {
+        validate(propertyValue, additional, root, `${path}.${name}`, errors, new Set());
+      }
+    }
+    const count = Object.keys(object).length;
+    const minProperties = numberKeyword(schema.minProperties);
+    const maxProperties = numberKeyword(schema.maxProperties);
+    if (minProperties !== undefined && count < minProperties) {
+      errors.push(`${path}: must have at least ${minProperties} properties`);
+    }
+    if (maxProperties !== undefined && count > maxProperties) {
+      errors.push(`${path}: must have at most ${maxProperties} properties`);
+    }
+  }
+
+  const allOf = subschemas(schema.allOf);
+  if (allOf) {
+    for (const sub of allOf) validate(value, sub, root, path, errors, refs);
+  }
+  const anyOf = subschemas(schema.anyOf);
+  if (anyOf && !anyOf.some(matches)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  const oneOf = subschemas(schema.oneOf);
+  if (oneOf) {
+    const count = oneOf.filter(matches).length;
+    if (count !== 1) {
+      errors.push(`${path}: must match exactly one allowed schema (matched ${count})`);
+    }
+  }
+  const not = subschema(schema.not);
+  if (not !== undefined && matches(not)) {
+    errors.push(`${path}: matches a disallowed schema`);
+  }
+}
+
+/**
+ * Validate a value against a schema. Returns readable errors, empty when valid.
+ * Paths start at `$`, e.g. `$.items[2].name`.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema | boolean, root?: JsonSchema): string[] {
+  const errors: string[] = [];
+  validate(value, schema, root ?? (typeof schema === 'object' ? schema : {}), '$', errors, new Set());
+  return errors;
+}
+
+export const schemaConverters = {
+  validateJsonSchema,
+};
+
+export default schemaConverters;
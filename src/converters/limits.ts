@@ -0,0 +1,149 @@
+/**
+ * Output limits
+ * The CLI has no per-request max_tokens or stop sequence options, so the proxy
+ * cuts the generated text itself and reports why it stopped
+ */
+
+import type { OutputLimits, OutputStop } from '../core/types.js';
+
+// Rough size of a Claude token in English text; the CLI does not expose a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of generated text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Normalize an OpenAI `stop` value to a list of stop sequences
+ */
+export function normalizeStopSequences(stop?: string | string[] | null): string[] {
+  if (!stop) return [];
+  return (Array.isArray(stop) ? stop : [stop]).filter(s => typeof s === 'string' && s.length > 0);
+}
+
+/**
+ * Incremental filter that passes text through until max_tokens or a stop
+ * sequence is reached. Text that may be the start of a stop sequence is held
+ * back until it is known not to match.
+ */
+export class OutputLimiter {
+  private maxChars: number;
+  private stopSequences: string[];
+  private buffer = '';
+  private emitted = 0;
+  private stopped: OutputStop | null = null;
+
+  constructor(limits: OutputLimits = {}) {
+    this.maxChars = limits.maxTokens ? limits.maxTokens * CHARS_PER_TOKEN : Infinity;
+    this.stopSequences = limits.stopSequences ?? [];
+  }
+
+  /**
+   * Feed a chunk of model output and return the part that may be sent
+   */
+  push(delta: string): string {
+    if (this.stopped) return '';
+    this.buffer += delta;
+
+    let end = this.buffer.length;
+    let stop: OutputStop | null = null;
+
+    const match = this.findStopSequence();
+    if (match) {
+      end = match.index;
+      stop = { reason: 'stop_sequence', sequence: match.sequence };
+    } else {
+      end -= this.partialStopLength();
+    }
+
+    const budget = this.maxChars - this.emitted;
+    if (end > budget) {
+      end = budget;
+      stop = { reason: 'max_tokens' };
+    }
+
+    const text = this.buffer.slice(0, end);
+    this.buffer = stop ? '' : this.buffer.slice(end);
+    this.emitted += text.length;
+    this.stopped = stop;
+    return text;
+  }
+
+  /**
+   * Release held-back text once the model has finished
+   */
+  finish(): string {
+    if (this.stopped) return '';
+    const budget = this.maxChars - this.emitted;
+    let text = this.buffer;
+    if (text.length > budget) {
+      text = text.slice(0, budget);
+      this.stopped = { reason: 'max_tokens' };
+    }
+    this.buffer = '';
+    this.emitted += text.length;
+    return text;
+  }
+
+  /**
+   * Why output was cut, or null while it is still flowing
+   */
+  getStop(): OutputStop | null {
+    return this.stopped;
+  }
+
+  /**
+   * Estimated tokens let through so far
+   */
+  getOutputTokens(): number {
+    return Math.ceil(this.emitted / CHARS_PER_TOKEN);
+  }
+
+  private findStopSequence(): { index: number; sequence: string } | null {
+    let best: { index: number; sequence: string } | null = null;
+    for (const sequence of this.stopSequences) {
+      const index = this.buffer.indexOf(sequence);
+      if (index !== -1 && (!best || index < best.index)) {
+        best = { index, sequence };
+      }
+    }
+    return best;
+  }
+
+  private partialStopLength(): number {
+    let longest = 0;
+    for (const sequence of this.stopSequences) {
+      for (let len = Math.min(this.buffer.length, sequence.length - 1); len > longest; len--) {
+        if (sequence.startsWith(this.buffer.slice(-len))) {
+          longest = len;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+/**
+ * Apply output limits to complete text
+ */
+export function applyOutputLimits(
+  text: string,
+  limits: OutputLimits
+): { text: string; stop: OutputStop | null } {
+  const limiter = new OutputLimiter(limits);
+  const output = limiter.push(text) + limiter.finish();
+  return { text: output, stop: limiter.getStop() };
+}
+
+export const limitConverters = {
+  estimateTokens,
+  normalizeStopSequences,
+  applyOutputLimits,
+  OutputLimiter,
+};
+
+export default limitConverters;
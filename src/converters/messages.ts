@@ -9,39 +9,148 @@ import type {
   AnthropicMessage,
   AnthropicMessagesRequest,
   AnthropicContentBlock,
+  AnthropicSystemBlock,
+  OpenAIResponsesInputItem,
+  OpenAIResponsesContentPart,
+  ClaudeInputContent,
+  ClaudeInputContentBlock,
+  ClaudeConversationTurn,
+  ClaudeRequestInput,
+  ImageConfig,
+  ImageReference,
 } from '../core/types.js';
+import { formatToolCall, formatToolResult } from './tools.js';
+import { resolveImage } from './images.js';
+
+// Prompt text and images in conversation order
+type PromptSegment =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: ImageReference };
+
+// Text and images of a single message, before role handling
+interface MessageContent {
+  text: string;
+  images: ImageReference[];
+}
 
 /**
- * Convert OpenAI messages to a single prompt string for Claude CLI
+ * Extract the text and images of an OpenAI message
  */
-export function openaiMessagesToPrompt(messages: OpenAIMessage[]): string {
-  const parts: string[] = [];
+function openaiMessageContent(msg: OpenAIMessage, toolNames: Map<string, string>): MessageContent {
+  let text = '';
+  const images: ImageReference[] = [];
 
-  for (const msg of messages) {
-    let text = '';
-
-    if (typeof msg.content === 'string') {
-      text = msg.content;
-    } else if (Array.isArray(msg.content)) {
-      text = msg.content
-        .filter((c): c is OpenAIContentPart & { type: 'text' } => c.type === 'text')
-        .map(c => c.text || '')
-        .join('\n');
-    } else if (msg.content === null && msg.tool_calls) {
-      // Tool call response - format the tool calls
-      text = msg.tool_calls
-        .map(tc => `[Tool: ${tc.function.name}(${tc.function.arguments})]`)
-        .join('\n');
+  if (typeof msg.content === 'string') {
+    text = msg.content;
+  } else if (Array.isArray(msg.content)) {
+    text = msg.content
+      .filter((c): c is OpenAIContentPart & { type: 'text' } => c.type === 'text')
+      .map(c => c.text || '')
+      .join('\n');
+    for (const part of msg.content) {
+      if (part.type === 'image_url' && part.image_url?.url) {
+        images.push({ type: 'url', url: part.image_url.url });
+      }
     }
+  }
+
+  if (msg.role === 'assistant' && msg.tool_calls?.length) {
+    // Replay tool calls in the same block format the model is asked to write
+    const calls = msg.tool_calls.map(tc => {
+      toolNames.set(tc.id, tc.function.name);
+      return formatToolCall(tc.function.name, tc.function.arguments);
+    });
+    text = [text, ...calls].filter(Boolean).join('\n');
+  } else if (msg.role === 'tool') {
+    const id = msg.tool_call_id;
+    text = formatToolResult(id, msg.name || (id ? toolNames.get(id) : undefined), text);
+  }
+
+  return { text, images };
+}
+
+/**
+ * Convert OpenAI messages to prompt segments
+ */
+function openaiMessagesToSegments(messages: OpenAIMessage[]): PromptSegment[] {
+  const segments: PromptSegment[] = [];
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    const { text, images } = openaiMessageContent(msg, toolNames);
 
     if (text) {
       // Add role prefix for context
       const rolePrefix = getRolePrefix(msg.role);
-      parts.push(rolePrefix ? `${rolePrefix}: ${text}` : text);
+      segments.push({ type: 'text', text: rolePrefix ? `${rolePrefix}: ${text}` : text });
+    }
+    for (const image of images) {
+      segments.push({ type: 'image', image });
     }
   }
 
-  return parts.join('\n\n');
+  return segments;
+}
+
+/**
+ * Join the text of prompt segments, leaving out images
+ */
+function segmentsToPrompt(segments: PromptSegment[]): string {
+  return segments
+    .filter((s): s is PromptSegment & { type: 'text' } => s.type === 'text')
+    .map(s => s.text)
+    .join('\n\n');
+}
+
+/**
+ * Build CLI input from prompt segments: plain text unless images are attached
+ */
+async function segmentsToInput(
+  segments: PromptSegment[],
+  imageConfig: ImageConfig
+): Promise<ClaudeInputContent> {
+  if (!segments.some(s => s.type === 'image')) {
+    return segmentsToPrompt(segments);
+  }
+
+  const resolved = await Promise.all(
+    segments.map(s => (s.type === 'image' ? resolveImage(s.image, imageConfig) : null))
+  );
+
+  const blocks: ClaudeInputContentBlock[] = [];
+  segments.forEach((segment, i) => {
+    const image = resolved[i];
+    if (image) {
+      blocks.push(image);
+      return;
+    }
+    const last = blocks[blocks.length - 1];
+    const text = (segment as PromptSegment & { type: 'text' }).text;
+    if (last?.type === 'text') {
+      last.text += `\n\n${text}`;
+    } else {
+      blocks.push({ type: 'text', text });
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Convert OpenAI messages to a single prompt string for Claude CLI
+ */
+export function openaiMessagesToPrompt(messages: OpenAIMessage[]): string {
+  return segmentsToPrompt(openaiMessagesToSegments(messages));
+}
+
+/**
+ * Convert OpenAI messages to Claude CLI input, including any images
+ */
+export function openaiMessagesToInput(
+  messages: OpenAIMessage[],
+  imageConfig: ImageConfig
+): Promise<ClaudeInputContent> {
+  return segmentsToInput(openaiMessagesToSegments(messages), imageConfig);
 }
 
 /**
@@ -64,44 +173,202 @@ function getRolePrefix(role: string): string {
   }
 }
 
+/**
+ * Flatten an Anthropic system prompt (string or text blocks) to plain text
+ */
+export function anthropicSystemToText(system?: string | AnthropicSystemBlock[]): string | undefined {
+  if (typeof system === 'string') return system || undefined;
+  if (Array.isArray(system)) {
+    return system.map(block => block.text).filter(Boolean).join('\n') || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Convert Anthropic messages to prompt segments
+ */
+function anthropicMessagesToSegments(
+  messages: AnthropicMessage[],
+  system?: string | AnthropicSystemBlock[]
+): PromptSegment[] {
+  const segments: PromptSegment[] = [];
+
+  // Add system message if present
+  const systemText = anthropicSystemToText(system);
+  if (systemText) {
+    segments.push({ type: 'text', text: `System: ${systemText}` });
+  }
+
+  const toolNames = new Map<string, string>();
+
+  for (const msg of messages) {
+    const { text, images } = anthropicMessageContent(msg, toolNames);
+
+    if (text) {
+      const prefix = msg.role === 'user' ? '' : 'Assistant';
+      segments.push({ type: 'text', text: prefix ? `${prefix}: ${text}` : text });
+    }
+    for (const image of images) {
+      segments.push({ type: 'image', image });
+    }
+  }
+
+  return segments;
+}
+
 /**
  * Convert Anthropic messages to prompt string
  */
 export function anthropicMessagesToPrompt(
   messages: AnthropicMessage[],
-  system?: string | { type: 'text'; text: string }[]
+  system?: string | AnthropicSystemBlock[]
 ): string {
-  const parts: string[] = [];
+  return segmentsToPrompt(anthropicMessagesToSegments(messages, system));
+}
 
-  // Add system message if present
-  if (system) {
-    if (typeof system === 'string') {
-      parts.push(`System: ${system}`);
-    } else if (Array.isArray(system)) {
-      const systemText = system.map(s => s.text).join('\n');
-      parts.push(`System: ${systemText}`);
+/**
+ * Convert Anthropic messages to Claude CLI input, including any images
+ */
+export function anthropicMessagesToInput(
+  messages: AnthropicMessage[],
+  system: string | AnthropicSystemBlock[] | undefined,
+  imageConfig: ImageConfig
+): Promise<ClaudeInputContent> {
+  return segmentsToInput(anthropicMessagesToSegments(messages, system), imageConfig);
+}
+
+/**
+ * Extract the text and images of an Anthropic message
+ */
+function anthropicMessageContent(msg: AnthropicMessage, toolNames: Map<string, string>): MessageContent {
+  if (typeof msg.content === 'string') {
+    return { text: msg.content, images: [] };
+  }
+
+  const images: ImageReference[] = [];
+  const text = (msg.content || [])
+    .map(block => anthropicBlockToText(block, toolNames, images))
+    .filter(Boolean)
+    .join('\n');
+  return { text, images };
+}
+
+/**
+ * Render an Anthropic content block as prompt text, collecting images
+ */
+function anthropicBlockToText(
+  block: AnthropicContentBlock,
+  toolNames: Map<string, string>,
+  images: ImageReference[]
+): string {
+  switch (block.type) {
+    case 'text':
+      return block.text || '';
+    case 'image':
+      if (block.source?.type === 'url' && block.source.url) {
+        images.push({ type: 'url', url: block.source.url });
+      } else if (block.source?.type === 'base64') {
+        images.push({ type: 'base64', media_type: block.source.media_type, data: block.source.data || '' });
+      }
+      return '';
+    case 'tool_use':
+      if (block.id && block.name) toolNames.set(block.id, block.name);
+      return formatToolCall(block.name || '', JSON.stringify(block.input ?? {}));
+    case 'tool_result': {
+      const content = typeof block.content === 'string'
+        ? block.content
+        : (block.content || []).map(inner => anthropicBlockToText(inner, toolNames, images)).filter(Boolean).join('\n');
+      const id = block.tool_use_id;
+      return formatToolResult(id, id ? toolNames.get(id) : undefined, content, block.is_error === true);
     }
+    default:
+      return '';
   }
+}
 
-  for (const msg of messages) {
-    let text = '';
-
-    if (typeof msg.content === 'string') {
-      text = msg.content;
-    } else if (Array.isArray(msg.content)) {
-      text = msg.content
-        .filter((c): c is AnthropicContentBlock & { type: 'text' } => c.type === 'text')
-        .map(c => c.text || '')
-        .join('\n');
+/**
+ * Turn role-tagged message contents into CLI conversation input: consecutive
+ * turns of one role are merged, and the final user turn becomes the prompt.
+ * Returns null when the conversation does not end with a user turn.
+ */
+async function contentsToConversation(
+  turns: { role: 'user' | 'assistant'; content: MessageContent }[],
+  systemPrompt: string | undefined,
+  imageConfig: ImageConfig
+): Promise<ClaudeRequestInput | null> {
+  const merged: { role: 'user' | 'assistant'; segments: PromptSegment[] }[] = [];
+
+  for (const { role, content } of turns) {
+    const segments: PromptSegment[] = [];
+    if (content.text) segments.push({ type: 'text', text: content.text });
+    // Assistant turns are text only
+    if (role === 'user') {
+      for (const image of content.images) segments.push({ type: 'image', image });
     }
+    if (segments.length === 0) continue;
 
-    if (text) {
-      const prefix = msg.role === 'user' ? '' : 'Assistant';
-      parts.push(prefix ? `${prefix}: ${text}` : text);
+    const last = merged[merged.length - 1];
+    if (last?.role === role) {
+      last.segments.push(...segments);
+    } else {
+      merged.push({ role, segments });
     }
   }
 
-  return parts.join('\n\n');
+  const final = merged.pop();
+  if (!final || final.role !== 'user') return null;
+
+  const history: ClaudeConversationTurn[] = await Promise.all(
+    merged.map(async turn => ({
+      role: turn.role,
+      content: await segmentsToInput(turn.segments, imageConfig),
+    }))
+  );
+
+  return {
+    prompt: await segmentsToInput(final.segments, imageConfig),
+    systemPrompt: systemPrompt || undefined,
+    history,
+  };
+}
+
+/**
+ * Convert OpenAI messages to a structured conversation for replay mode.
+ * System and developer messages become the system prompt; tool results are
+ * sent as user turns.
+ */
+export function openaiMessagesToConversation(
+  messages: OpenAIMessage[],
+  imageConfig: ImageConfig
+): Promise<ClaudeRequestInput | null> {
+  const { system, remainingMessages } = extractSystemMessage(messages);
+  const toolNames = new Map<string, string>();
+
+  const turns = remainingMessages.map(msg => ({
+    role: msg.role === 'assistant' ? 'assistant' as const : 'user' as const,
+    content: openaiMessageContent(msg, toolNames),
+  }));
+
+  return contentsToConversation(turns, system ?? undefined, imageConfig);
+}
+
+/**
+ * Convert Anthropic messages to a structured conversation for replay mode
+ */
+export function anthropicMessagesToConversation(
+  messages: AnthropicMessage[],
+  system: string | AnthropicSystemBlock[] | undefined,
+  imageConfig: ImageConfig
+): Promise<ClaudeRequestInput | null> {
+  const systemPrompt = anthropicSystemToText(system);
+  const toolNames = new Map<string, string>();
+
+  const turns = messages.map(msg => ({
+    role: msg.role,
+    content: anthropicMessageContent(msg, toolNames),
+  }));
+
+  return contentsToConversation(turns, systemPrompt, imageConfig);
 }
 
 /**
@@ -139,6 +406,47 @@ export function extractSystemMessage(messages: OpenAIMessage[]): {
   return { system: systemText || null, remainingMessages };
 }
 
+/**
+ * Convert Responses API input and instructions to chat messages
+ */
+export function responsesInputToMessages(
+  input: string | OpenAIResponsesInputItem[],
+  instructions?: string
+): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+
+  if (instructions) {
+    messages.push({ role: 'system', content: instructions });
+  }
+
+  if (typeof input === 'string') {
+    messages.push({ role: 'user', content: input });
+    return messages;
+  }
+
+  for (const item of input) {
+    messages.push({
+      role: item.role || 'user',
+      content: typeof item.content === 'string'
+        ? item.content
+        : (item.content || []).map(convertResponsesContentPart),
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a Responses API content part to a chat content part
+ */
+function convertResponsesContentPart(part: OpenAIResponsesContentPart): OpenAIContentPart {
+  if (part.type === 'input_image' || part.type === 'image_url') {
+    const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url || '';
+    return { type: 'image_url', image_url: { url } };
+  }
+  return { type: 'text', text: part.text || '' };
+}
+
 /**
  * Check if request contains vision/image content
  */
@@ -237,8 +545,14 @@ function convertOpenAIContentToAnthropic(
 
 export const messageConverters = {
   openaiMessagesToPrompt,
+  openaiMessagesToInput,
   anthropicMessagesToPrompt,
+  anthropicMessagesToInput,
+  openaiMessagesToConversation,
+  anthropicMessagesToConversation,
+  anthropicSystemToText,
   extractSystemMessage,
+  responsesInputToMessages,
   hasVisionContent,
   hasAudioContent,
   hasToolCalls,
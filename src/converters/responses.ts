@@ -7,12 +7,20 @@ import type {
   OpenAIChatCompletionChunk,
   OpenAIChoice,
   OpenAIChunkChoice,
+  OpenAIChunkDelta,
+  OpenAIToolCall,
   OpenAIUsage,
   AnthropicMessagesResponse,
+  AnthropicContentBlock,
   AnthropicStreamEvent,
   AnthropicUsage,
   ClaudeStreamMessage,
+  OpenAIResponsesResponse,
+  OpenAIResponsesOutput,
+  OpenAIResponsesStreamEvent,
+  OpenAIResponsesUsage,
 } from '../core/types.js';
+import { estimateTokens } from './limits.js';
 
 /**
  * Generate a unique message ID
@@ -24,7 +32,7 @@ export function generateId(prefix: string = 'chatcmpl'): string {
 /**
  * Convert Anthropic usage to OpenAI usage format
  */
-export function convertUsage(usage?: AnthropicUsage): OpenAIUsage | undefined {
+export function convertUsage(usage?: AnthropicUsage, reasoningTokens: number = 0): OpenAIUsage | undefined {
   if (!usage) return undefined;
 
   return {
@@ -34,6 +42,8 @@ export function convertUsage(usage?: AnthropicUsage): OpenAIUsage | undefined {
     prompt_tokens_details: usage.cache_read_input_tokens
       ? { cached_tokens: usage.cache_read_input_tokens }
       : undefined,
+    // The CLI does not report thinking tokens separately, so they are estimated from the text
+    completion_tokens_details: { reasoning_tokens: reasoningTokens },
   };
 }
 
@@ -65,8 +75,12 @@ export function buildChatCompletionResponse(
   model: string,
   content: string,
   usage?: AnthropicUsage,
-  stopReason: AnthropicMessagesResponse['stop_reason'] = 'end_turn'
+  stopReason: AnthropicMessagesResponse['stop_reason'] = 'end_turn',
+  toolCalls: OpenAIToolCall[] = [],
+  reasoning: string = ''
 ): OpenAIChatCompletionResponse {
+  const hasToolCalls = toolCalls.length > 0;
+
   return {
     id,
     object: 'chat.completion',
@@ -77,13 +91,15 @@ export function buildChatCompletionResponse(
         index: 0,
         message: {
           role: 'assistant',
-          content,
+          content: hasToolCalls && !content ? null : content,
+          ...(reasoning ? { reasoning_content: reasoning } : {}),
+          ...(hasToolCalls ? { tool_calls: toolCalls } : {}),
         },
-        finish_reason: convertStopReason(stopReason),
+        finish_reason: convertStopReason(hasToolCalls && stopReason !== 'max_tokens' ? 'tool_use' : stopReason),
         logprobs: null,
       },
     ],
-    usage: convertUsage(usage),
+    usage: convertUsage(usage, reasoning ? estimateTokens(reasoning) : 0),
   };
 }
 
@@ -93,9 +109,10 @@ export function buildChatCompletionResponse(
 export function buildChatCompletionChunk(
   id: string,
   model: string,
-  delta: Partial<{ role: string; content: string }>,
+  delta: OpenAIChunkDelta,
   finishReason: OpenAIChunkChoice['finish_reason'] = null,
-  usage?: OpenAIUsage | null
+  usage?: OpenAIUsage | null,
+  index: number = 0
 ): OpenAIChatCompletionChunk {
   return {
     id,
@@ -104,8 +121,8 @@ export function buildChatCompletionChunk(
     model,
     choices: [
       {
-        index: 0,
-        delta: delta as any,
+        index,
+        delta,
         finish_reason: finishReason,
         logprobs: null,
       },
@@ -114,6 +131,59 @@ export function buildChatCompletionChunk(
   };
 }
 
+/**
+ * Build the trailing usage chunk sent after every choice has finished
+ */
+export function buildChatCompletionUsageChunk(
+  id: string,
+  model: string,
+  usage: OpenAIUsage
+): OpenAIChatCompletionChunk {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [],
+    usage,
+  };
+}
+
+/**
+ * Merge single-choice responses into one response with a choice per
+ * generation, summing their usage
+ */
+export function mergeChatCompletionResponses(
+  responses: OpenAIChatCompletionResponse[]
+): OpenAIChatCompletionResponse {
+  const usage = sumOpenAIUsage(responses.map(r => r.usage));
+  return {
+    ...responses[0]!,
+    choices: responses.map((response, index) => ({ ...response.choices[0]!, index })),
+    usage,
+  };
+}
+
+/**
+ * Add up OpenAI usage objects
+ */
+export function sumOpenAIUsage(usages: (OpenAIUsage | undefined)[]): OpenAIUsage {
+  let cached = 0;
+  let reasoning = 0;
+  const total: OpenAIUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  for (const usage of usages) {
+    if (!usage) continue;
+    total.prompt_tokens += usage.prompt_tokens;
+    total.completion_tokens += usage.completion_tokens;
+    total.total_tokens += usage.total_tokens;
+    cached += usage.prompt_tokens_details?.cached_tokens ?? 0;
+    reasoning += usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  }
+  if (cached) total.prompt_tokens_details = { cached_tokens: cached };
+  total.completion_tokens_details = { reasoning_tokens: reasoning };
+  return total;
+}
+
 /**
  * Format SSE data line
  */
@@ -154,11 +224,14 @@ export function buildAnthropicMessageStart(
 /**
  * Build Anthropic content_block_start event
  */
-export function buildAnthropicContentBlockStart(index: number = 0): AnthropicStreamEvent {
+export function buildAnthropicContentBlockStart(
+  index: number = 0,
+  contentBlock: AnthropicContentBlock = { type: 'text', text: '' }
+): AnthropicStreamEvent {
   return {
     type: 'content_block_start',
     index,
-    content_block: { type: 'text', text: '' },
+    content_block: contentBlock,
   };
 }
 
@@ -176,6 +249,34 @@ export function buildAnthropicContentBlockDelta(
   };
 }
 
+/**
+ * Build Anthropic thinking_delta or signature_delta event for a thinking block
+ */
+export function buildAnthropicThinkingDelta(
+  index: number,
+  delta: { type: 'thinking_delta'; thinking: string } | { type: 'signature_delta'; signature: string }
+): AnthropicStreamEvent {
+  return {
+    type: 'content_block_delta',
+    index,
+    delta,
+  };
+}
+
+/**
+ * Build Anthropic input_json_delta event for a tool_use block
+ */
+export function buildAnthropicInputJsonDelta(
+  index: number,
+  partialJson: string
+): AnthropicStreamEvent {
+  return {
+    type: 'content_block_delta',
+    index,
+    delta: { type: 'input_json_delta', partial_json: partialJson },
+  };
+}
+
 /**
  * Build Anthropic content_block_stop event
  */
@@ -191,11 +292,12 @@ export function buildAnthropicContentBlockStop(index: number = 0): AnthropicStre
  */
 export function buildAnthropicMessageDelta(
   stopReason: string = 'end_turn',
-  usage?: Partial<AnthropicUsage>
+  usage?: Partial<AnthropicUsage>,
+  stopSequence: string | null = null
 ): AnthropicStreamEvent {
   return {
     type: 'message_delta',
-    delta: { stop_reason: stopReason, stop_sequence: null },
+    delta: { stop_reason: stopReason, stop_sequence: stopSequence },
     usage: usage ? { output_tokens: usage.output_tokens || 0 } : undefined,
   };
 }
@@ -227,15 +329,26 @@ export function claudeToAnthropicStreamEvent(
 export class OpenAIStreamingState {
   private id: string;
   private model: string;
+  private index: number;
   private sentRole = false;
+  private sentToolCalls = false;
   private finishReason: OpenAIChunkChoice['finish_reason'] = null;
-  private totalTokens = 0;
   private inputTokens = 0;
   private outputTokens = 0;
+  private reasoning = '';
 
-  constructor(id: string, model: string) {
+  constructor(id: string, model: string, index: number = 0) {
     this.id = id;
     this.model = model;
+    this.index = index;
+  }
+
+  private chunk(
+    delta: OpenAIChunkDelta,
+    finishReason: OpenAIChunkChoice['finish_reason'] = null,
+    usage?: OpenAIUsage | null
+  ): OpenAIChatCompletionChunk {
+    return buildChatCompletionChunk(this.id, this.model, delta, finishReason, usage, this.index);
   }
 
   /**
@@ -243,31 +356,53 @@ export class OpenAIStreamingState {
    */
   buildRoleChunk(): OpenAIChatCompletionChunk {
     this.sentRole = true;
-    return buildChatCompletionChunk(this.id, this.model, { role: 'assistant', content: '' });
+    return this.chunk({ role: 'assistant', content: '' });
   }
 
   /**
    * Build content delta chunk
    */
   buildContentChunk(text: string): OpenAIChatCompletionChunk {
-    return buildChatCompletionChunk(this.id, this.model, { content: text });
+    return this.chunk({ content: text });
+  }
+
+  /**
+   * Build a reasoning_content delta chunk carrying thinking text
+   */
+  buildReasoningChunk(text: string): OpenAIChatCompletionChunk {
+    this.reasoning += text;
+    return this.chunk({ reasoning_content: text });
+  }
+
+  /**
+   * Build the opening chunk of a tool call (id and function name)
+   */
+  buildToolCallStartChunk(index: number, id: string, name: string): OpenAIChatCompletionChunk {
+    this.sentToolCalls = true;
+    return this.chunk({
+      tool_calls: [{ index, id, type: 'function', function: { name, arguments: '' } }],
+    });
+  }
+
+  /**
+   * Build a tool call arguments delta chunk
+   */
+  buildToolCallArgumentsChunk(index: number, args: string): OpenAIChatCompletionChunk {
+    return this.chunk({
+      tool_calls: [{ index, function: { arguments: args } }],
+    });
   }
 
   /**
    * Build final chunk with finish reason
    */
   buildFinalChunk(stopReason: string = 'end_turn', includeUsage = false): OpenAIChatCompletionChunk {
-    this.finishReason = convertStopReason(stopReason as any);
-
-    const usage = includeUsage
-      ? {
-          prompt_tokens: this.inputTokens,
-          completion_tokens: this.outputTokens,
-          total_tokens: this.inputTokens + this.outputTokens,
-        }
-      : null;
+    // Being cut off by max_tokens wins over tool calls, which may be incomplete
+    const reason = this.sentToolCalls && stopReason !== 'max_tokens' ? 'tool_use' : stopReason;
+    this.finishReason = convertStopReason(reason as any);
 
-    return buildChatCompletionChunk(this.id, this.model, {}, this.finishReason, usage);
+    const usage = includeUsage ? this.getUsage() : null;
+    return this.chunk({}, this.finishReason, usage);
   }
 
   /**
@@ -277,7 +412,6 @@ export class OpenAIStreamingState {
     if (usage) {
       if (usage.input_tokens) this.inputTokens = usage.input_tokens;
       if (usage.output_tokens) this.outputTokens = usage.output_tokens;
-      this.totalTokens = this.inputTokens + this.outputTokens;
     }
   }
 
@@ -288,6 +422,13 @@ export class OpenAIStreamingState {
     return this.sentRole;
   }
 
+  /**
+   * Check if any tool call chunks have been sent
+   */
+  hasSentToolCalls(): boolean {
+    return this.sentToolCalls;
+  }
+
   /**
    * Get current usage stats
    */
@@ -295,7 +436,8 @@ export class OpenAIStreamingState {
     return {
       prompt_tokens: this.inputTokens,
       completion_tokens: this.outputTokens,
-      total_tokens: this.totalTokens,
+      total_tokens: this.inputTokens + this.outputTokens,
+      completion_tokens_details: { reasoning_tokens: estimateTokens(this.reasoning) },
     };
   }
 }
@@ -308,6 +450,7 @@ export class AnthropicStreamingState {
   private model: string;
   private sentMessageStart = false;
   private sentBlockStart = false;
+  private blockType: AnthropicContentBlock['type'] | null = null;
   private blockIndex = 0;
   private inputTokens = 0;
   private outputTokens = 0;
@@ -334,12 +477,34 @@ export class AnthropicStreamingState {
   /**
    * Build content_block_start event if not sent
    */
-  buildContentBlockStart(): { event: AnthropicStreamEvent; sent: boolean } {
+  buildContentBlockStart(contentBlock?: AnthropicContentBlock): { event: AnthropicStreamEvent; sent: boolean } {
     if (this.sentBlockStart) {
-      return { event: buildAnthropicContentBlockStart(this.blockIndex), sent: false };
+      return { event: buildAnthropicContentBlockStart(this.blockIndex, contentBlock), sent: false };
     }
     this.sentBlockStart = true;
-    return { event: buildAnthropicContentBlockStart(this.blockIndex), sent: true };
+    this.blockType = contentBlock?.type ?? 'text';
+    return { event: buildAnthropicContentBlockStart(this.blockIndex, contentBlock), sent: true };
+  }
+
+  /**
+   * Build thinking_delta event for the current thinking block
+   */
+  buildThinkingDelta(thinking: string): AnthropicStreamEvent {
+    return buildAnthropicThinkingDelta(this.blockIndex, { type: 'thinking_delta', thinking });
+  }
+
+  /**
+   * Build signature_delta event closing out the current thinking block
+   */
+  buildSignatureDelta(signature: string): AnthropicStreamEvent {
+    return buildAnthropicThinkingDelta(this.blockIndex, { type: 'signature_delta', signature });
+  }
+
+  /**
+   * Build input_json_delta event for the current tool_use block
+   */
+  buildInputJsonDelta(partialJson: string): AnthropicStreamEvent {
+    return buildAnthropicInputJsonDelta(this.blockIndex, partialJson);
   }
 
   /**
@@ -356,15 +521,20 @@ export class AnthropicStreamingState {
     const event = buildAnthropicContentBlockStop(this.blockIndex);
     this.blockIndex++;
     this.sentBlockStart = false;
+    this.blockType = null;
     return event;
   }
 
   /**
    * Build message_delta event
    */
-  buildMessageDelta(stopReason: string = 'end_turn', outputTokens?: number): AnthropicStreamEvent {
+  buildMessageDelta(
+    stopReason: string = 'end_turn',
+    outputTokens?: number,
+    stopSequence: string | null = null
+  ): AnthropicStreamEvent {
     if (outputTokens) this.outputTokens = outputTokens;
-    return buildAnthropicMessageDelta(stopReason, { output_tokens: this.outputTokens });
+    return buildAnthropicMessageDelta(stopReason, { output_tokens: this.outputTokens }, stopSequence);
   }
 
   /**
@@ -387,6 +557,223 @@ export class AnthropicStreamingState {
   hasSentBlockStart(): boolean {
     return this.sentBlockStart;
   }
+
+  /**
+   * Type of the content block currently open, if any
+   */
+  getOpenBlockType(): AnthropicContentBlock['type'] | null {
+    return this.blockType;
+  }
+}
+
+/**
+ * Convert Anthropic usage to Responses API usage format
+ */
+export function convertUsageToResponses(usage?: AnthropicUsage): OpenAIResponsesUsage | undefined {
+  if (!usage) return undefined;
+
+  return {
+    input_tokens: usage.input_tokens || 0,
+    output_tokens: usage.output_tokens || 0,
+    total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0),
+    input_tokens_details: { cached_tokens: usage.cache_read_input_tokens || 0 },
+    output_tokens_details: { reasoning_tokens: 0 },
+  };
+}
+
+/**
+ * Build a Responses API assistant message output item
+ */
+export function buildResponsesOutputMessage(
+  itemId: string,
+  text: string,
+  status: OpenAIResponsesOutput['status'] = 'completed'
+): OpenAIResponsesOutput {
+  return {
+    type: 'message',
+    id: itemId,
+    role: 'assistant',
+    status,
+    content: status !== 'in_progress' || text
+      ? [{ type: 'output_text', text, annotations: [] }]
+      : [],
+  };
+}
+
+/**
+ * Build a complete Responses API response object
+ */
+export function buildResponsesResponse(
+  id: string,
+  model: string,
+  output: OpenAIResponsesOutput[],
+  options: {
+    status?: OpenAIResponsesResponse['status'];
+    usage?: AnthropicUsage;
+    createdAt?: number;
+    incompleteReason?: 'max_output_tokens';
+    instructions?: string;
+    maxOutputTokens?: number;
+    metadata?: Record<string, string>;
+  } = {}
+): OpenAIResponsesResponse {
+  return {
+    id,
+    object: 'response',
+    created_at: options.createdAt ?? Math.floor(Date.now() / 1000),
+    status: options.status ?? 'completed',
+    model,
+    output,
+    instructions: options.instructions ?? null,
+    max_output_tokens: options.maxOutputTokens ?? null,
+    usage: convertUsageToResponses(options.usage),
+    metadata: options.metadata ?? {},
+    error: null,
+    incomplete_details: options.incompleteReason ? { reason: options.incompleteReason } : null,
+  };
+}
+
+/**
+ * Streaming state tracker for the Responses API event family
+ */
+export class ResponsesStreamingState {
+  private id: string;
+  private model: string;
+  private itemId: string;
+  private createdAt = Math.floor(Date.now() / 1000);
+  private sequenceNumber = 0;
+  private started = false;
+  private text = '';
+  private usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+  private options: { instructions?: string; maxOutputTokens?: number; metadata?: Record<string, string> };
+
+  constructor(
+    id: string,
+    model: string,
+    options: { instructions?: string; maxOutputTokens?: number; metadata?: Record<string, string> } = {}
+  ) {
+    this.id = id;
+    this.model = model;
+    this.itemId = generateId('msg');
+    this.options = options;
+  }
+
+  private event(type: string, fields: Omit<OpenAIResponsesStreamEvent, 'type' | 'sequence_number'>): OpenAIResponsesStreamEvent {
+    return { type, sequence_number: this.sequenceNumber++, ...fields };
+  }
+
+  private snapshot(
+    status: OpenAIResponsesResponse['status'],
+    output: OpenAIResponsesOutput[]
+  ): OpenAIResponsesResponse {
+    return buildResponsesResponse(this.id, this.model, output, {
+      ...this.options,
+      status,
+      createdAt: this.createdAt,
+      usage: status === 'in_progress' ? undefined : this.usage,
+      incompleteReason: status === 'incomplete' ? 'max_output_tokens' : undefined,
+    });
+  }
+
+  /**
+   * Build the opening events: response.created through content_part.added
+   */
+  buildStartEvents(): OpenAIResponsesStreamEvent[] {
+    this.started = true;
+    const item = buildResponsesOutputMessage(this.itemId, '', 'in_progress');
+
+    return [
+      this.event('response.created', { response: this.snapshot('in_progress', []) }),
+      this.event('response.in_progress', { response: this.snapshot('in_progress', []) }),
+      this.event('response.output_item.added', { output_index: 0, item }),
+      this.event('response.content_part.added', {
+        item_id: this.itemId,
+        output_index: 0,
+        content_index: 0,
+        part: { type: 'output_text', text: '', annotations: [] },
+      }),
+    ];
+  }
+
+  /**
+   * Build a response.output_text.delta event
+   */
+  buildTextDelta(delta: string): OpenAIResponsesStreamEvent {
+    this.text += delta;
+    return this.event('response.output_text.delta', {
+      item_id: this.itemId,
+      output_index: 0,
+      content_index: 0,
+      delta,
+    });
+  }
+
+  /**
+   * Build the closing events: output_text.done through response.completed,
+   * or response.incomplete when the output was cut at max_output_tokens
+   */
+  buildFinishEvents(incomplete: boolean = false): OpenAIResponsesStreamEvent[] {
+    const events = this.started ? [] : this.buildStartEvents();
+    const status = incomplete ? 'incomplete' : 'completed';
+    const item = buildResponsesOutputMessage(this.itemId, this.text, status);
+
+    events.push(
+      this.event('response.output_text.done', {
+        item_id: this.itemId,
+        output_index: 0,
+        content_index: 0,
+        text: this.text,
+      }),
+      this.event('response.content_part.done', {
+        item_id: this.itemId,
+        output_index: 0,
+        content_index: 0,
+        part: { type: 'output_text', text: this.text, annotations: [] },
+      }),
+      this.event('response.output_item.done', { output_index: 0, item }),
+      this.event(`response.${status}`, { response: this.snapshot(status, [item]) }),
+    );
+    return events;
+  }
+
+  /**
+   * Build a response.failed event
+   */
+  buildFailedEvent(type: string, message: string): OpenAIResponsesStreamEvent {
+    const response = this.snapshot('failed', []);
+    response.error = { type, message };
+    return this.event('response.failed', { response });
+  }
+
+  /**
+   * Update usage from Anthropic event
+   */
+  updateUsage(usage?: Partial<AnthropicUsage>): void {
+    if (usage) {
+      this.usage = { ...this.usage, ...usage };
+    }
+  }
+
+  /**
+   * Check if the opening events have been sent
+   */
+  hasStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Get accumulated output text
+   */
+  getText(): string {
+    return this.text;
+  }
+
+  /**
+   * Get current usage stats
+   */
+  getUsage(): AnthropicUsage {
+    return this.usage;
+  }
 }
 
 export const responseConverters = {
@@ -395,17 +782,26 @@ export const responseConverters = {
   convertStopReason,
   buildChatCompletionResponse,
   buildChatCompletionChunk,
+  buildChatCompletionUsageChunk,
+  mergeChatCompletionResponses,
+  sumOpenAIUsage,
   formatSSE,
   formatOpenAISSE,
   buildAnthropicMessageStart,
   buildAnthropicContentBlockStart,
   buildAnthropicContentBlockDelta,
+  buildAnthropicThinkingDelta,
+  buildAnthropicInputJsonDelta,
   buildAnthropicContentBlockStop,
   buildAnthropicMessageDelta,
   buildAnthropicMessageStop,
   claudeToAnthropicStreamEvent,
+  convertUsageToResponses,
+  buildResponsesOutputMessage,
+  buildResponsesResponse,
   OpenAIStreamingState,
   AnthropicStreamingState,
+  ResponsesStreamingState,
 };
 
 export default responseConverters;
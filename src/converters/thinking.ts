@@ -0,0 +1,39 @@
+/**
+ * Extended thinking
+ * Maps client reasoning controls to a CLI thinking budget (MAX_THINKING_TOKENS)
+ */
+
+import type { ReasoningEffort, AnthropicThinkingConfig } from '../core/types.js';
+
+// Thinking budget for each OpenAI reasoning_effort level; 0 turns thinking off
+export const REASONING_EFFORT_BUDGETS: Record<ReasoningEffort, number> = {
+  minimal: 0,
+  low: 2048,
+  medium: 8192,
+  high: 24576,
+};
+
+// Smallest budget the API accepts for enabled thinking
+export const MIN_THINKING_BUDGET = 1024;
+
+/**
+ * Thinking budget for an OpenAI reasoning_effort, or undefined to leave the CLI default
+ */
+export function reasoningEffortToThinkingTokens(effort?: ReasoningEffort): number | undefined {
+  return effort ? REASONING_EFFORT_BUDGETS[effort] : undefined;
+}
+
+/**
+ * Thinking budget for an Anthropic thinking setting, or undefined to leave the CLI default
+ */
+export function anthropicThinkingToTokens(thinking?: AnthropicThinkingConfig): number | undefined {
+  if (!thinking) return undefined;
+  return thinking.type === 'enabled' ? thinking.budget_tokens : 0;
+}
+
+export const thinkingConverters = {
+  reasoningEffortToThinkingTokens,
+  anthropicThinkingToTokens,
+};
+
+export default thinkingConverters;
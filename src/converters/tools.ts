@@ -0,0 +1,370 @@
+/**
+ * Tool calling emulation
+ * Client-defined tools are described to Claude in the prompt, and the calls it
+ * makes are read back out of the generated text as <tool_call> blocks
+ */
+
+import type {
+  OpenAITool,
+  OpenAIChatCompletionRequest,
+  AnthropicTool,
+  AnthropicMessagesRequest,
+  ToolDefinition,
+  ToolChoiceMode,
+  ParsedToolCall,
+  ToolStreamEvent,
+  ToolParserOptions,
+} from '../core/types.js';
+import { generateId } from './responses.js';
+
+const OPEN_TAG = '<tool_call';
+const CLOSE_TAG = '</tool_call>';
+
+/**
+ * Convert OpenAI function tools to neutral tool definitions
+ */
+export function openaiToolsToDefinitions(tools?: OpenAITool[]): ToolDefinition[] {
+  return (tools || [])
+    .filter(tool => tool.type === 'function' && tool.function?.name)
+    .map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters,
+    }));
+}
+
+/**
+ * Convert an OpenAI tool_choice value to a tool choice mode
+ */
+export function openaiToolChoiceToMode(
+  choice?: OpenAIChatCompletionRequest['tool_choice']
+): ToolChoiceMode {
+  if (choice === 'none') return { type: 'none' };
+  if (choice === 'required') return { type: 'required' };
+  if (choice && typeof choice === 'object') return { type: 'tool', name: choice.function.name };
+  return { type: 'auto' };
+}
+
+/**
+ * Convert Anthropic tools to neutral tool definitions
+ */
+export function anthropicToolsToDefinitions(tools?: AnthropicTool[]): ToolDefinition[] {
+  return (tools || [])
+    .filter(tool => tool.name)
+    .map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    }));
+}
+
+/**
+ * Convert an Anthropic tool_choice value to a tool choice mode
+ */
+export function anthropicToolChoiceToMode(
+  choice?: AnthropicMessagesRequest['tool_choice']
+): ToolChoiceMode {
+  switch (choice?.type) {
+    case 'none':
+      return { type: 'none' };
+    case 'any':
+      return { type: 'required' };
+    case 'tool':
+      return { type: 'tool', name: choice.name || '' };
+    default:
+      return { type: 'auto' };
+  }
+}
+
+/**
+ * Check whether tool calls should be looked for in the output
+ */
+export function toolsEnabled(tools: ToolDefinition[], choice: ToolChoiceMode): boolean {
+  return tools.length > 0 && choice.type !== 'none';
+}
+
+/**
+ * Build the prompt section that describes the available tools and call format
+ */
+export function buildToolPrompt(
+  tools: ToolDefinition[],
+  choice: ToolChoiceMode = { type: 'auto' },
+  parallelToolCalls = true
+): string {
+  if (!toolsEnabled(tools, choice)) return '';
+
+  const lines = [
+    'You can call the tools listed below. They are run by the client, not by you:',
+    'to use one, write a tool call block and end your reply. The result is sent back',
+    'in the next message inside a <tool_result> block.',
+    '',
+    'Write each call exactly like this, with the arguments as a JSON object that',
+    'matches the tool parameters:',
+    formatToolCall('TOOL_NAME', '{"argument": "value"}'),
+    '',
+    'Available tools:',
+  ];
+
+  for (const tool of tools) {
+    lines.push(`- ${tool.name}${tool.description ? `: ${tool.description}` : ''}`);
+    if (tool.parameters) {
+      lines.push(`  Parameters (JSON Schema): ${JSON.stringify(tool.parameters)}`);
+    }
+  }
+
+  if (choice.type === 'required') {
+    lines.push('', 'You must call at least one tool in this reply.');
+  } else if (choice.type === 'tool') {
+    lines.push('', `You must call the "${choice.name}" tool in this reply.`);
+  }
+  if (!parallelToolCalls) {
+    lines.push('', 'Call at most one tool per reply.');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a tool call the way the model is asked to write it
+ */
+export function formatToolCall(name: string, args: string): string {
+  return `${OPEN_TAG} name="${name}">\n${args || '{}'}\n${CLOSE_TAG}`;
+}
+
+/**
+ * Format a tool result being fed back to the model
+ */
+export function formatToolResult(
+  id: string | undefined,
+  name: string | undefined,
+  content: string,
+  isError = false
+): string {
+  const attrs = [
+    id ? ` id="${id}"` : '',
+    name ? ` name="${name}"` : '',
+    isError ? ' is_error="true"' : '',
+  ].join('');
+  return `<tool_result${attrs}>\n${content}\n</tool_result>`;
+}
+
+/**
+ * Length of the longest suffix of text that is a prefix of tag
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let len = Math.min(text.length, tag.length - 1); len > 0; len--) {
+    if (tag.startsWith(text.slice(-len))) return len;
+  }
+  return 0;
+}
+
+/**
+ * Incremental scanner that splits model output into text and tool calls
+ *
+ * Argument JSON is passed through as it arrives so clients see tool calls
+ * stream. Text written after the first tool call is dropped: the model is
+ * expected to stop and wait for results at that point.
+ */
+export class ToolCallParser {
+  private mode: 'text' | 'tag' | 'args' = 'text';
+  private buffer = '';
+  private callCount = 0;
+  private maxCalls: number;
+  private idPrefix: string;
+  private current: {
+    id: string;
+    name?: string;
+    body: string;
+    skip: boolean;
+  } | null = null;
+
+  constructor(options: ToolParserOptions = {}) {
+    this.maxCalls = options.maxCalls ?? Infinity;
+    this.idPrefix = options.idPrefix ?? 'call';
+  }
+
+  /**
+   * Feed a chunk of model output
+   */
+  push(delta: string): ToolStreamEvent[] {
+    const events: ToolStreamEvent[] = [];
+    this.buffer += delta;
+
+    for (;;) {
+      if (this.mode === 'text') {
+        const idx = this.buffer.indexOf(OPEN_TAG);
+        if (idx === -1) {
+          const keep = partialTagLength(this.buffer, OPEN_TAG);
+          this.emitText(this.buffer.slice(0, this.buffer.length - keep), events);
+          this.buffer = this.buffer.slice(this.buffer.length - keep);
+          break;
+        }
+        this.emitText(this.buffer.slice(0, idx), events);
+        this.buffer = this.buffer.slice(idx + OPEN_TAG.length);
+        this.mode = 'tag';
+      } else if (this.mode === 'tag') {
+        const end = this.buffer.indexOf('>');
+        if (end === -1) break;
+        const name = /name\s*=\s*["']([^"']+)["']/.exec(this.buffer.slice(0, end))?.[1];
+        this.buffer = this.buffer.slice(end + 1);
+        this.beginCall(name, events);
+        this.mode = 'args';
+      } else {
+        const idx = this.buffer.indexOf(CLOSE_TAG);
+        if (idx === -1) {
+          // Hold back a possible closing tag and trailing whitespace
+          let emitEnd = this.buffer.length - partialTagLength(this.buffer, CLOSE_TAG);
+          while (emitEnd > 0 && /\s/.test(this.buffer[emitEnd - 1]!)) emitEnd--;
+          this.emitArguments(this.buffer.slice(0, emitEnd), events);
+          this.buffer = this.buffer.slice(emitEnd);
+          break;
+        }
+        this.emitArguments(this.buffer.slice(0, idx).trimEnd(), events);
+        this.buffer = this.buffer.slice(idx + CLOSE_TAG.length);
+        this.endCall(events);
+        this.mode = 'text';
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush buffered output once the model has finished
+   */
+  finish(): ToolStreamEvent[] {
+    const events: ToolStreamEvent[] = [];
+
+    if (this.mode === 'text') {
+      this.emitText(this.buffer, events);
+    } else if (this.mode === 'tag') {
+      this.emitText(OPEN_TAG + this.buffer, events);
+    } else {
+      // Unterminated call (e.g. output cut short): close what we have
+      this.emitArguments(this.buffer.trimEnd(), events);
+      this.endCall(events);
+    }
+
+    this.buffer = '';
+    this.mode = 'text';
+    return events;
+  }
+
+  /**
+   * Number of tool calls emitted so far
+   */
+  getCallCount(): number {
+    return this.callCount;
+  }
+
+  private emitText(text: string, events: ToolStreamEvent[]): void {
+    if (text && this.callCount === 0) {
+      events.push({ type: 'text', text });
+    }
+  }
+
+  private beginCall(name: string | undefined, events: ToolStreamEvent[]): void {
+    this.current = {
+      id: generateId(this.idPrefix),
+      name,
+      body: '',
+      skip: this.callCount >= this.maxCalls,
+    };
+    if (name && !this.current.skip) {
+      events.push({ type: 'tool_call_start', index: this.callCount, id: this.current.id, name });
+    }
+  }
+
+  private emitArguments(chunk: string, events: ToolStreamEvent[]): void {
+    const call = this.current;
+    if (!call) return;
+
+    if (!call.body) chunk = chunk.trimStart();
+    if (!chunk) return;
+    call.body += chunk;
+
+    // Calls without a name attribute carry it in the body; wait for the whole block
+    if (call.name && !call.skip) {
+      events.push({ type: 'tool_call_delta', index: this.callCount, arguments: chunk });
+    }
+  }
+
+  private endCall(events: ToolStreamEvent[]): void {
+    const call = this.current;
+    this.current = null;
+    if (!call || call.skip) return;
+
+    if (call.name) {
+      if (!call.body) {
+        events.push({ type: 'tool_call_delta', index: this.callCount, arguments: '{}' });
+      }
+      events.push({ type: 'tool_call_end', index: this.callCount });
+      this.callCount++;
+      return;
+    }
+
+    // Fallback form: <tool_call>{"name": "...", "arguments": {...}}</tool_call>
+    let parsed: { name?: unknown; arguments?: unknown } | null = null;
+    try {
+      parsed = JSON.parse(call.body);
+    } catch {
+      parsed = null;
+    }
+
+    if (!parsed || typeof parsed.name !== 'string') {
+      this.emitText(`${OPEN_TAG}>${call.body}${CLOSE_TAG}`, events);
+      return;
+    }
+
+    const args = typeof parsed.arguments === 'string'
+      ? parsed.arguments
+      : JSON.stringify(parsed.arguments ?? {});
+    events.push(
+      { type: 'tool_call_start', index: this.callCount, id: call.id, name: parsed.name },
+      { type: 'tool_call_delta', index: this.callCount, arguments: args },
+      { type: 'tool_call_end', index: this.callCount },
+    );
+    this.callCount++;
+  }
+}
+
+/**
+ * Split complete model output into text and tool calls
+ */
+export function parseToolCalls(
+  text: string,
+  options: ToolParserOptions = {}
+): { text: string; calls: ParsedToolCall[] } {
+  const parser = new ToolCallParser(options);
+  const events = [...parser.push(text), ...parser.finish()];
+
+  let content = '';
+  const calls: ParsedToolCall[] = [];
+
+  for (const event of events) {
+    if (event.type === 'text') {
+      content += event.text;
+    } else if (event.type === 'tool_call_start') {
+      calls[event.index] = { id: event.id, name: event.name, arguments: '' };
+    } else if (event.type === 'tool_call_delta') {
+      calls[event.index]!.arguments += event.arguments;
+    }
+  }
+
+  return { text: content.trim(), calls };
+}
+
+export const toolConverters = {
+  openaiToolsToDefinitions,
+  openaiToolChoiceToMode,
+  anthropicToolsToDefinitions,
+  anthropicToolChoiceToMode,
+  toolsEnabled,
+  buildToolPrompt,
+  formatToolCall,
+  formatToolResult,
+  parseToolCalls,
+  ToolCallParser,
+};
+
+export default toolConverters;
@@ -0,0 +1,305 @@
+/**
+ * Account pool
+ * Several subscription accounts, read from the JSON file named by
+ * CLAUDE_ACCOUNTS_FILE, that requests are spread over. Each account is served
+ * by CLI processes launched with its own token. An account that hits a rate
+ * limit or is refused sits out for a while and its requests move to another.
+ */
+
+import { readFileSync } from 'node:fs';
+import type {
+  AccountPoolConfig,
+  AnthropicUsage,
+  ClaudeAccount,
+  ClaudeStreamMessage,
+  OAuthCredentials,
+} from './types.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+export type AccountFailureKind = 'rate_limit' | 'auth';
+
+export interface AccountFailure {
+  kind: AccountFailureKind;
+  message: string;
+  retryAt?: number;        // When the account's limit resets, if the error said
+}
+
+export interface AccountStatus {
+  name: string;
+  subscriptionType?: string;
+  status: 'available' | 'cooling_down';
+  availableAt?: string;
+  inFlight: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export interface AccountPoolStatus {
+  strategy: AccountPoolConfig['strategy'];
+  accounts: AccountStatus[];
+}
+
+interface AccountState {
+  account: ClaudeAccount;
+  inFlight: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  cooldownUntil: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const RATE_LIMIT_PATTERN = /rate[ _-]?limit|usage limit|\b429\b|too many requests/i;
+const AUTH_PATTERN = /\b40[13]\b|authentication_error|permission_error|invalid (api key|bearer token)|oauth token|\/login/i;
+
+/**
+ * Recognise error text meaning the account, not the request, is the problem
+ */
+export function classifyAccountError(text: string): AccountFailure | null {
+  const message = text.trim().slice(0, 200);
+  if (RATE_LIMIT_PATTERN.test(text)) {
+    // Subscription limits end with the reset time in epoch seconds
+    const reset = /limit reached\|(\d{9,})/i.exec(text);
+    return { kind: 'rate_limit', message, retryAt: reset ? Number(reset[1]) * 1000 : undefined };
+  }
+  if (AUTH_PATTERN.test(text)) {
+    return { kind: 'auth', message };
+  }
+  return null;
+}
+
+/**
+ * Account failure reported by a CLI message that arrived before the model
+ * produced any output: the CLI's synthetic error reply or the error result
+ */
+export function detectAccountFailure(msg: ClaudeStreamMessage): AccountFailure | null {
+  if (msg.type === 'result') {
+    return msg.result ? classifyAccountError(msg.result) : null;
+  }
+  if (msg.type === 'assistant') {
+    const text = (msg.message?.content || []).map(block => block.text || '').join('');
+    return text ? classifyAccountError(text) : null;
+  }
+  return null;
+}
+
+/**
+ * Parse an accounts file: a list of entries, or `{ "accounts": [...] }`.
+ * Each entry has a name and either its credentials (flat or in
+ * `claudeAiOauth`) or a `credentialsFile` to read them from.
+ */
+export function parseAccountFile(content: string): ClaudeAccount[] {
+  const parsed = JSON.parse(content);
+  const entries: unknown = Array.isArray(parsed) ? parsed : parsed?.accounts;
+  if (!Array.isArray(entries)) throw new Error('expected a list of accounts');
+
+  const names = new Set<string>();
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') throw new Error(`account ${index + 1} is not an object`);
+    const name = typeof entry.name === 'string' && entry.name ? entry.name : `account-${index + 1}`;
+    if (names.has(name)) throw new Error(`duplicate account name ${name}`);
+    names.add(name);
+
+    const credentials = typeof entry.credentialsFile === 'string'
+      ? config.readCredentialsFile(entry.credentialsFile)
+      : config.parseOAuthCredentials(JSON.stringify(entry));
+    if (!credentials?.accessToken) throw new Error(`account ${name} has no access token`);
+
+    return typeof entry.credentialsFile === 'string'
+      ? { name, credentials, credentialsFile: entry.credentialsFile }
+      : { name, credentials };
+  });
+}
+
+export class AccountPool {
+  private accounts: AccountState[] = [];
+  private poolConfig: AccountPoolConfig = { strategy: 'round-robin', cooldownMs: 5 * 60 * 1000 };
+  private cursor = 0;                       // Next account in round-robin order
+  private sticky = new Map<string, string>();  // Client key name → account name
+
+  get size(): number {
+    return this.accounts.length;
+  }
+
+  /**
+   * Replace the accounts and, optionally, the pool settings
+   */
+  setAccounts(accounts: ClaudeAccount[], poolConfig: Partial<AccountPoolConfig> = {}): void {
+    this.poolConfig = { ...this.poolConfig, ...poolConfig };
+    this.accounts = accounts.map(account => ({
+      account,
+      inFlight: 0,
+      requests: 0,
+      failures: 0,
+      cooldownUntil: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+    }));
+    this.cursor = 0;
+    this.sticky.clear();
+  }
+
+  /**
+   * Load the accounts file, if one is configured
+   */
+  load(): void {
+    const poolConfig = config.getAccountPoolConfig();
+    if (!poolConfig.file) {
+      this.setAccounts([], poolConfig);
+      return;
+    }
+
+    let accounts: ClaudeAccount[];
+    try {
+      accounts = parseAccountFile(readFileSync(poolConfig.file, 'utf8'));
+    } catch (err) {
+      throw new Error(`Failed to load accounts from ${poolConfig.file}: ${(err as Error).message}`);
+    }
+    this.setAccounts(accounts, poolConfig);
+    logger.info('Accounts loaded', { count: accounts.length, strategy: poolConfig.strategy });
+  }
+
+  getAccounts(): ClaudeAccount[] {
+    return this.accounts.map(state => state.account);
+  }
+
+  getAccount(name: string): ClaudeAccount | undefined {
+    return this.find(name)?.account;
+  }
+
+  /**
+   * Swap in refreshed credentials for an account. Requests already running
+   * keep the token they started with; an account sitting out after an auth
+   * error is put back in rotation.
+   */
+  setCredentials(name: string, credentials: OAuthCredentials): void {
+    const state = this.find(name);
+    if (!state) return;
+    state.account = { ...state.account, credentials };
+    if (state.lastError?.startsWith('auth:')) state.cooldownUntil = 0;
+  }
+
+  /**
+   * Pick the account for a request, skipping the excluded ones. Accounts
+   * sitting out are only used when every other account is too.
+   */
+  select(clientKey?: string, exclude: Set<string> = new Set(), now: number = Date.now()): ClaudeAccount | null {
+    const candidates = this.accounts.filter(state => !exclude.has(state.account.name));
+    if (candidates.length === 0) return null;
+
+    const available = candidates.filter(state => state.cooldownUntil <= now);
+    if (available.length === 0) {
+      return candidates.sort((a, b) => a.cooldownUntil - b.cooldownUntil)[0]!.account;
+    }
+
+    switch (this.poolConfig.strategy) {
+      case 'sticky': {
+        if (!clientKey) return this.leastLoaded(available).account;
+        const pinned = available.find(state => state.account.name === this.sticky.get(clientKey));
+        const chosen = pinned ?? this.leastLoaded(available);
+        this.sticky.set(clientKey, chosen.account.name);
+        return chosen.account;
+      }
+      case 'least-loaded':
+        return this.leastLoaded(available).account;
+      default: {
+        for (let offset = 0; offset < this.accounts.length; offset++) {
+          const index = (this.cursor + offset) % this.accounts.length;
+          const state = this.accounts[index]!;
+          if (available.includes(state)) {
+            this.cursor = index + 1;
+            return state.account;
+          }
+        }
+        return available[0]!.account;
+      }
+    }
+  }
+
+  /**
+   * Count a request as in flight on an account until the returned function
+   * is called
+   */
+  acquire(name: string): () => void {
+    const state = this.find(name);
+    if (!state) return () => {};
+
+    state.inFlight++;
+    state.requests++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.inFlight--;
+    };
+  }
+
+  /**
+   * Take an account out of rotation after a rate limit or auth error
+   */
+  reportFailure(name: string, failure: AccountFailure, now: number = Date.now()): void {
+    const state = this.find(name);
+    if (!state) return;
+
+    state.failures++;
+    state.lastError = `${failure.kind}: ${failure.message}`;
+    state.cooldownUntil = Math.max(failure.retryAt ?? 0, now + this.poolConfig.cooldownMs);
+    logger.warn('Account taken out of rotation', {
+      account: name,
+      kind: failure.kind,
+      until: new Date(state.cooldownUntil).toISOString(),
+    });
+  }
+
+  /**
+   * Add a finished turn's tokens to an account's totals
+   */
+  recordUsage(name: string, usage: AnthropicUsage): void {
+    const state = this.find(name);
+    if (!state) return;
+
+    state.inputTokens += (usage.input_tokens || 0)
+      + (usage.cache_creation_input_tokens || 0)
+      + (usage.cache_read_input_tokens || 0);
+    state.outputTokens += usage.output_tokens || 0;
+  }
+
+  /**
+   * Per-account load, usage and health for /health
+   */
+  getStatus(now: number = Date.now()): AccountPoolStatus {
+    return {
+      strategy: this.poolConfig.strategy,
+      accounts: this.accounts.map(state => ({
+        name: state.account.name,
+        subscriptionType: state.account.credentials.subscriptionType,
+        status: state.cooldownUntil > now ? 'cooling_down' : 'available',
+        availableAt: state.cooldownUntil > now ? new Date(state.cooldownUntil).toISOString() : undefined,
+        inFlight: state.inFlight,
+        requests: state.requests,
+        failures: state.failures,
+        lastError: state.lastError,
+        usage: { input_tokens: state.inputTokens, output_tokens: state.outputTokens },
+      })),
+    };
+  }
+
+  private find(name: string): AccountState | undefined {
+    return this.accounts.find(state => state.account.name === name);
+  }
+
+  private leastLoaded(states: AccountState[]): AccountState {
+    return [...states].sort((a, b) => a.inFlight - b.inFlight || a.requests - b.requests)[0]!;
+  }
+}
+
+export const accountPool = new AccountPool();
+
+export default accountPool;
@@ -0,0 +1,225 @@
+/**
+ * Proxy API keys
+ * Named client keys allowed to use the proxy, read from PROXY_API_KEY,
+ * PROXY_API_KEYS and the JSON or YAML file named by PROXY_API_KEYS_FILE.
+ * With no keys configured the proxy stays open.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { ProxyApiKey, RateLimits } from './types.js';
+import { logger } from './logger.js';
+
+/**
+ * Parse a comma-separated key list. Entries are `name:key`, or a bare key
+ * which is named after its position (`key-1`, `key-2`, ...).
+ */
+export function parseApiKeyList(raw: string): ProxyApiKey[] {
+  return raw
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const separator = entry.indexOf(':');
+      return separator > 0
+        ? { name: entry.slice(0, separator).trim(), key: entry.slice(separator + 1).trim() }
+        : { name: `key-${index + 1}`, key: entry };
+    });
+}
+
+function unquote(value: string): string {
+  const quoted = /^(['"])(.*)\1$/.exec(value);
+  return quoted ? quoted[2]! : value;
+}
+
+function splitPair(line: string): [string, string] {
+  const separator = line.indexOf(':');
+  if (separator <= 0) throw new Error(`expected "name: value", got "${line}"`);
+  return [unquote(line.slice(0, separator).trim()), unquote(line.slice(separator + 1).trim())];
+}
+
+/**
+ * Parse the YAML subset used by key files: top-level `name: value` pairs,
+ * or a top-level key holding a list of flat mappings. Values are strings.
+ */
+function parseKeyFileYaml(text: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  let list: Record<string, string>[] | null = null;
+  let item: Record<string, string> | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trimEnd();
+    if (!line.trim()) continue;
+
+    if (!/^\s/.test(line)) {
+      const [name, value] = splitPair(line);
+      list = value ? null : [];
+      root[name] = value || list;
+      item = null;
+      continue;
+    }
+
+    let content = line.trim();
+    if (!list) throw new Error(`unexpected indented line "${content}"`);
+    if (content === '-' || content.startsWith('- ')) {
+      item = {};
+      list.push(item);
+      content = content.slice(1).trim();
+      if (!content) continue;
+    }
+    if (!item) throw new Error(`expected a list item, got "${content}"`);
+    const [name, value] = splitPair(content);
+    item[name] = value;
+  }
+
+  return root;
+}
+
+// Key file fields holding per-key limits
+const LIMIT_FIELDS: Record<string, keyof RateLimits> = {
+  rpm: 'requestsPerMinute',
+  concurrency: 'concurrency',
+  input_tokens_per_day: 'inputTokensPerDay',
+  output_tokens_per_day: 'outputTokensPerDay',
+};
+
+function parseLimits(entry: Record<string, unknown>, name: string): Partial<RateLimits> | undefined {
+  const limits: Partial<RateLimits> = {};
+  for (const [field, limit] of Object.entries(LIMIT_FIELDS)) {
+    if (entry[field] === undefined) continue;
+    const value = Number(entry[field]);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`key "${name}" has an invalid ${field}: ${entry[field]}`);
+    }
+    limits[limit] = value;
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+function parseAdmin(entry: Record<string, unknown>, name: string): boolean {
+  const { admin } = entry;
+  if (admin === undefined || admin === false || admin === 'false') return false;
+  if (admin === true || admin === 'true') return true;
+  throw new Error(`key "${name}" has an invalid admin flag: ${admin}`);
+}
+
+/**
+ * Turn parsed key file data into keys. Accepts `{ keys: [{ name, key }] }`,
+ * a bare `[{ name, key }]` list, or a `{ name: key }` mapping.
+ */
+export function normalizeApiKeys(data: unknown): ProxyApiKey[] {
+  const entries = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && 'keys' in data
+      ? (data as { keys: unknown }).keys
+      : data && typeof data === 'object'
+        ? Object.entries(data).map(([name, key]) => ({ name, key }))
+        : null;
+
+  if (!Array.isArray(entries)) throw new Error('expected a list of keys');
+  return entries.map((entry, index) => {
+    const fields = (entry ?? {}) as Record<string, unknown>;
+    const { key } = fields;
+    if (typeof key !== 'string' || !key) throw new Error(`key ${index + 1} has no key value`);
+    const name = typeof fields.name === 'string' && fields.name ? fields.name : `key-${index + 1}`;
+    const limits = parseLimits(fields, name);
+    const admin = parseAdmin(fields, name);
+    return { name, key, ...(limits ? { limits } : {}), ...(admin ? { admin } : {}) };
+  });
+}
+
+/**
+ * Parse a key file; `.json` files (or content starting with `{` or `[`) are JSON, anything else YAML
+ */
+export function parseApiKeyFile(content: string, path: string = ''): ProxyApiKey[] {
+  const trimmed = content.trim();
+  const isJson = path.endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[');
+  return normalizeApiKeys(isJson ? JSON.parse(trimmed) : parseKeyFileYaml(content));
+}
+
+/**
+ * Read all configured keys from the environment and key file
+ */
+export function loadApiKeys(): ProxyApiKey[] {
+  const keys: ProxyApiKey[] = [];
+
+  if (process.env.PROXY_API_KEY) {
+    keys.push({ name: 'default', key: process.env.PROXY_API_KEY.trim() });
+  }
+  if (process.env.PROXY_API_KEYS) {
+    keys.push(...parseApiKeyList(process.env.PROXY_API_KEYS));
+  }
+
+  const file = process.env.PROXY_API_KEYS_FILE;
+  if (file) {
+    try {
+      keys.push(...parseApiKeyFile(readFileSync(file, 'utf8'), file));
+    } catch (err) {
+      // A broken key file must not leave the proxy open
+      throw new Error(`Failed to load API keys from ${file}: ${(err as Error).message}`);
+    }
+  }
+
+  return keys;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Looks up client keys by their hash, so the keys themselves are not kept
+ * around as lookup strings
+ */
+export class ApiKeyStore {
+  private keys = new Map<string, ProxyApiKey>();
+  private loaded = false;
+
+  /**
+   * Replace the configured keys
+   */
+  setKeys(keys: ProxyApiKey[]): void {
+    this.keys.clear();
+    for (const entry of keys) {
+      const hash = hashKey(entry.key);
+      if (this.keys.has(hash)) {
+        logger.warn('Duplicate proxy API key ignored', { name: entry.name });
+        continue;
+      }
+      this.keys.set(hash, entry);
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Load keys from the environment and key file
+   */
+  reload(): void {
+    this.setKeys(loadApiKeys());
+    if (this.keys.size > 0) {
+      logger.info('Proxy API keys loaded', { count: this.keys.size });
+    } else {
+      logger.warn('No proxy API keys configured; requests are not authenticated');
+    }
+  }
+
+  /**
+   * Whether requests must present a key
+   */
+  isEnabled(): boolean {
+    if (!this.loaded) this.reload();
+    return this.keys.size > 0;
+  }
+
+  /**
+   * Find the key entry matching a presented key
+   */
+  authenticate(key: string): ProxyApiKey | null {
+    if (!this.loaded) this.reload();
+    return this.keys.get(hashKey(key)) ?? null;
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore();
+
+export default apiKeyStore;
@@ -1,242 +1,996 @@
 /**
  * Claude CLI Process Manager
- * Manages a persistent Claude CLI process with request queueing
+ * Manages a pool of persistent Claude CLI workers with request queueing
  */
 
-import { spawn, ChildProcess } from 'node:child_process';
-import * as readline from 'node:readline';
-import type { ClaudeStreamMessage, ClaudeInputMessage, AnthropicUsage } from './types.js';
+import { randomUUID } from 'node:crypto';
+import type {
+  AnthropicUsage,
+  ClaudeStreamMessage,
+  ClaudeInputContent,
+  ClaudeConversationTurn,
+  PoolConfig,
+  TimeoutConfig,
+  SessionConfig,
+} from './types.js';
 import { logger } from './logger.js';
+import { config } from './config.js';
+import { proxyMetrics } from './metrics.js';
+import { usageAttributes } from './tracing.js';
+import type { Span } from './tracing.js';
+import { ClaudeRequestError } from './errors.js';
+import { ClaudeWorker, workerSpecKey, fingerprint } from './claude-worker.js';
+import { seedSession, removeSession } from './claude-session.js';
+import { SessionCache, conversationKey } from './session-cache.js';
+import { accountPool, detectAccountFailure } from './account-pool.js';
+import type { AccountFailure } from './account-pool.js';
+import type { CachedSession, SessionCacheStats } from './session-cache.js';
+import type { RequestHandler, WorkerSpec, WorkerStatus } from './claude-worker.js';
+
+export interface SendMessageOptions {
+  /** Prefer the worker that last served this key (e.g. a client session) */
+  affinityKey?: string;
+  /** Resolved Claude model ID; requests only run on workers launched with it */
+  model?: string;
+  /** Per-request overrides of the configured timeouts (0 disables) */
+  timeouts?: Partial<RequestTimeouts>;
+  /** Client system prompt, applied per the configured system prompt policy */
+  systemPrompt?: string;
+  /**
+   * Earlier turns of a structured conversation. Continues a cached session
+   * when one matches, otherwise seeded as a session a dedicated worker resumes.
+   */
+  history?: ClaudeConversationTurn[];
+  /** Extended thinking budget in tokens (0 disables); the CLI default when unset */
+  thinkingTokens?: number;
+  /** Called once with the turn's token usage when it ends, however it ends */
+  onUsage?: (usage: AnthropicUsage) => void;
+  /** Request-scoped access token; such requests only run on workers launched with it */
+  oauthToken?: string;
+  /** Name of the client key, which sticky account selection keeps on one account */
+  clientKey?: string;
+  /** Span of the HTTP request; the turn's queue, spawn and model spans go under it */
+  span?: Span;
+}
+
+export type RequestTimeouts = Pick<TimeoutConfig, 'firstTokenMs' | 'idleMs' | 'totalMs'>;
 
-export interface RequestHandler {
-  onEvent: (message: ClaudeStreamMessage) => void;
-  onError: (error: Error) => void;
-  onDone: (code: number) => void;
+type TimeoutKind = 'firstToken' | 'idle' | 'total';
+
+/**
+ * Wrap a request's handlers to report its token usage once it settles. The
+ * final result carries the turn's totals; a turn cut short reports what its
+ * stream events had counted so far.
+ */
+function reportUsage(
+  handlers: RequestHandler,
+  onUsage: (usage: AnthropicUsage) => void
+): { handlers: RequestHandler; flush: () => void } {
+  let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+  let reported = false;
+
+  const flush = () => {
+    if (reported) return;
+    reported = true;
+    onUsage(usage);
+  };
+
+  return {
+    handlers: {
+      onEvent: (msg) => {
+        if (msg.type === 'result' && msg.usage) {
+          usage = msg.usage;
+        } else if (msg.type === 'stream_event' && msg.event?.type === 'message_start' && msg.event.message?.usage) {
+          usage = { ...usage, ...msg.event.message.usage };
+        } else if (msg.type === 'stream_event' && msg.event?.type === 'message_delta' && msg.event.usage) {
+          usage = { ...usage, ...msg.event.usage };
+        }
+        handlers.onEvent(msg);
+      },
+      onError: (err) => {
+        flush();
+        handlers.onError(err);
+      },
+      onDone: (code) => {
+        flush();
+        handlers.onDone(code);
+      },
+    },
+    flush,
+  };
+}
+
+/**
+ * Put a system prompt at the top of the user turn, for the 'keep' policy
+ */
+function inlineSystemPrompt(prompt: ClaudeInputContent, systemPrompt: string): ClaudeInputContent {
+  const text = `System: ${systemPrompt}`;
+  if (typeof prompt === 'string') {
+    return prompt ? `${text}\n\n${prompt}` : text;
+  }
+  return [{ type: 'text', text }, ...prompt];
+}
+
+/**
+ * Handle returned by sendMessage to abandon a request
+ */
+export interface RequestHandle {
+  id: string;
+  /** Drop the request from the queue or interrupt its running CLI turn */
+  cancel: () => void;
 }
 
 interface QueuedRequest extends RequestHandler {
-  prompt: string;
+  id: string;
+  prompt: ClaudeInputContent;
+  options: SendMessageOptions;
+  spec: WorkerSpec;
+  specKey: string;
+  queuedAt: number;
+  worker?: ClaudeWorker;
+  spawnedWorker?: boolean;  // The worker was launched for this request
+  settled: boolean;
+  firstTokenAt?: number;
+  spans?: TurnSpans;
+  conversation?: {
+    scope: string;
+    turns: ClaudeConversationTurn[];
+    reply: string;
+  };
+  phaseTimer?: NodeJS.Timeout;
+  totalTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Trace spans of a CLI turn, under the span of its HTTP request
+ */
+interface TurnSpans {
+  queue: Span;
+  spawn?: Span;
+  firstToken?: Span;
+  completion?: Span;
+}
+
+export interface ProcessManagerStatus {
+  alive: boolean;
+  requestCount: number;
+  queueLength: number;
+  lastActivity: number;
+  pid: number | undefined;
+  cancelledCount: number;
+  timeouts: Record<TimeoutKind, number>;
+  watchdogRestarts: number;
+  pool: PoolConfig;
+  sessions: SessionCacheStats;
+  workers: WorkerStatus[];
 }
 
 export class ClaudeProcessManager {
-  private process: ChildProcess | null = null;
-  private rl: readline.Interface | null = null;
-  private isReady = false;
-  private pendingRequest: RequestHandler | null = null;
+  private workers: ClaudeWorker[] = [];
   private requestQueue: QueuedRequest[] = [];
+  private poolConfig: PoolConfig;
+  private timeoutConfig: TimeoutConfig;
+  private sessionConfig: SessionConfig;
+  private sessions: SessionCache;
+  private nextWorkerId = 1;
   private lastActivity = Date.now();
   private requestCount = 0;
-
-  constructor() {
-    logger.info('ClaudeProcessManager initialized');
+  private cancelledCount = 0;
+  private timeoutCounts: Record<TimeoutKind, number> = { firstToken: 0, idle: 0, total: 0 };
+  private watchdogRestarts = 0;
+  private reaper: NodeJS.Timeout | null = null;
+  private watchdog: NodeJS.Timeout | null = null;
+  private retiring = new Set<ClaudeWorker>();  // Busy workers to stop once their turn ends
+  private unsubscribeCredentials: () => void;
+
+  constructor(
+    poolConfig: Partial<PoolConfig> = {},
+    timeoutConfig: Partial<TimeoutConfig> = {},
+    sessionConfig: Partial<SessionConfig> = {}
+  ) {
+    this.poolConfig = { ...config.getPoolConfig(), ...poolConfig };
+    this.timeoutConfig = { ...config.getTimeoutConfig(), ...timeoutConfig };
+    this.sessionConfig = { ...config.getSessionConfig(), ...sessionConfig };
+    this.sessions = new SessionCache(
+      this.sessionConfig.maxSessions,
+      this.sessionConfig.ttlMs,
+      (session) => this.evictSession(session)
+    );
+    this.unsubscribeCredentials = config.onCredentialsChange(() => this.handleCredentialsChange());
+    logger.info('ClaudeProcessManager initialized', {
+      ...this.poolConfig,
+      ...this.timeoutConfig,
+      sessionReuse: this.sessionConfig.reuse,
+    });
   }
 
   /**
-   * Ensure Claude process is running
+   * Ensure the minimum number of workers is running
    */
   async ensureProcess(): Promise<void> {
-    if (this.process && !this.process.killed) {
-      logger.debug('Reusing existing Claude process', {
-        pid: this.process.pid,
-        requestCount: this.requestCount,
-      });
-      return;
+    while (this.workers.length < Math.max(1, this.poolConfig.minWorkers)) {
+      this.spawnWorker({});
     }
+  }
 
-    logger.info('Starting new persistent Claude process');
-    const startTime = Date.now();
-
-    const args = [
-      '--input-format', 'stream-json',
-      '--output-format', 'stream-json',
-      '--verbose',
-      '--include-partial-messages',
-      '--dangerously-skip-permissions',
-      '--no-session-persistence',
-    ];
-
-    this.process = spawn('claude', args, {
-      env: {
-        ...process.env,
-        CI: 'true',
-        TERM: 'dumb',
-        CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: 'true',
-      },
-      stdio: ['pipe', 'pipe', 'pipe'],
+  /**
+   * Spawn a new worker and add it to the pool
+   */
+  private spawnWorker(spec: WorkerSpec): ClaudeWorker {
+    const worker = new ClaudeWorker(this.nextWorkerId++, spec, {
+      onRequestComplete: (w) => this.handleRequestComplete(w),
+      onExit: (w) => this.removeWorker(w),
     });
 
-    logger.info('Claude process spawned', {
-      pid: this.process.pid,
-      elapsed: Date.now() - startTime,
+    this.workers.push(worker);
+    worker.start();
+    this.startReaper();
+    this.startWatchdog();
+
+    logger.info('Worker added to pool', {
+      workerId: worker.id,
+      model: spec.model,
+      poolSize: this.workers.length,
     });
 
-    this.rl = readline.createInterface({ input: this.process.stdout! });
+    return worker;
+  }
 
-    // Handle output lines
-    this.rl.on('line', (line: string) => {
-      if (!line.trim()) return;
+  /**
+   * Drop a stopped worker from the pool and let queued requests use the free slot
+   */
+  private removeWorker(worker: ClaudeWorker): void {
+    // A cached conversation stays resumable from disk once its worker is gone
+    if (worker.spec.sessionId && !this.sessions.detachWorker(worker)) {
+      this.removeWorkerSessions(worker);
+    }
 
-      try {
-        const msg = JSON.parse(line) as ClaudeStreamMessage;
-        this.handleMessage(msg);
-      } catch (err) {
-        logger.error('Parse error', { line: line.slice(0, 100) });
-      }
-    });
+    this.retiring.delete(worker);
+    const index = this.workers.indexOf(worker);
+    if (index === -1) return;
 
-    // Handle stderr
-    this.process.stderr?.on('data', (data: Buffer) => {
-      logger.warn('stderr', { data: data.toString().slice(0, 200) });
+    this.workers.splice(index, 1);
+    logger.info('Worker removed from pool', {
+      workerId: worker.id,
+      poolSize: this.workers.length,
     });
 
-    // Handle process close
-    this.process.on('close', (code: number | null) => {
-      logger.info('Claude process closed', { code, requestCount: this.requestCount });
-      this.process = null;
-      this.rl = null;
-      this.isReady = false;
-
-      if (this.pendingRequest) {
-        this.pendingRequest.onError(new Error(`Process exited with code ${code}`));
-        this.pendingRequest = null;
-      }
-    });
+    this.processQueue();
+  }
 
-    // Handle process error
-    this.process.on('error', (err: Error) => {
-      logger.error('Process error', { error: err.message });
-      if (this.pendingRequest) {
-        this.pendingRequest.onError(err);
-        this.pendingRequest = null;
-      }
-    });
+  /**
+   * Delete the session files a conversation worker used
+   */
+  private removeWorkerSessions(worker: ClaudeWorker): void {
+    removeSession(worker.spec.sessionId!);
+    if (worker.sessionId && worker.sessionId !== worker.spec.sessionId) {
+      removeSession(worker.sessionId);
+    }
+  }
 
-    this.isReady = true;
-    logger.info('Claude process ready', { elapsed: Date.now() - startTime });
+  /**
+   * Release a conversation dropped from the session cache
+   */
+  private evictSession(session: CachedSession): void {
+    logger.debug('Evicting cached session', { sessionId: session.sessionId, workerId: session.worker?.id });
+    session.worker?.stop();
+    removeSession(session.sessionId);
   }
 
   /**
-   * Handle message from Claude process
+   * Hand a worker that finished a request to the next queued one. Workers
+   * owning a conversation session are parked in the session cache, or
+   * retired when it does not keep them, since their context belongs to a
+   * single conversation.
    */
-  private handleMessage(msg: ClaudeStreamMessage): void {
-    this.lastActivity = Date.now();
+  private handleRequestComplete(worker: ClaudeWorker): void {
+    if (this.retiring.delete(worker)) {
+      worker.stop();
+      return;
+    }
+    if (worker.spec.sessionId && !this.sessions.holds(worker)) {
+      worker.stop();
+      return;
+    }
+    this.processQueue();
+  }
 
-    if (msg.type === 'system') {
-      logger.debug('System message received', { subtype: msg.subtype || 'init' });
+  /**
+   * Restart the workers running on the process-wide credentials after they
+   * changed, since a CLI process keeps the token it was launched with. Idle
+   * workers are stopped now and busy ones once their turn ends; workers with
+   * request-scoped credentials are left alone.
+   */
+  private handleCredentialsChange(): void {
+    const stale = this.workers.filter(w => !w.spec.oauthToken);
+    logger.info('Credentials changed, restarting workers', { workers: stale.length });
+
+    for (const worker of stale) {
+      if (worker.state === 'busy') {
+        this.retiring.add(worker);
+      } else {
+        worker.stop();
+      }
     }
+    while (this.workers.length < this.poolConfig.minWorkers) {
+      this.spawnWorker({});
+    }
+  }
+
+  /**
+   * Pick an idle worker for a request, spawning one if the pool has room.
+   * When the pool is full, an idle worker launched for a different spec is
+   * replaced. Returns null when no worker can be freed.
+   */
+  private acquireWorker(request: QueuedRequest): ClaudeWorker | null {
+    const { affinityKey } = request.options;
+    const idle = this.workers.filter(w => w.state === 'idle' && w.specKey === request.specKey);
 
-    if (this.pendingRequest) {
-      this.pendingRequest.onEvent(msg);
+    if (affinityKey) {
+      const match = idle.find(w => w.affinityKey === affinityKey);
+      if (match) return match;
+    }
 
-      // Check if this completes the request
-      if (msg.type === 'result') {
-        logger.debug('Result received, request complete', { requestCount: this.requestCount });
-        const req = this.pendingRequest;
-        this.pendingRequest = null;
-        req.onDone(0);
+    // Prefer workers not bound to another client, then the least recently used
+    const candidate = idle.sort((a, b) => {
+      const aBound = a.affinityKey !== undefined ? 1 : 0;
+      const bBound = b.affinityKey !== undefined ? 1 : 0;
+      return aBound - bBound || a.lastActivity - b.lastActivity;
+    })[0];
+    if (candidate) return candidate;
+
+    if (this.workers.length < this.poolConfig.maxWorkers) {
+      request.spawnedWorker = true;
+      return this.spawnWorker(request.spec);
+    }
 
-        // Process next request in queue
-        this.processQueue();
-      }
+    const victim = this.workers
+      .filter(w => w.state === 'idle')
+      .sort((a, b) => a.lastActivity - b.lastActivity)[0];
+    if (victim) {
+      logger.info('Replacing idle worker for another model', {
+        workerId: victim.id,
+        from: victim.spec.model,
+        to: request.spec.model,
+      });
+      // Detach before stopping so the exit callback does not re-enter the queue
+      this.workers.splice(this.workers.indexOf(victim), 1);
+      victim.stop();
+      request.spawnedWorker = true;
+      return this.spawnWorker(request.spec);
     }
+
+    return null;
   }
 
   /**
    * Send a message to Claude
    */
   sendMessage(
-    prompt: string,
+    prompt: ClaudeInputContent,
     onEvent: (message: ClaudeStreamMessage) => void,
     onError: (error: Error) => void,
-    onDone: (code: number) => void
-  ): void {
-    const request: QueuedRequest = { prompt, onEvent, onError, onDone };
+    onDone: (code: number) => void,
+    options: SendMessageOptions = {}
+  ): RequestHandle {
+    if (!options.oauthToken && accountPool.size > 0) {
+      return this.sendWithAccounts(prompt, { onEvent, onError, onDone }, options);
+    }
+
+    let flushUsage = () => {};
+    if (options.onUsage) {
+      const reporting = reportUsage({ onEvent, onError, onDone }, options.onUsage);
+      ({ onEvent, onError, onDone } = reporting.handlers);
+      flushUsage = reporting.flush;
+    }
+
+    const spec: WorkerSpec = {
+      model: options.model,
+      thinkingTokens: options.thinkingTokens,
+      oauthToken: options.oauthToken,
+    };
+    const policy = config.getSystemPromptPolicy();
+    if (options.systemPrompt && policy !== 'keep') {
+      spec.systemPrompt = options.systemPrompt;
+      spec.systemPromptPolicy = policy;
+    }
 
-    if (this.pendingRequest) {
-      logger.debug('Queueing request', { queueLength: this.requestQueue.length });
+    const history = options.history;
+    const reuse = this.sessionConfig.reuse && history !== undefined;
+    const scope = JSON.stringify([
+      options.model,
+      policy,
+      options.systemPrompt,
+      options.thinkingTokens,
+      options.oauthToken && fingerprint(options.oauthToken),
+    ]);
+    const cached = reuse ? this.sessions.take(scope, history) : null;
+    const turnPrompt = prompt;
+
+    if (cached) {
+      // Only the new user turn is sent; the session already holds the rest
+      spec.sessionId = cached.worker?.spec.sessionId ?? cached.sessionId;
+      spec.resumeSession = true;
+      logger.debug('Continuing cached session', {
+        sessionId: cached.sessionId,
+        workerId: cached.worker?.id,
+        turns: history!.length,
+      });
+    } else {
+      if (options.systemPrompt && policy === 'keep') {
+        prompt = inlineSystemPrompt(prompt, options.systemPrompt);
+      }
+      try {
+        if (history?.length) {
+          spec.sessionId = seedSession(history, { model: options.model });
+          spec.resumeSession = true;
+        } else if (reuse) {
+          spec.sessionId = randomUUID();
+        }
+      } catch (err) {
+        logger.error('Failed to seed CLI session', { error: (err as Error).message });
+        onError(new ClaudeRequestError(
+          'api_error',
+          `Failed to prepare conversation history: ${(err as Error).message}`,
+          500,
+          'session_seed_failed'
+        ));
+        return { id: '', cancel: () => {} };
+      }
+    }
+
+    const request: QueuedRequest = {
+      id: Math.random().toString(36).substring(2, 8),
+      prompt,
+      onEvent,
+      onError,
+      onDone,
+      options,
+      spec,
+      specKey: workerSpecKey(spec),
+      queuedAt: Date.now(),
+      settled: false,
+      conversation: reuse
+        ? { scope, turns: [...history!, { role: 'user', content: turnPrompt }], reply: '' }
+        : undefined,
+    };
+    if (options.span) {
+      request.spans = { queue: options.span.child('claude.queue', {}, request.queuedAt) };
+    }
+    const handle: RequestHandle = {
+      id: request.id,
+      cancel: () => {
+        this.cancelRequest(request);
+        flushUsage();
+      },
+    };
+
+    const worker = this.acquireWorker(request);
+    if (!worker) {
+      logger.debug('Queueing request', {
+        requestId: request.id,
+        queueLength: this.requestQueue.length,
+      });
       this.requestQueue.push(request);
-      return;
+      return handle;
     }
 
-    this.executeRequest(request);
+    this.executeRequest(worker, request);
+    return handle;
   }
 
   /**
-   * Execute a request
+   * Run a request on an account from the pool. The CLI's messages are held
+   * back until the model starts streaming; if the turn ends before that with
+   * a rate limit or auth error, the account sits out and the request is sent
+   * again on another one, invisibly to the client.
    */
-  private async executeRequest(request: QueuedRequest): Promise<void> {
-    const { prompt, onEvent, onError, onDone } = request;
-    const requestId = Math.random().toString(36).substring(2, 8);
-    const startTime = Date.now();
+  private sendWithAccounts(
+    prompt: ClaudeInputContent,
+    handlers: RequestHandler,
+    options: SendMessageOptions
+  ): RequestHandle {
+    let { onEvent, onError, onDone } = handlers;
+    let flushUsage = () => {};
+    if (options.onUsage) {
+      const reporting = reportUsage(handlers, options.onUsage);
+      ({ onEvent, onError, onDone } = reporting.handlers);
+      flushUsage = reporting.flush;
+    }
 
-    try {
-      await this.ensureProcess();
+    const tried = new Set<string>();
+    let current: { handle: RequestHandle; release: () => void; flushAccountUsage: () => void } | undefined;
 
-      this.pendingRequest = { onEvent, onError, onDone };
-      this.requestCount++;
+    const attempt = (): void => {
+      const account = accountPool.select(options.clientKey, tried)!;
+      tried.add(account.name);
+      const release = accountPool.acquire(account.name);
 
-      const inputMessage: ClaudeInputMessage = {
-        type: 'user',
-        message: { role: 'user', content: prompt },
+      let held: ClaudeStreamMessage[] | null = [];
+      let failure: AccountFailure | null = null;
+      const deliver = () => {
+        for (const msg of held ?? []) onEvent(msg);
+        held = null;
       };
 
-      logger.debug('Sending message', {
+      const tracked = reportUsage({
+        onEvent: (msg) => {
+          if (!held) {
+            onEvent(msg);
+            return;
+          }
+          failure = detectAccountFailure(msg) ?? failure;
+          held.push(msg);
+          if (msg.type === 'stream_event') deliver();
+        },
+        onError: (err) => {
+          release();
+          deliver();
+          onError(err);
+        },
+        onDone: (code) => {
+          release();
+          if (held && failure) {
+            accountPool.reportFailure(account.name, failure);
+            if (tried.size < accountPool.size) {
+              logger.warn('Retrying request on another account', { account: account.name, kind: failure.kind });
+              attempt();
+              return;
+            }
+          }
+          deliver();
+          onDone(code);
+        },
+      }, usage => accountPool.recordUsage(account.name, usage));
+
+      current = { handle: { id: '', cancel: () => {} }, release, flushAccountUsage: tracked.flush };
+      const attemptState = current;
+      const handle = this.sendMessage(
+        prompt,
+        tracked.handlers.onEvent,
+        tracked.handlers.onError,
+        tracked.handlers.onDone,
+        { ...options, onUsage: undefined, oauthToken: account.credentials.accessToken }
+      );
+      attemptState.handle = handle;
+    };
+
+    attempt();
+    return {
+      id: current?.handle.id ?? '',
+      cancel: () => {
+        current?.handle.cancel();
+        current?.release();
+        current?.flushAccountUsage();
+        flushUsage();
+      },
+    };
+  }
+
+  /**
+   * Cancel a queued or running request. Its handlers are not called again.
+   */
+  private cancelRequest(request: QueuedRequest): void {
+    if (request.settled) return;
+    request.settled = true;
+    this.cancelledCount++;
+
+    const queueIndex = this.requestQueue.indexOf(request);
+    if (queueIndex !== -1) {
+      this.requestQueue.splice(queueIndex, 1);
+      this.discardSession(request);
+      this.traceSettled(request, 'Cancelled');
+      logger.info('Cancelled queued request', { requestId: request.id });
+      return;
+    }
+
+    logger.info('Cancelled running request', {
+      requestId: request.id,
+      workerId: request.worker?.id,
+    });
+    this.traceSettled(request, 'Cancelled');
+    this.abortRunning(request, 'cancelled');
+  }
+
+  /**
+   * Delete the seeded session of a request that will never reach a worker
+   */
+  private discardSession(request: QueuedRequest): void {
+    if (request.spec.sessionId) {
+      removeSession(request.spec.sessionId);
+    }
+  }
+
+  /**
+   * Interrupt a running request by killing its worker. The handlers are not called.
+   */
+  private abortRunning(request: QueuedRequest, reason: 'cancelled' | 'timeout'): void {
+    this.clearTimers(request);
+
+    const worker = request.worker;
+    if (worker && worker.state === 'busy') {
+      proxyMetrics.cliRestarts.inc({ reason });
+      // Detach first so the freed slot is handed to the queue right away
+      this.workers.splice(this.workers.indexOf(worker), 1);
+      worker.cancel();
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Arm the first-token and total timers for a dispatched request
+   */
+  private startTimers(request: QueuedRequest, timeouts: RequestTimeouts): void {
+    if (timeouts.firstTokenMs > 0) {
+      request.phaseTimer = setTimeout(
+        () => this.timeoutRequest(request, 'firstToken', timeouts.firstTokenMs),
+        timeouts.firstTokenMs
+      );
+    }
+    if (timeouts.totalMs > 0) {
+      request.totalTimer = setTimeout(
+        () => this.timeoutRequest(request, 'total', timeouts.totalMs),
+        timeouts.totalMs
+      );
+    }
+  }
+
+  /**
+   * Track output progress: switch from the first-token timer to the idle timer
+   * on the first content delta, then re-arm the idle timer on every event
+   */
+  private trackActivity(request: QueuedRequest, msg: ClaudeStreamMessage, timeouts: RequestTimeouts): void {
+    if (!request.firstTokenAt) {
+      if (msg.type !== 'stream_event' || msg.event?.type !== 'content_block_delta') return;
+      request.firstTokenAt = Date.now();
+      proxyMetrics.timeToFirstToken.observe(
+        (request.firstTokenAt - request.queuedAt) / 1000,
+        { model: request.spec.model || 'default' }
+      );
+      request.spans?.firstToken?.end();
+    }
+
+    if (request.phaseTimer) clearTimeout(request.phaseTimer);
+    request.phaseTimer = undefined;
+    if (timeouts.idleMs > 0) {
+      request.phaseTimer = setTimeout(
+        () => this.timeoutRequest(request, 'idle', timeouts.idleMs),
+        timeouts.idleMs
+      );
+    }
+  }
+
+  private clearTimers(request: QueuedRequest): void {
+    if (request.phaseTimer) clearTimeout(request.phaseTimer);
+    if (request.totalTimer) clearTimeout(request.totalTimer);
+    request.phaseTimer = undefined;
+    request.totalTimer = undefined;
+  }
+
+  /**
+   * Fail a request that exceeded one of its timeouts and restart its worker
+   */
+  private timeoutRequest(request: QueuedRequest, kind: TimeoutKind, limitMs: number): void {
+    if (request.settled) return;
+    request.settled = true;
+    this.timeoutCounts[kind]++;
+
+    logger.warn('Request timed out', {
+      requestId: request.id,
+      workerId: request.worker?.id,
+      kind,
+      limitMs,
+    });
+
+    const error = kind === 'firstToken'
+      ? new ClaudeRequestError(
+          'overloaded_error',
+          `Claude did not start responding within ${limitMs}ms`,
+          529,
+          'first_token_timeout'
+        )
+      : new ClaudeRequestError(
+          'api_error',
+          kind === 'idle'
+            ? `Claude stopped responding for ${limitMs}ms`
+            : `Request exceeded the ${limitMs}ms time limit`,
+          504,
+          kind === 'idle' ? 'idle_timeout' : 'request_timeout'
+        );
+
+    this.traceSettled(request, error.message);
+    this.abortRunning(request, 'timeout');
+    request.onError(error);
+  }
+
+  /**
+   * Execute a request on a worker
+   */
+  private executeRequest(worker: ClaudeWorker, request: QueuedRequest): void {
+    const { id: requestId, prompt, onEvent, onError, onDone, options } = request;
+    const timeouts: RequestTimeouts = {
+      firstTokenMs: this.timeoutConfig.firstTokenMs,
+      idleMs: this.timeoutConfig.idleMs,
+      totalMs: this.timeoutConfig.totalMs,
+      ...options.timeouts,
+    };
+
+    try {
+      this.requestCount++;
+      this.lastActivity = Date.now();
+      request.worker = worker;
+      worker.affinityKey = options.affinityKey;
+      proxyMetrics.queueWait.observe((Date.now() - request.queuedAt) / 1000);
+      this.traceDispatch(request, worker);
+
+      logger.debug('Dispatching request', {
         requestId,
-        promptLen: prompt.length,
+        workerId: worker.id,
+        model: request.spec.model,
+        queueWait: Date.now() - request.queuedAt,
         requestCount: this.requestCount,
       });
 
-      this.process!.stdin!.write(JSON.stringify(inputMessage) + '\n');
-      logger.debug('Message sent', { requestId, elapsed: Date.now() - startTime });
+      this.startTimers(request, timeouts);
+      worker.run(prompt, {
+        onEvent: (msg) => {
+          this.lastActivity = Date.now();
+          this.trackActivity(request, msg, timeouts);
+          this.traceEvent(request, msg);
+          if (request.conversation && msg.type === 'assistant') {
+            for (const block of msg.message?.content || []) {
+              if (block.type === 'text' && block.text) request.conversation.reply += block.text;
+            }
+          }
+          onEvent(msg);
+        },
+        onError: (err) => {
+          this.clearTimers(request);
+          request.settled = true;
+          this.traceSettled(request, err.message);
+          onError(err);
+        },
+        onDone: (code) => {
+          this.clearTimers(request);
+          request.settled = true;
+          this.traceSettled(request);
+          this.cacheSession(worker, request);
+          onDone(code);
+        },
+      });
     } catch (err) {
       logger.error('Execute request error', { requestId, error: (err as Error).message });
+      this.clearTimers(request);
+      request.settled = true;
+      this.traceSettled(request, (err as Error).message);
       onError(err as Error);
     }
   }
 
   /**
-   * Process next request in queue
+   * End the queue span of a dispatched request and start the spans of its
+   * turn. A worker launched for the request counts as spawning until the CLI
+   * first writes.
+   */
+  private traceDispatch(request: QueuedRequest, worker: ClaudeWorker): void {
+    const { spans } = request;
+    const parent = request.options.span;
+    if (!spans || !parent) return;
+
+    const attributes = {
+      'claude.worker_id': worker.id,
+      'gen_ai.request.model': request.spec.model || 'default',
+    };
+    spans.queue.setAttributes({ 'claude.worker_id': worker.id }).end();
+    if (request.spawnedWorker) {
+      spans.spawn = parent.child('claude.spawn', attributes);
+    }
+    spans.firstToken = parent.child('claude.first_token', attributes);
+    spans.completion = parent.child('claude.completion', {
+      ...attributes,
+      'claude.session_resumed': request.spec.resumeSession ?? false,
+    });
+  }
+
+  /**
+   * Record a CLI message on the spans of its turn
+   */
+  private traceEvent(request: QueuedRequest, msg: ClaudeStreamMessage): void {
+    const { spans } = request;
+    if (!spans) return;
+
+    spans.spawn?.end();
+    if (msg.type === 'result') {
+      spans.completion?.setAttributes(usageAttributes(msg.usage));
+      if (msg.is_error) spans.completion?.setError(msg.result || 'Turn failed');
+    }
+  }
+
+  /**
+   * End the open spans of a request, marking them failed when it did not complete
+   */
+  private traceSettled(request: QueuedRequest, error?: string): void {
+    const { spans } = request;
+    if (!spans) return;
+
+    for (const span of [spans.queue, spans.spawn, spans.firstToken, spans.completion]) {
+      if (!span || span.ended) continue;
+      if (error) span.setError(error);
+      span.end();
+    }
+  }
+
+  /**
+   * Park a worker that advanced a conversation so the next turn can continue it
+   */
+  private cacheSession(worker: ClaudeWorker, request: QueuedRequest): void {
+    const { conversation } = request;
+    if (!conversation || !worker.sessionId) return;
+
+    this.sessions.put({
+      key: conversationKey(conversation.scope, conversation.turns),
+      reply: conversation.reply,
+      sessionId: worker.sessionId,
+      worker,
+      lastUsed: Date.now(),
+    });
+  }
+
+  /**
+   * Dispatch queued requests to any free workers, oldest first
    */
   private processQueue(): void {
-    if (this.requestQueue.length > 0 && !this.pendingRequest) {
-      const nextRequest = this.requestQueue.shift()!;
+    let index = 0;
+    while (index < this.requestQueue.length) {
+      const next = this.requestQueue[index]!;
+      const worker = this.acquireWorker(next);
+      if (!worker) {
+        index++;
+        continue;
+      }
+
+      this.requestQueue.splice(index, 1);
       logger.debug('Processing queued request', { queueLength: this.requestQueue.length });
-      this.executeRequest(nextRequest);
+      this.executeRequest(worker, next);
+    }
+  }
+
+  /**
+   * Periodically stop surplus workers that have been idle too long
+   */
+  private startReaper(): void {
+    if (this.reaper || this.poolConfig.idleTimeoutMs <= 0) return;
+
+    const interval = Math.min(this.poolConfig.idleTimeoutMs, 30_000);
+    this.reaper = setInterval(() => this.reapIdleWorkers(), interval);
+    this.reaper.unref();
+  }
+
+  /**
+   * Periodically restart busy workers whose process has gone silent
+   */
+  private startWatchdog(): void {
+    if (this.watchdog || this.timeoutConfig.watchdogStallMs <= 0) return;
+
+    const interval = Math.max(1000, Math.min(this.timeoutConfig.watchdogStallMs / 2, 30_000));
+    this.watchdog = setInterval(() => this.checkStalledWorkers(), interval);
+    this.watchdog.unref();
+  }
+
+  /**
+   * Restart busy workers that produced no output for the stall threshold
+   */
+  checkStalledWorkers(now: number = Date.now()): number {
+    const stallMs = this.timeoutConfig.watchdogStallMs;
+    if (stallMs <= 0) return 0;
+
+    const stalled = this.workers.filter(
+      w => w.state === 'busy' && now - w.lastActivity >= stallMs
+    );
+
+    for (const worker of stalled) {
+      this.watchdogRestarts++;
+      proxyMetrics.cliRestarts.inc({ reason: 'watchdog' });
+      logger.warn('Watchdog restarting stalled worker', {
+        workerId: worker.id,
+        pid: worker.pid,
+        silentMs: now - worker.lastActivity,
+      });
+
+      this.workers.splice(this.workers.indexOf(worker), 1);
+      worker.stop(new ClaudeRequestError(
+        'api_error',
+        'Claude process stopped producing output and was restarted',
+        502,
+        'process_stalled'
+      ));
+
+      if (this.workers.length < this.poolConfig.minWorkers && !worker.spec.sessionId) {
+        this.spawnWorker(worker.spec);
+      }
+    }
+
+    if (stalled.length > 0) {
+      this.processQueue();
+    }
+    return stalled.length;
+  }
+
+  /**
+   * Stop idle workers beyond the pool minimum, oldest activity first
+   */
+  reapIdleWorkers(now: number = Date.now()): number {
+    const expired = this.workers
+      .filter(w => w.state === 'idle' && now - w.lastActivity >= this.poolConfig.idleTimeoutMs)
+      .sort((a, b) => a.lastActivity - b.lastActivity);
+
+    let reaped = 0;
+    for (const worker of expired) {
+      if (this.workers.length <= this.poolConfig.minWorkers) break;
+      logger.info('Reaping idle worker', {
+        workerId: worker.id,
+        idleMs: now - worker.lastActivity,
+      });
+      worker.stop();
+      reaped++;
     }
+    return reaped;
   }
 
   /**
    * Get process status
    */
-  getStatus(): {
-    alive: boolean;
-    requestCount: number;
-    queueLength: number;
-    lastActivity: number;
-    pid: number | undefined;
-  } {
+  getStatus(): ProcessManagerStatus {
+    const workers = this.workers.map(w => w.getStatus());
+
     return {
-      alive: this.process !== null && !this.process.killed,
+      alive: workers.some(w => w.state !== 'stopped'),
       requestCount: this.requestCount,
       queueLength: this.requestQueue.length,
       lastActivity: this.lastActivity,
-      pid: this.process?.pid,
+      pid: workers[0]?.pid,
+      cancelledCount: this.cancelledCount,
+      timeouts: { ...this.timeoutCounts },
+      watchdogRestarts: this.watchdogRestarts,
+      pool: { ...this.poolConfig },
+      sessions: this.sessions.getStats(),
+      workers,
     };
   }
 
   /**
-   * Shutdown the process
+   * Shutdown all workers
    */
   shutdown(): void {
-    if (this.process) {
-      logger.info('Shutting down Claude process', { requestCount: this.requestCount });
-      this.process.kill();
-      this.process = null;
+    this.unsubscribeCredentials();
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = null;
+    }
+
+    logger.info('Shutting down Claude workers', {
+      workers: this.workers.length,
+      requestCount: this.requestCount,
+    });
+
+    // Stored sessions are only reachable through this cache
+    this.sessions.clear();
+
+    // Fail queued requests first so stopping workers does not dispatch them
+    const queued = this.requestQueue.splice(0);
+    for (const request of queued) {
+      request.settled = true;
+      this.discardSession(request);
+      this.traceSettled(request, 'Server shutting down');
+      request.onError(new Error('Server shutting down'));
     }
 
-    if (this.rl) {
-      this.rl.close();
-      this.rl = null;
+    for (const worker of [...this.workers]) {
+      worker.stop();
     }
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * Claude CLI session files
+ * Seeds prior conversation turns as a session transcript the CLI can resume,
+ * so history reaches the model as real user/assistant messages
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { ClaudeConversationTurn } from './types.js';
+import { logger } from './logger.js';
+
+/**
+ * Directory the CLI reads sessions for a working directory from
+ */
+export function getSessionDir(cwd: string = process.cwd()): string {
+  const configDir = process.env.CLAUDE_CONFIG_DIR || join(homedir(), '.claude');
+  return join(configDir, 'projects', cwd.replace(/[^a-zA-Z0-9]/g, '-'));
+}
+
+/**
+ * Path of a session transcript file
+ */
+export function getSessionPath(sessionId: string, cwd?: string): string {
+  return join(getSessionDir(cwd), `${sessionId}.jsonl`);
+}
+
+/**
+ * Write history as a new session transcript and return its session ID
+ */
+export function seedSession(
+  history: ClaudeConversationTurn[],
+  options: { model?: string; cwd?: string } = {}
+): string {
+  const sessionId = randomUUID();
+  const cwd = options.cwd ?? process.cwd();
+  let parentUuid: string | null = null;
+
+  const lines = history.map(turn => {
+    const uuid = randomUUID();
+    const message = turn.role === 'user'
+      ? { role: 'user', content: turn.content }
+      : {
+          id: `msg_${uuid.replace(/-/g, '')}`,
+          type: 'message',
+          role: 'assistant',
+          model: options.model,
+          content: typeof turn.content === 'string'
+            ? [{ type: 'text', text: turn.content }]
+            : turn.content,
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        };
+
+    const entry = {
+      parentUuid,
+      isSidechain: false,
+      userType: 'external',
+      cwd,
+      sessionId,
+      type: turn.role,
+      message,
+      uuid,
+      timestamp: new Date().toISOString(),
+    };
+    parentUuid = uuid;
+    return JSON.stringify(entry);
+  });
+
+  mkdirSync(getSessionDir(cwd), { recursive: true });
+  writeFileSync(getSessionPath(sessionId, cwd), lines.join('\n') + '\n');
+
+  logger.debug('Seeded CLI session', { sessionId, turns: history.length });
+  return sessionId;
+}
+
+/**
+ * Delete a seeded session transcript
+ */
+export function removeSession(sessionId: string, cwd?: string): void {
+  try {
+    rmSync(getSessionPath(sessionId, cwd), { force: true });
+  } catch (err) {
+    logger.warn('Failed to remove CLI session', { sessionId, error: (err as Error).message });
+  }
+}
+
+export const claudeSession = {
+  getSessionDir,
+  getSessionPath,
+  seedSession,
+  removeSession,
+};
+
+export default claudeSession;
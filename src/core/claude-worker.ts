@@ -0,0 +1,357 @@
+/**
+ * Claude CLI Worker
+ * Wraps a single persistent Claude CLI process that serves one request at a time
+ */
+
+import { spawn, ChildProcess } from 'node:child_process';
+import * as readline from 'node:readline';
+import { createHash } from 'node:crypto';
+import type {
+  ClaudeStreamMessage,
+  ClaudeInputMessage,
+  ClaudeInputContent,
+  SystemPromptPolicy,
+} from './types.js';
+import { logger } from './logger.js';
+import { proxyMetrics } from './metrics.js';
+
+export interface RequestHandler {
+  onEvent: (message: ClaudeStreamMessage) => void;
+  onError: (error: Error) => void;
+  onDone: (code: number) => void;
+}
+
+export type WorkerState = 'idle' | 'busy' | 'stopped';
+
+/**
+ * Launch settings of a worker. Requests are only dispatched to workers
+ * whose spec matches the one they ask for.
+ */
+export interface WorkerSpec {
+  model?: string;
+  systemPrompt?: string;
+  systemPromptPolicy?: Exclude<SystemPromptPolicy, 'keep'>;
+  sessionId?: string;         // CLI session owned by the worker; dedicates it to one conversation
+  resumeSession?: boolean;    // Load sessionId from disk instead of starting it fresh
+  thinkingTokens?: number;    // Extended thinking budget (MAX_THINKING_TOKENS); 0 disables thinking
+  oauthToken?: string;        // Request-scoped credentials; the process-wide token when unset
+}
+
+/**
+ * Short fingerprint of a secret, safe to use in keys and logs
+ */
+export function fingerprint(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
+
+/**
+ * Stable identity of a worker spec, used to match requests to workers
+ */
+export function workerSpecKey(spec: WorkerSpec): string {
+  const parts = [spec.model || 'default'];
+  if (spec.systemPrompt) {
+    parts.push(`${spec.systemPromptPolicy || 'append'}:${fingerprint(spec.systemPrompt)}`);
+  }
+  if (spec.oauthToken) {
+    parts.push(`creds:${fingerprint(spec.oauthToken)}`);
+  }
+  if (spec.thinkingTokens !== undefined) {
+    parts.push(`thinking:${spec.thinkingTokens}`);
+  }
+  if (spec.sessionId) {
+    parts.push(`session:${spec.sessionId}`);
+  }
+  return parts.join('|');
+}
+
+export interface WorkerStatus {
+  id: number;
+  state: WorkerState;
+  model?: string;
+  pid: number | undefined;
+  requestCount: number;
+  lastActivity: number;
+  startedAt: number;
+  affinityKey?: string;
+  sessionId?: string;
+}
+
+/**
+ * Callbacks the owning pool uses to track worker lifecycle
+ */
+export interface WorkerCallbacks {
+  onRequestComplete: (worker: ClaudeWorker) => void;
+  onExit: (worker: ClaudeWorker) => void;
+}
+
+export class ClaudeWorker {
+  readonly id: number;
+  readonly spec: WorkerSpec;
+  readonly specKey: string;
+  private process: ChildProcess | null = null;
+  private rl: readline.Interface | null = null;
+  private pendingRequest: RequestHandler | null = null;
+  private callbacks: WorkerCallbacks;
+  private _state: WorkerState = 'idle';
+  private _requestCount = 0;
+  private _lastActivity = Date.now();
+  private startedAt = Date.now();
+  private _sessionId: string | undefined;
+
+  /** Key of the last request served, used to route related requests back here */
+  affinityKey: string | undefined;
+
+  constructor(id: number, spec: WorkerSpec, callbacks: WorkerCallbacks) {
+    this.id = id;
+    this.spec = spec;
+    this.specKey = workerSpecKey(spec);
+    this.callbacks = callbacks;
+  }
+
+  get state(): WorkerState {
+    return this._state;
+  }
+
+  get requestCount(): number {
+    return this._requestCount;
+  }
+
+  get lastActivity(): number {
+    return this._lastActivity;
+  }
+
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /** CLI session the process reports, falling back to the one it was launched with */
+  get sessionId(): string | undefined {
+    return this._sessionId ?? this.spec.sessionId;
+  }
+
+  /**
+   * Spawn the Claude CLI process
+   */
+  start(): void {
+    logger.info('Starting Claude worker', { workerId: this.id, model: this.spec.model });
+    this.startedAt = Date.now();
+    proxyMetrics.cliStarts.inc();
+
+    const args = [
+      '--input-format', 'stream-json',
+      '--output-format', 'stream-json',
+      '--verbose',
+      '--include-partial-messages',
+      '--dangerously-skip-permissions',
+    ];
+
+    // Conversation sessions are persisted so they can be resumed later
+    if (this.spec.sessionId) {
+      args.push(this.spec.resumeSession ? '--resume' : '--session-id', this.spec.sessionId);
+    } else {
+      args.push('--no-session-persistence');
+    }
+
+    if (this.spec.model) {
+      args.push('--model', this.spec.model);
+    }
+
+    if (this.spec.systemPrompt) {
+      const flag = this.spec.systemPromptPolicy === 'replace' ? '--system-prompt' : '--append-system-prompt';
+      args.push(flag, this.spec.systemPrompt);
+    }
+
+    this.process = spawn('claude', args, {
+      env: {
+        ...process.env,
+        CI: 'true',
+        TERM: 'dumb',
+        CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC: 'true',
+        ...(this.spec.thinkingTokens !== undefined
+          ? { MAX_THINKING_TOKENS: String(this.spec.thinkingTokens) }
+          : {}),
+        ...(this.spec.oauthToken ? { CLAUDE_CODE_OAUTH_TOKEN: this.spec.oauthToken } : {}),
+      },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    logger.info('Claude worker spawned', {
+      workerId: this.id,
+      pid: this.process.pid,
+      elapsed: Date.now() - this.startedAt,
+    });
+
+    this.rl = readline.createInterface({ input: this.process.stdout! });
+
+    // Handle output lines
+    this.rl.on('line', (line: string) => {
+      if (!line.trim()) return;
+
+      try {
+        const msg = JSON.parse(line) as ClaudeStreamMessage;
+        this.handleMessage(msg);
+      } catch (err) {
+        proxyMetrics.parseErrors.inc();
+        logger.error('Parse error', { workerId: this.id, line: line.slice(0, 100) });
+      }
+    });
+
+    // Handle stderr
+    this.process.stderr?.on('data', (data: Buffer) => {
+      logger.warn('stderr', { workerId: this.id, data: data.toString().slice(0, 200) });
+    });
+
+    // Handle process close
+    this.process.on('close', (code: number | null) => {
+      logger.info('Claude worker closed', {
+        workerId: this.id,
+        code,
+        requestCount: this._requestCount,
+      });
+      if (this._state !== 'stopped') proxyMetrics.cliRestarts.inc({ reason: 'exited' });
+      this.failPending(new Error(`Process exited with code ${code}`));
+      this.markStopped();
+    });
+
+    // Handle process error
+    this.process.on('error', (err: Error) => {
+      logger.error('Process error', { workerId: this.id, error: err.message });
+      if (this._state !== 'stopped') proxyMetrics.cliRestarts.inc({ reason: 'exited' });
+      this.failPending(err);
+      this.markStopped();
+    });
+  }
+
+  /**
+   * Handle message from Claude process
+   */
+  private handleMessage(msg: ClaudeStreamMessage): void {
+    this._lastActivity = Date.now();
+    if (msg.session_id && this.spec.sessionId) {
+      this._sessionId = msg.session_id;
+    }
+
+    if (msg.type === 'system') {
+      logger.debug('System message received', {
+        workerId: this.id,
+        subtype: msg.subtype || 'init',
+      });
+    }
+
+    if (this.pendingRequest) {
+      this.pendingRequest.onEvent(msg);
+
+      // Check if this completes the request
+      if (msg.type === 'result') {
+        logger.debug('Result received, request complete', {
+          workerId: this.id,
+          requestCount: this._requestCount,
+        });
+        const req = this.pendingRequest;
+        this.pendingRequest = null;
+        this._state = 'idle';
+        req.onDone(0);
+
+        this.callbacks.onRequestComplete(this);
+      }
+    }
+  }
+
+  /**
+   * Send a prompt to this worker. The worker must be idle.
+   */
+  run(prompt: ClaudeInputContent, handler: RequestHandler): void {
+    if (!this.process || this._state !== 'idle') {
+      throw new Error(`Worker ${this.id} is not available`);
+    }
+
+    this.pendingRequest = handler;
+    this._state = 'busy';
+    this._requestCount++;
+    this._lastActivity = Date.now();
+
+    const inputMessage: ClaudeInputMessage = {
+      type: 'user',
+      message: { role: 'user', content: prompt },
+    };
+
+    logger.debug('Sending message', {
+      workerId: this.id,
+      promptLen: typeof prompt === 'string' ? prompt.length : undefined,
+      contentBlocks: typeof prompt === 'string' ? undefined : prompt.length,
+      requestCount: this._requestCount,
+    });
+
+    this.process.stdin!.write(JSON.stringify(inputMessage) + '\n');
+  }
+
+  /**
+   * Report the pending request as failed, if any
+   */
+  private failPending(err: Error): void {
+    if (this.pendingRequest) {
+      const req = this.pendingRequest;
+      this.pendingRequest = null;
+      req.onError(err);
+    }
+  }
+
+  /**
+   * Transition to stopped exactly once and notify the pool
+   */
+  private markStopped(): void {
+    if (this._state === 'stopped') return;
+
+    this._state = 'stopped';
+    this.process = null;
+    if (this.rl) {
+      this.rl.close();
+      this.rl = null;
+    }
+    this.callbacks.onExit(this);
+  }
+
+  /**
+   * Abandon the in-flight turn without notifying its handler. The turn is
+   * interrupted by killing the process; the pool spawns a replacement.
+   */
+  cancel(): void {
+    logger.info('Cancelling in-flight request', { workerId: this.id });
+    this.pendingRequest = null;
+    this.stop();
+  }
+
+  /**
+   * Kill the process, failing the in-flight request with the given error
+   */
+  stop(reason: Error = new Error('Worker stopped')): void {
+    if (this.process) {
+      logger.info('Stopping Claude worker', {
+        workerId: this.id,
+        requestCount: this._requestCount,
+      });
+      this.process.kill();
+    }
+    this.failPending(reason);
+    this.markStopped();
+  }
+
+  /**
+   * Get worker status
+   */
+  getStatus(): WorkerStatus {
+    return {
+      id: this.id,
+      state: this._state,
+      model: this.spec.model,
+      pid: this.process?.pid,
+      requestCount: this._requestCount,
+      lastActivity: this._lastActivity,
+      startedAt: this.startedAt,
+      affinityKey: this.affinityKey,
+      sessionId: this.sessionId,
+    };
+  }
+}
+
+export default ClaudeWorker;
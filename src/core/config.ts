@@ -2,16 +2,58 @@
  * Configuration management
  */
 
-import type { OAuthCredentials, ServerConfig } from './types.js';
+import type {
+  OAuthCredentials,
+  ServerConfig,
+  PoolConfig,
+  TimeoutConfig,
+  ImageConfig,
+  ConversationMode,
+  SystemPromptPolicy,
+  ParameterStrictness,
+  SessionConfig,
+  RateLimitConfig,
+  CredentialRefreshConfig,
+  CredentialSource,
+  AccountPoolConfig,
+  TracingConfig,
+} from './types.js';
+import { createHash } from 'node:crypto';
+import { readFileSync, watch, type FSWatcher } from 'node:fs';
+import { homedir } from 'node:os';
+import { basename, dirname, join } from 'node:path';
 import { logger } from './logger.js';
 
+const CREDENTIALS_RELOAD_DELAY_MS = 100;
+const SUPERSEDED_TOKENS_LIMIT = 32;
+
 let oauthCredentials: OAuthCredentials | null = null;
+let credentialSource: CredentialSource = 'none';
+let credentialsWatcher: FSWatcher | null = null;
+const credentialListeners = new Set<(creds: OAuthCredentials) => void>();
+// Digests of tokens the process-wide credentials held before being replaced
+const supersededTokens = new Set<string>();
 let serverConfig: ServerConfig = {
   port: parseInt(process.env.PORT || '8080', 10),
   host: '0.0.0.0',
   logLevel: 'INFO',
 };
 
+/**
+ * Parse a non-negative integer from an environment variable
+ */
+function parseIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value) || value < 0) {
+    logger.warn('Ignoring invalid numeric setting', { name, value: raw });
+    return fallback;
+  }
+  return value;
+}
+
 /**
  * Parse OAuth credentials from environment or header
  */
@@ -53,16 +95,50 @@ export function parseOAuthCredentials(source?: string): OAuthCredentials | null
   }
 }
 
+/**
+ * Get the path of the CLI credentials file
+ */
+export function getCredentialsFilePath(): string {
+  return process.env.CLAUDE_CREDENTIALS_FILE || join(homedir(), '.claude', '.credentials.json');
+}
+
+/**
+ * Read OAuth credentials from a CLI credentials file. Returns null when the
+ * file is missing or holds no access token.
+ */
+export function readCredentialsFile(path: string = getCredentialsFilePath()): OAuthCredentials | null {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.warn('Cannot read credentials file', { path, error: (err as Error).message });
+    }
+    return null;
+  }
+
+  if (!content.trim()) return null;
+  const creds = parseOAuthCredentials(content);
+  return creds?.accessToken ? creds : null;
+}
+
 /**
  * Initialize configuration from environment
  */
 export function initConfig(): void {
-  // Parse OAuth credentials
+  // Parse OAuth credentials, falling back to the CLI credentials file
   oauthCredentials = parseOAuthCredentials();
+  credentialSource = !oauthCredentials ? 'none'
+    : process.env.CLAUDE_OAUTH_CREDS ? 'CLAUDE_OAUTH_CREDS' : 'CLAUDE_CODE_OAUTH_TOKEN';
+
+  if (!oauthCredentials) {
+    oauthCredentials = readCredentialsFile();
+    if (oauthCredentials) credentialSource = 'file';
+  }
 
   if (oauthCredentials) {
     process.env.CLAUDE_CODE_OAUTH_TOKEN = oauthCredentials.accessToken;
-    logger.info('OAuth configured', { subscription: oauthCredentials.subscriptionType });
+    logger.info('OAuth configured', { subscription: oauthCredentials.subscriptionType, source: credentialSource });
   } else {
     logger.warn('No OAuth credentials found');
   }
@@ -83,25 +159,159 @@ export function getCredentials(): OAuthCredentials | null {
 }
 
 /**
- * Set OAuth credentials (e.g., from request header)
+ * Replace the process-wide OAuth credentials. Listeners are told when the
+ * access token changes, so CLI processes launched with the old one can be
+ * restarted.
  */
 export function setCredentials(creds: OAuthCredentials): void {
+  const previous = process.env.CLAUDE_CODE_OAUTH_TOKEN;
+  for (const token of [previous, oauthCredentials?.accessToken, oauthCredentials?.refreshToken]) {
+    if (token && token !== creds.accessToken && token !== creds.refreshToken) rememberSuperseded(token);
+  }
   oauthCredentials = creds;
   process.env.CLAUDE_CODE_OAUTH_TOKEN = creds.accessToken;
+
+  if (creds.accessToken !== previous) {
+    for (const listener of credentialListeners) listener(creds);
+  }
+}
+
+function tokenDigest(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function rememberSuperseded(token: string): void {
+  const digest = tokenDigest(token);
+  supersededTokens.delete(digest);
+  supersededTokens.add(digest);
+  if (supersededTokens.size > SUPERSEDED_TOKENS_LIMIT) {
+    supersededTokens.delete(supersededTokens.values().next().value!);
+  }
+}
+
+/**
+ * Check whether credentials belong to the process-wide identity: its current
+ * tokens, or ones a refresh or reload has since replaced. An upstream that
+ * keeps sending the credentials it was deployed with then shares the
+ * refreshed token instead of reviving the old one.
+ */
+export function isProcessCredentials(creds: OAuthCredentials): boolean {
+  if (creds.accessToken === process.env.CLAUDE_CODE_OAUTH_TOKEN) return true;
+  if (creds.refreshToken && creds.refreshToken === oauthCredentials?.refreshToken) return true;
+  return [creds.accessToken, creds.refreshToken].some(token => token && supersededTokens.has(tokenDigest(token)));
 }
 
 /**
- * Update credentials from request header
+ * Get where the process-wide credentials came from
  */
-export function updateCredentialsFromHeader(headerValue: string | undefined): boolean {
-  if (!headerValue) return false;
+export function getCredentialSource(): CredentialSource {
+  return credentialSource;
+}
 
-  const creds = parseOAuthCredentials(headerValue);
-  if (creds) {
-    setCredentials(creds);
-    return true;
+/**
+ * Load the credentials file again, replacing the process-wide credentials
+ * when it holds different ones. Returns whether they changed.
+ */
+export function reloadCredentialsFile(path: string = getCredentialsFilePath()): boolean {
+  const creds = readCredentialsFile(path);
+  if (!creds) return false;
+  if (creds.accessToken === oauthCredentials?.accessToken && creds.expiresAt === oauthCredentials?.expiresAt) {
+    return false;
   }
-  return false;
+
+  credentialSource = 'file';
+  setCredentials(creds);
+  logger.info('Credentials reloaded from file', { path, subscription: creds.subscriptionType });
+  return true;
+}
+
+/**
+ * Watch the credentials file and hot-swap the credentials when it changes,
+ * e.g. after `claude login`. Credentials from the environment take
+ * precedence, so the file is only watched when it is their source or there
+ * are none.
+ */
+export function watchCredentialsFile(): void {
+  unwatchCredentialsFile();
+  if (credentialSource !== 'file' && credentialSource !== 'none') return;
+
+  // Watch the directory: the CLI replaces the file rather than writing to it
+  const path = getCredentialsFilePath();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    credentialsWatcher = watch(dirname(path), (event, filename) => {
+      if (filename && filename !== basename(path)) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => reloadCredentialsFile(path), CREDENTIALS_RELOAD_DELAY_MS);
+      timer.unref();
+    });
+  } catch (err) {
+    logger.debug('Not watching credentials file', { path, error: (err as Error).message });
+    return;
+  }
+
+  credentialsWatcher.on('error', (err: Error) => {
+    logger.warn('Stopped watching credentials file', { path, error: err.message });
+    unwatchCredentialsFile();
+  });
+  credentialsWatcher.unref();
+  logger.debug('Watching credentials file', { path });
+}
+
+/**
+ * Stop watching the credentials file
+ */
+export function unwatchCredentialsFile(): void {
+  credentialsWatcher?.close();
+  credentialsWatcher = null;
+}
+
+/**
+ * Subscribe to changes of the process-wide access token. Returns a function
+ * that unsubscribes.
+ */
+export function onCredentialsChange(listener: (creds: OAuthCredentials) => void): () => void {
+  credentialListeners.add(listener);
+  return () => credentialListeners.delete(listener);
+}
+
+/**
+ * Get the secret a trusted upstream (the Cloudflare worker) sends with
+ * per-request credentials; header credentials are ignored without it
+ */
+export function getUpstreamSecret(): string | undefined {
+  return process.env.PROXY_UPSTREAM_SECRET || undefined;
+}
+
+/**
+ * Get how the access token is refreshed before it expires
+ */
+export function getCredentialRefreshConfig(): CredentialRefreshConfig {
+  return {
+    enabled: process.env.CLAUDE_OAUTH_REFRESH !== 'false',
+    tokenUrl: process.env.CLAUDE_OAUTH_TOKEN_URL || 'https://console.anthropic.com/v1/oauth/token',
+    clientId: process.env.CLAUDE_OAUTH_CLIENT_ID || '9d1c250a-e61b-44d9-88ed-5944d1962f5e',
+    marginMs: parseIntEnv('CLAUDE_OAUTH_REFRESH_MARGIN_MS', 5 * 60 * 1000),
+    credentialsFile: process.env.CLAUDE_CREDENTIALS_FILE
+      || (credentialSource === 'file' ? getCredentialsFilePath() : undefined),
+  };
+}
+
+/**
+ * Get the account pool file and how requests are spread over its accounts
+ */
+export function getAccountPoolConfig(): AccountPoolConfig {
+  const strategy = process.env.CLAUDE_ACCOUNT_STRATEGY;
+  const valid = strategy === 'round-robin' || strategy === 'least-loaded' || strategy === 'sticky';
+  if (strategy && !valid) {
+    logger.warn('Ignoring invalid account strategy', { value: strategy });
+  }
+
+  return {
+    file: process.env.CLAUDE_ACCOUNTS_FILE || undefined,
+    strategy: valid ? strategy : 'round-robin',
+    cooldownMs: parseIntEnv('CLAUDE_ACCOUNT_COOLDOWN_MS', 5 * 60 * 1000),
+  };
 }
 
 /**
@@ -111,6 +321,171 @@ export function getServerConfig(): ServerConfig {
   return serverConfig;
 }
 
+/**
+ * Get worker pool configuration
+ */
+export function getPoolConfig(): PoolConfig {
+  const maxWorkers = Math.max(1, parseIntEnv('CLAUDE_POOL_MAX', 4));
+  const minWorkers = Math.min(parseIntEnv('CLAUDE_POOL_MIN', 1), maxWorkers);
+
+  return {
+    minWorkers,
+    maxWorkers,
+    idleTimeoutMs: parseIntEnv('CLAUDE_POOL_IDLE_TIMEOUT_MS', 5 * 60 * 1000),
+  };
+}
+
+/**
+ * Get request timeout and watchdog configuration
+ */
+export function getTimeoutConfig(): TimeoutConfig {
+  return {
+    firstTokenMs: parseIntEnv('CLAUDE_FIRST_TOKEN_TIMEOUT_MS', 2 * 60 * 1000),
+    idleMs: parseIntEnv('CLAUDE_IDLE_EVENT_TIMEOUT_MS', 2 * 60 * 1000),
+    totalMs: parseIntEnv('CLAUDE_REQUEST_TIMEOUT_MS', 15 * 60 * 1000),
+    watchdogStallMs: parseIntEnv('CLAUDE_WATCHDOG_STALL_MS', 5 * 60 * 1000),
+  };
+}
+
+/**
+ * Get image input limits from environment
+ */
+export function getImageConfig(): ImageConfig {
+  return {
+    maxBytes: parseIntEnv('CLAUDE_IMAGE_MAX_BYTES', 5 * 1024 * 1024),
+    allowRemoteFetch: process.env.CLAUDE_IMAGE_FETCH_REMOTE === 'true',
+    allowPrivateHosts: process.env.CLAUDE_IMAGE_FETCH_PRIVATE === 'true',
+    fetchTimeoutMs: parseIntEnv('CLAUDE_IMAGE_FETCH_TIMEOUT_MS', 10 * 1000),
+  };
+}
+
+/**
+ * Get how conversation history is delivered to the CLI
+ */
+export function getConversationMode(): ConversationMode {
+  const mode = process.env.CLAUDE_CONVERSATION_MODE;
+  if (!mode) return 'transcript';
+  if (mode === 'transcript' || mode === 'replay') return mode;
+
+  logger.warn('Ignoring invalid conversation mode', { value: mode });
+  return 'transcript';
+}
+
+/**
+ * Get how client system prompts are combined with the CLI's own
+ */
+export function getSystemPromptPolicy(): SystemPromptPolicy {
+  const policy = process.env.CLAUDE_SYSTEM_PROMPT_POLICY;
+  if (!policy) return 'append';
+  if (policy === 'keep' || policy === 'replace' || policy === 'append') return policy;
+
+  logger.warn('Ignoring invalid system prompt policy', { value: policy });
+  return 'append';
+}
+
+/**
+ * Get how requests using unsupported parameters are treated
+ */
+export function getParameterStrictness(): ParameterStrictness {
+  const strictness = process.env.CLAUDE_PARAMETER_STRICTNESS;
+  if (!strictness) return 'lenient';
+  if (strictness === 'lenient' || strictness === 'warn' || strictness === 'strict') return strictness;
+
+  logger.warn('Ignoring invalid parameter strictness', { value: strictness });
+  return 'lenient';
+}
+
+/**
+ * Check whether a reply that fails response_format validation is retried once
+ */
+export function getJsonRetry(): boolean {
+  return process.env.CLAUDE_JSON_RETRY !== 'false';
+}
+
+/**
+ * Get conversation session reuse configuration
+ */
+export function getSessionConfig(): SessionConfig {
+  return {
+    reuse: process.env.CLAUDE_SESSION_REUSE !== 'false',
+    maxSessions: parseIntEnv('CLAUDE_SESSION_MAX', 100),
+    ttlMs: parseIntEnv('CLAUDE_SESSION_TTL_MS', 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Get the default per-key rate limits and where their state is kept
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  return {
+    defaults: {
+      requestsPerMinute: parseIntEnv('PROXY_RATE_LIMIT_RPM', 0),
+      concurrency: parseIntEnv('PROXY_RATE_LIMIT_CONCURRENCY', 0),
+      inputTokensPerDay: parseIntEnv('PROXY_RATE_LIMIT_INPUT_TOKENS_PER_DAY', 0),
+      outputTokensPerDay: parseIntEnv('PROXY_RATE_LIMIT_OUTPUT_TOKENS_PER_DAY', 0),
+    },
+    stateFile: process.env.PROXY_RATE_LIMIT_STATE_FILE || undefined,
+  };
+}
+
+/**
+ * Get the largest `n` (choices per request) a chat completion may ask for
+ */
+export function getMaxChoices(): number {
+  return Math.max(1, parseIntEnv('CLAUDE_MAX_CHOICES', 8));
+}
+
+/**
+ * Get the file completed requests are recorded in, undefined when disabled
+ */
+export function getUsageLedgerFile(): string | undefined {
+  if (process.env.PROXY_USAGE_LEDGER === 'false') return undefined;
+  return process.env.PROXY_USAGE_LEDGER_FILE || 'usage.jsonl';
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS: comma-separated key=value pairs with
+ * URL-encoded values
+ */
+function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value || '').split(',')) {
+    const index = pair.indexOf('=');
+    if (index <= 0) continue;
+    try {
+      headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    } catch {
+      logger.warn('Ignoring malformed OTLP header', { name: pair.slice(0, index).trim() });
+    }
+  }
+  return headers;
+}
+
+/**
+ * Get where trace spans are exported, using the standard OpenTelemetry
+ * variables. Tracing is off unless an OTLP endpoint is set.
+ */
+export function getTracingConfig(): TracingConfig {
+  const disabled = process.env.OTEL_SDK_DISABLED === 'true' || process.env.OTEL_TRACES_EXPORTER === 'none';
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+  const endpoint = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+    || (base ? `${base.replace(/\/+$/, '')}/v1/traces` : undefined);
+
+  const protocol = process.env.OTEL_EXPORTER_OTLP_PROTOCOL;
+  if (endpoint && !disabled && protocol && protocol !== 'http/json') {
+    logger.warn('Only the http/json OTLP protocol is supported', { value: protocol });
+  }
+
+  return {
+    endpoint: disabled ? undefined : endpoint,
+    headers: parseOtlpHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS),
+    serviceName: process.env.OTEL_SERVICE_NAME || 'opencode-claude-proxy',
+    exportIntervalMs: Math.max(1, parseIntEnv('OTEL_BSP_SCHEDULE_DELAY', 5000)),
+    maxBatchSize: Math.max(1, parseIntEnv('OTEL_BSP_MAX_EXPORT_BATCH_SIZE', 512)),
+    maxQueueSize: Math.max(1, parseIntEnv('OTEL_BSP_MAX_QUEUE_SIZE', 2048)),
+  };
+}
+
 /**
  * Check if OAuth is configured
  */
@@ -122,9 +497,31 @@ export const config = {
   init: initConfig,
   getCredentials,
   setCredentials,
+  isProcessCredentials,
+  getCredentialSource,
+  getCredentialsFilePath,
+  readCredentialsFile,
+  reloadCredentialsFile,
+  watchCredentialsFile,
+  unwatchCredentialsFile,
   hasValidCredentials,
   getServerConfig,
-  updateCredentialsFromHeader,
+  getPoolConfig,
+  getTimeoutConfig,
+  getImageConfig,
+  getConversationMode,
+  getSystemPromptPolicy,
+  getParameterStrictness,
+  getJsonRetry,
+  getMaxChoices,
+  getSessionConfig,
+  getRateLimitConfig,
+  getUsageLedgerFile,
+  getUpstreamSecret,
+  getCredentialRefreshConfig,
+  getAccountPoolConfig,
+  getTracingConfig,
+  onCredentialsChange,
   parseOAuthCredentials,
 };
 
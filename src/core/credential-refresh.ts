@@ -0,0 +1,357 @@
+/**
+ * OAuth credential refresh
+ * Tracks when the process-wide access token expires and exchanges the stored
+ * refresh token for a new one shortly before. The new credentials replace the
+ * old ones (restarting the CLI processes using them) and can be saved to a
+ * credentials file so a restart picks them up. Pooled accounts with a refresh
+ * token are refreshed the same way.
+ */
+
+import { readFileSync, writeFileSync, renameSync } from 'node:fs';
+import type { OAuthCredentials } from './types.js';
+import { accountPool } from './account-pool.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Longest delay setTimeout accepts; later refreshes are rescheduled on wake-up
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export interface RefreshResult {
+  at: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface CredentialRefreshStatus {
+  enabled: boolean;
+  expiresAt?: string;
+  nextRefreshAt?: string;
+  lastRefresh?: RefreshResult;
+}
+
+interface TokenResponse {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Save credentials in the claudeAiOauth layout the CLI uses, keeping any
+ * other fields already in the file
+ */
+export function saveCredentialsFile(path: string, creds: OAuthCredentials): void {
+  let existing: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(path, 'utf8'));
+    if (isObject(parsed)) existing = parsed;
+  } catch {
+    // Missing or unreadable files are replaced
+  }
+
+  const content = {
+    ...existing,
+    claudeAiOauth: {
+      ...(isObject(existing.claudeAiOauth) ? existing.claudeAiOauth : {}),
+      accessToken: creds.accessToken,
+      refreshToken: creds.refreshToken,
+      expiresAt: creds.expiresAt,
+      subscriptionType: creds.subscriptionType,
+    },
+  };
+
+  // Write then rename so a crash never leaves a half-written file
+  const temp = `${path}.tmp`;
+  writeFileSync(temp, JSON.stringify(content, null, 2), { mode: 0o600 });
+  renameSync(temp, path);
+}
+
+/**
+ * Delay before refreshing credentials that expire at `expiresAt`, backing
+ * off after failed attempts
+ */
+function refreshDelay(expiresAt: number, failures: number, now: number): number {
+  const { marginMs } = config.getCredentialRefreshConfig();
+  const delay = Math.max(0, expiresAt - marginMs - now);
+  if (failures === 0) return delay;
+  return Math.max(delay, Math.min(RETRY_DELAY_MS * 2 ** (failures - 1), MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * Exchange a refresh token for new credentials at the OAuth token endpoint
+ */
+export async function exchangeRefreshToken(current: OAuthCredentials): Promise<OAuthCredentials> {
+  const refreshConfig = config.getCredentialRefreshConfig();
+  const response = await fetch(refreshConfig.tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      grant_type: 'refresh_token',
+      refresh_token: current.refreshToken,
+      client_id: refreshConfig.clientId,
+    }),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Token endpoint returned ${response.status}`);
+  }
+
+  const token = await response.json() as TokenResponse;
+  if (!token.access_token) {
+    throw new Error('Token endpoint returned no access token');
+  }
+
+  return {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token || current.refreshToken,
+    subscriptionType: current.subscriptionType,
+    expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+  };
+}
+
+interface AccountRefreshState {
+  timer?: NodeJS.Timeout;
+  inFlight: Promise<boolean> | null;
+  failures: number;
+}
+
+export class CredentialRefresher {
+  private enabled = false;
+  private timer?: NodeJS.Timeout;
+  private nextRefreshAt?: number;
+  private inFlight: Promise<boolean> | null = null;
+  private lastRefresh?: RefreshResult;
+  private failures = 0;
+  private unsubscribe?: () => void;
+  private accounts = new Map<string, AccountRefreshState>();
+
+  /**
+   * Start refreshing the process-wide credentials ahead of expiry
+   */
+  start(): void {
+    this.stop();
+    this.enabled = config.getCredentialRefreshConfig().enabled;
+    if (!this.enabled) return;
+
+    this.unsubscribe = config.onCredentialsChange(() => {
+      this.failures = 0;
+      this.schedule();
+    });
+    this.schedule();
+    for (const account of accountPool.getAccounts()) {
+      this.scheduleAccount(account.name);
+    }
+  }
+
+  /**
+   * Stop the refresh timers
+   */
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.nextRefreshAt = undefined;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const state of this.accounts.values()) {
+      if (state.timer) clearTimeout(state.timer);
+    }
+    this.accounts.clear();
+  }
+
+  /**
+   * Plan the next refresh from the current credentials' expiry. Credentials
+   * without a refresh token or an expiry are left alone.
+   */
+  schedule(now: number = Date.now()): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    this.nextRefreshAt = undefined;
+
+    const creds = config.getCredentials();
+    if (!this.enabled || !creds?.refreshToken || !creds.expiresAt) return;
+
+    const delay = refreshDelay(creds.expiresAt, this.failures, now);
+    this.nextRefreshAt = now + delay;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      if (delay > MAX_TIMER_MS) {
+        this.schedule();
+      } else {
+        void this.refresh();
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
+    this.timer.unref();
+
+    logger.debug('Credential refresh scheduled', { at: new Date(this.nextRefreshAt).toISOString() });
+  }
+
+  /**
+   * Exchange the refresh token for new credentials now. Concurrent calls
+   * share one request. Resolves to whether the refresh succeeded.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.inFlight) {
+      this.inFlight = this.performRefresh().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Plan the next refresh of a pooled account, like schedule() does for the
+   * process-wide credentials
+   */
+  scheduleAccount(name: string, now: number = Date.now()): void {
+    const state = this.accountState(name);
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = undefined;
+
+    const creds = accountPool.getAccount(name)?.credentials;
+    if (!this.enabled || !creds?.refreshToken || !creds.expiresAt) return;
+
+    const delay = refreshDelay(creds.expiresAt, state.failures, now);
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      if (delay > MAX_TIMER_MS) {
+        this.scheduleAccount(name);
+      } else {
+        void this.refreshAccount(name);
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
+    state.timer.unref();
+
+    logger.debug('Account credential refresh scheduled', {
+      account: name,
+      at: new Date(now + delay).toISOString(),
+    });
+  }
+
+  /**
+   * Exchange a pooled account's refresh token for new credentials now.
+   * Concurrent calls share one request. Resolves to whether it succeeded.
+   */
+  refreshAccount(name: string): Promise<boolean> {
+    const state = this.accountState(name);
+    if (!state.inFlight) {
+      state.inFlight = this.performAccountRefresh(name, state).finally(() => {
+        state.inFlight = null;
+      });
+    }
+    return state.inFlight;
+  }
+
+  /**
+   * Expiry and refresh state for /health
+   */
+  getStatus(): CredentialRefreshStatus {
+    const expiresAt = config.getCredentials()?.expiresAt;
+    return {
+      enabled: this.enabled,
+      expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      nextRefreshAt: this.nextRefreshAt ? new Date(this.nextRefreshAt).toISOString() : undefined,
+      lastRefresh: this.lastRefresh,
+    };
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const current = config.getCredentials();
+    if (!current?.refreshToken) {
+      this.lastRefresh = { at: new Date().toISOString(), ok: false, error: 'No refresh token' };
+      return false;
+    }
+
+    const refreshConfig = config.getCredentialRefreshConfig();
+    logger.info('Refreshing OAuth credentials', { expiresAt: current.expiresAt });
+
+    try {
+      const creds = await exchangeRefreshToken(current);
+
+      if (refreshConfig.credentialsFile) {
+        try {
+          saveCredentialsFile(refreshConfig.credentialsFile, creds);
+        } catch (err) {
+          logger.warn('Failed to save refreshed credentials', {
+            path: refreshConfig.credentialsFile,
+            error: (err as Error).message,
+          });
+        }
+      }
+
+      this.failures = 0;
+      this.lastRefresh = { at: new Date().toISOString(), ok: true };
+      config.setCredentials(creds);
+      this.schedule();
+
+      logger.info('OAuth credentials refreshed', {
+        expiresAt: creds.expiresAt ? new Date(creds.expiresAt).toISOString() : undefined,
+      });
+      return true;
+    } catch (err) {
+      const error = (err as Error).message;
+      this.failures++;
+      this.lastRefresh = { at: new Date().toISOString(), ok: false, error };
+      logger.error('OAuth credential refresh failed', { error, attempt: this.failures });
+      this.schedule();
+      return false;
+    }
+  }
+
+  private async performAccountRefresh(name: string, state: AccountRefreshState): Promise<boolean> {
+    const account = accountPool.getAccount(name);
+    if (!account?.credentials.refreshToken) return false;
+
+    logger.info('Refreshing account credentials', { account: name, expiresAt: account.credentials.expiresAt });
+
+    try {
+      const creds = await exchangeRefreshToken(account.credentials);
+      if (account.credentialsFile) {
+        try {
+          saveCredentialsFile(account.credentialsFile, creds);
+        } catch (err) {
+          logger.warn('Failed to save refreshed account credentials', {
+            account: name,
+            path: account.credentialsFile,
+            error: (err as Error).message,
+          });
+        }
+      }
+
+      state.failures = 0;
+      accountPool.setCredentials(name, creds);
+      this.scheduleAccount(name);
+
+      logger.info('Account credentials refreshed', {
+        account: name,
+        expiresAt: creds.expiresAt ? new Date(creds.expiresAt).toISOString() : undefined,
+      });
+      return true;
+    } catch (err) {
+      const error = (err as Error).message;
+      state.failures++;
+      logger.error('Account credential refresh failed', { account: name, error, attempt: state.failures });
+      this.scheduleAccount(name);
+      return false;
+    }
+  }
+
+  private accountState(name: string): AccountRefreshState {
+    let state = this.accounts.get(name);
+    if (!state) {
+      state = { inFlight: null, failures: 0 };
+      this.accounts.set(name, state);
+    }
+    return state;
+  }
+}
+
+export const credentialRefresher = new CredentialRefresher();
+
+export default credentialRefresher;
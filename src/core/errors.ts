@@ -0,0 +1,41 @@
+/**
+ * Error types surfaced to API clients
+ */
+
+import type { APIError } from './types.js';
+
+export type APIErrorType = APIError['error']['type'];
+
+/**
+ * Error carrying the API error type and HTTP status to report to the client
+ */
+export class ClaudeRequestError extends Error {
+  readonly type: APIErrorType;
+  readonly statusCode: number;
+  readonly code?: string;
+
+  constructor(type: APIErrorType, message: string, statusCode: number, code?: string) {
+    super(message);
+    this.name = 'ClaudeRequestError';
+    this.type = type;
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * Resolve the status code, error type and message to report for any error
+ */
+export function describeError(err: Error): {
+  statusCode: number;
+  type: APIErrorType;
+  message: string;
+  code?: string;
+} {
+  if (err instanceof ClaudeRequestError) {
+    return { statusCode: err.statusCode, type: err.type, message: err.message, code: err.code };
+  }
+  return { statusCode: 500, type: 'api_error', message: err.message };
+}
+
+export default ClaudeRequestError;
@@ -4,5 +4,14 @@
 
 export * from './types.js';
 export * from './logger.js';
+export * from './errors.js';
 export * from './config.js';
+export * from './credential-refresh.js';
+export * from './api-keys.js';
+export * from './rate-limiter.js';
+export * from './account-pool.js';
+export * from './usage-ledger.js';
+export * from './metrics.js';
+export * from './tracing.js';
+export * from './claude-worker.js';
 export * from './claude-manager.js';
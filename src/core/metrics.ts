@@ -0,0 +1,262 @@
+/**
+ * Prometheus metrics
+ * A small registry of counters, gauges and histograms rendered in the
+ * Prometheus text exposition format, and the proxy's own metrics.
+ */
+
+type Labels = Record<string, string>;
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  protected readonly labelNames: string[];
+
+  constructor(name: string, help: string, labelNames: string[] = []) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  /**
+   * Labels in declared order, missing ones empty, so equal sets share a series
+   */
+  protected normalize(labels: Labels): Labels {
+    const normalized: Labels = {};
+    for (const name of this.labelNames) normalized[name] = labels[name] ?? '';
+    return normalized;
+  }
+
+  protected seriesKey(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map(name => labels[name]));
+  }
+
+  abstract render(): string[];
+  abstract reset(): void;
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    const normalized = this.normalize(labels);
+    const key = this.seriesKey(normalized);
+    const entry = this.series.get(key) ?? { labels: normalized, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(this.seriesKey(this.normalize(labels)))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  set(value: number, labels: Labels = {}): void {
+    const normalized = this.normalize(labels);
+    this.series.set(this.seriesKey(normalized), { labels: normalized, value });
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.set(this.get(labels) + amount, labels);
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.set(this.get(labels) - amount, labels);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(this.seriesKey(this.normalize(labels)))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[]) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const normalized = this.normalize(labels);
+    const key = this.seriesKey(normalized);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: normalized, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry!.counts[index]!++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[], buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear every series, e.g. between tests
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) metric.reset();
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+const SECONDS_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/**
+ * The proxy's metrics
+ */
+export const proxyMetrics = {
+  requests: registry.counter(
+    'claude_proxy_requests_total',
+    'API requests by route, HTTP status and resolved model',
+    ['route', 'status', 'model']
+  ),
+  requestDuration: registry.histogram(
+    'claude_proxy_request_duration_seconds',
+    'Time from receiving a request to finishing its response',
+    ['route'],
+    SECONDS_BUCKETS
+  ),
+  timeToFirstToken: registry.histogram(
+    'claude_proxy_time_to_first_token_seconds',
+    'Time from a CLI turn being requested to its first content delta, queue wait included',
+    ['model'],
+    SECONDS_BUCKETS
+  ),
+  queueWait: registry.histogram(
+    'claude_proxy_queue_wait_seconds',
+    'Time a CLI turn waited for a free worker',
+    [],
+    [0.01, 0.05, 0.1, 0.5, 1, 2.5, 5, 10, 30, 60]
+  ),
+  queueDepth: registry.gauge(
+    'claude_proxy_queue_depth',
+    'CLI turns waiting for a free worker'
+  ),
+  workers: registry.gauge(
+    'claude_proxy_workers',
+    'CLI worker processes by state',
+    ['state']
+  ),
+  activeStreams: registry.gauge(
+    'claude_proxy_active_streams',
+    'Streaming responses in progress'
+  ),
+  tokens: registry.counter(
+    'claude_proxy_tokens_total',
+    'Tokens used by CLI turns, by type and resolved model',
+    ['type', 'model']
+  ),
+  cliStarts: registry.counter(
+    'claude_proxy_cli_starts_total',
+    'CLI processes started'
+  ),
+  cliRestarts: registry.counter(
+    'claude_proxy_cli_restarts_total',
+    'CLI processes stopped mid-turn or lost, by reason',
+    ['reason']
+  ),
+  parseErrors: registry.counter(
+    'claude_proxy_stream_parse_errors_total',
+    'Lines of CLI stream-json output that could not be parsed'
+  ),
+};
+
+export default registry;
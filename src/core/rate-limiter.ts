@@ -0,0 +1,240 @@
+/**
+ * Per-key rate limits
+ * Requests per minute, concurrent requests and daily input/output tokens for
+ * each client key. Counters live in memory; daily token counts can be saved
+ * to a file so a restart does not hand every key a fresh quota.
+ */
+
+import { readFileSync, writeFileSync, renameSync } from 'node:fs';
+import type { AnthropicUsage, RateLimits } from './types.js';
+import { logger } from './logger.js';
+
+const MINUTE_MS = 60 * 1000;
+const PERSIST_DELAY_MS = 1000;
+
+interface KeyState {
+  requests: number[];      // Start times of requests within the last minute
+  active: number;          // Requests in flight
+  day: string;             // UTC day the token counts belong to
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; headers: Record<string, string>; release: () => void }
+  | { allowed: false; headers: Record<string, string>; retryAfter: number; message: string };
+
+/**
+ * UTC day of a timestamp, e.g. 2025-01-31
+ */
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Milliseconds until the next UTC midnight, when daily quotas reset
+ */
+function msUntilNextDay(now: number): number {
+  const next = new Date(now);
+  next.setUTCHours(24, 0, 0, 0);
+  return next.getTime() - now;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function formatReset(ms: number): string {
+  return `${Math.max(1, Math.ceil(ms / 1000))}s`;
+}
+
+/**
+ * Check whether any limit is in force
+ */
+export function hasRateLimits(limits: RateLimits): boolean {
+  return Object.values(limits).some(value => value > 0);
+}
+
+export class RateLimiter {
+  private keys = new Map<string, KeyState>();
+  private stateFile?: string;
+  private persistTimer?: NodeJS.Timeout;
+
+  /**
+   * Keep daily token counts in a file, restoring today's counts from it
+   */
+  setStateFile(path: string | undefined, now: number = Date.now()): void {
+    this.stateFile = path;
+    if (!path) return;
+
+    let saved: unknown;
+    try {
+      saved = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Ignoring unreadable rate limit state', { path, error: (err as Error).message });
+      }
+      return;
+    }
+    if (!isObject(saved)) {
+      logger.warn('Ignoring unreadable rate limit state', { path, error: 'expected a JSON object' });
+      return;
+    }
+
+    if (saved.day !== utcDay(now)) return;
+    for (const [name, counts] of Object.entries(isObject(saved.keys) ? saved.keys : {})) {
+      if (!isObject(counts)) continue;
+      const state = this.state(name, now);
+      state.inputTokens = typeof counts.inputTokens === 'number' ? counts.inputTokens : 0;
+      state.outputTokens = typeof counts.outputTokens === 'number' ? counts.outputTokens : 0;
+    }
+    logger.info('Restored rate limit state', { path, keys: this.keys.size });
+  }
+
+  /**
+   * Admit a request for a key, or refuse it with the time to wait. An admitted
+   * request counts as in flight until `release` is called. A request taking
+   * several slots (e.g. one CLI turn per choice) counts as that many requests.
+   */
+  acquire(name: string, limits: RateLimits, now: number = Date.now(), slots = 1): RateLimitDecision {
+    const state = this.state(name, now);
+    state.requests = state.requests.filter(time => time > now - MINUTE_MS);
+
+    const headers = this.headers(state, limits, now);
+    const refuse = (retryAfterMs: number, message: string): RateLimitDecision => {
+      const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      return { allowed: false, headers: { ...headers, 'retry-after': String(retryAfter) }, retryAfter, message };
+    };
+
+    if (limits.concurrency > 0 && slots > limits.concurrency) {
+      return refuse(MINUTE_MS, `Request needs ${slots} concurrent slots; this key allows ${limits.concurrency}`);
+    }
+    if (limits.concurrency > 0 && state.active + slots > limits.concurrency) {
+      return refuse(1000, `Too many concurrent requests for this key (limit ${limits.concurrency})`);
+    }
+    if (limits.requestsPerMinute > 0 && state.requests.length + slots > limits.requestsPerMinute) {
+      // Wait for enough of the oldest requests to leave the window
+      const freeing = state.requests[Math.max(0, state.requests.length + slots - limits.requestsPerMinute - 1)];
+      return refuse(
+        (freeing ?? now) + MINUTE_MS - now,
+        `Rate limit of ${limits.requestsPerMinute} requests per minute reached for this key`
+      );
+    }
+    if (limits.inputTokensPerDay > 0 && state.inputTokens >= limits.inputTokensPerDay) {
+      return refuse(msUntilNextDay(now), `Daily quota of ${limits.inputTokensPerDay} input tokens reached for this key`);
+    }
+    if (limits.outputTokensPerDay > 0 && state.outputTokens >= limits.outputTokensPerDay) {
+      return refuse(msUntilNextDay(now), `Daily quota of ${limits.outputTokensPerDay} output tokens reached for this key`);
+    }
+
+    for (let i = 0; i < slots; i++) state.requests.push(now);
+    state.active += slots;
+    let released = false;
+    return {
+      allowed: true,
+      headers: this.headers(state, limits, now),
+      release: () => {
+        if (released) return;
+        released = true;
+        state.active -= slots;
+      },
+    };
+  }
+
+  /**
+   * Charge a finished CLI turn's tokens to a key's daily quota
+   */
+  recordUsage(name: string, usage: AnthropicUsage, now: number = Date.now()): void {
+    const state = this.state(name, now);
+    state.inputTokens += (usage.input_tokens || 0)
+      + (usage.cache_creation_input_tokens || 0)
+      + (usage.cache_read_input_tokens || 0);
+    state.outputTokens += usage.output_tokens || 0;
+    this.schedulePersist();
+  }
+
+  /**
+   * Save pending state now, e.g. on shutdown
+   */
+  flush(): void {
+    if (this.persistTimer) clearTimeout(this.persistTimer);
+    this.persistTimer = undefined;
+    this.persist();
+  }
+
+  /**
+   * Forget all counters
+   */
+  reset(): void {
+    this.keys.clear();
+  }
+
+  private state(name: string, now: number): KeyState {
+    const day = utcDay(now);
+    let state = this.keys.get(name);
+    if (!state) {
+      state = { requests: [], active: 0, day, inputTokens: 0, outputTokens: 0 };
+      this.keys.set(name, state);
+    } else if (state.day !== day) {
+      state.day = day;
+      state.inputTokens = 0;
+      state.outputTokens = 0;
+    }
+    return state;
+  }
+
+  /**
+   * x-ratelimit-* headers describing what is left of each limit in force
+   */
+  private headers(state: KeyState, limits: RateLimits, now: number): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const set = (kind: string, limit: number, used: number, resetMs: number) => {
+      if (limit <= 0) return;
+      headers[`x-ratelimit-limit-${kind}`] = String(limit);
+      headers[`x-ratelimit-remaining-${kind}`] = String(Math.max(0, limit - used));
+      headers[`x-ratelimit-reset-${kind}`] = formatReset(resetMs);
+    };
+
+    const oldest = state.requests[0];
+    set('requests', limits.requestsPerMinute, state.requests.length, oldest ? oldest + MINUTE_MS - now : MINUTE_MS);
+    set('input-tokens', limits.inputTokensPerDay, state.inputTokens, msUntilNextDay(now));
+    set('output-tokens', limits.outputTokensPerDay, state.outputTokens, msUntilNextDay(now));
+    if (limits.concurrency > 0) {
+      headers['x-ratelimit-limit-concurrent-requests'] = String(limits.concurrency);
+      headers['x-ratelimit-remaining-concurrent-requests'] = String(Math.max(0, limits.concurrency - state.active));
+    }
+    return headers;
+  }
+
+  private schedulePersist(): void {
+    if (!this.stateFile || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = undefined;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private persist(): void {
+    if (!this.stateFile) return;
+
+    const day = utcDay(Date.now());
+    const keys: Record<string, { inputTokens: number; outputTokens: number }> = {};
+    for (const [name, state] of this.keys) {
+      if (state.day === day) keys[name] = { inputTokens: state.inputTokens, outputTokens: state.outputTokens };
+    }
+
+    // Write then rename so a crash never leaves a half-written file
+    try {
+      const temp = `${this.stateFile}.tmp`;
+      writeFileSync(temp, JSON.stringify({ day, keys }));
+      renameSync(temp, this.stateFile);
+    } catch (err) {
+      logger.warn('Failed to save rate limit state', { path: this.stateFile, error: (err as Error).message });
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
+
+export default rateLimiter;
@@ -0,0 +1,177 @@
+/**
+ * Conversation session cache
+ * Remembers which CLI session holds each conversation so a follow-up request
+ * with the same history prefix only has to send its new user turn
+ */
+
+import { createHash } from 'node:crypto';
+import type { ClaudeConversationTurn, ClaudeInputContent } from './types.js';
+import type { ClaudeWorker } from './claude-worker.js';
+
+export interface CachedSession {
+  key: string;            // Fingerprint of the conversation up to its last user turn
+  reply: string;          // Assistant reply the next request is expected to echo back
+  sessionId: string;      // CLI session holding the conversation on disk
+  worker?: ClaudeWorker;  // Idle worker still holding the session live
+  lastUsed: number;
+}
+
+export interface SessionCacheStats {
+  hits: number;
+  resumed: number;        // Hits served by resuming a stored session (no live worker)
+  misses: number;
+  cached: number;
+  live: number;
+}
+
+/**
+ * Fingerprint a conversation. The scope separates conversations that must
+ * not share a session (different model or system prompt).
+ */
+export function conversationKey(scope: string, turns: ClaudeConversationTurn[]): string {
+  const hash = createHash('sha256').update(scope);
+  for (const turn of turns) {
+    hash.update('\0').update(turn.role).update('\0').update(JSON.stringify(turn.content));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Plain text of turn content, ignoring images
+ */
+function contentText(content: ClaudeInputContent): string {
+  if (typeof content === 'string') return content;
+  return content.map(block => (block.type === 'text' ? block.text : '')).join('');
+}
+
+/**
+ * Check whether the assistant turn a client sent back is the reply the
+ * session produced. Whitespace is ignored since clients trim and reformat it,
+ * and a reply may be cut after its tool calls, as the proxy drops text written
+ * after the first call.
+ */
+export function replyMatches(reply: string, content: ClaudeInputContent): boolean {
+  const expected = reply.replace(/\s+/g, '');
+  const actual = contentText(content).replace(/\s+/g, '');
+  if (!actual) return false;
+  return expected === actual || (actual.endsWith('</tool_call>') && expected.startsWith(actual));
+}
+
+export class SessionCache {
+  private sessions = new Map<string, CachedSession>();
+  private hits = 0;
+  private resumed = 0;
+  private misses = 0;
+
+  constructor(
+    private maxSessions: number,
+    private ttlMs: number,
+    private onEvict: (session: CachedSession) => void
+  ) {}
+
+  /**
+   * Claim the session continuing the given history, if one is cached.
+   * The history must end with the assistant reply to the cached turn.
+   */
+  take(scope: string, history: ClaudeConversationTurn[]): CachedSession | null {
+    this.prune();
+
+    const last = history[history.length - 1];
+    const session = last?.role === 'assistant'
+      ? this.sessions.get(conversationKey(scope, history.slice(0, -1)))
+      : undefined;
+
+    if (!session || !replyMatches(session.reply, last!.content)) {
+      this.misses++;
+      return null;
+    }
+
+    this.sessions.delete(session.key);
+    this.hits++;
+    if (!session.worker) this.resumed++;
+    return session;
+  }
+
+  /**
+   * Remember a session after its conversation advanced
+   */
+  put(session: CachedSession): void {
+    const existing = this.sessions.get(session.key);
+    if (existing) {
+      this.sessions.delete(existing.key);
+      this.onEvict(existing);
+    }
+    this.sessions.set(session.key, session);
+    this.prune();
+  }
+
+  /**
+   * Check whether a worker is parked holding a cached session
+   */
+  holds(worker: ClaudeWorker): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.worker === worker) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Forget the live worker of a cached session, keeping the session
+   * resumable from disk. Returns false when the worker holds no cached session.
+   */
+  detachWorker(worker: ClaudeWorker): boolean {
+    for (const session of this.sessions.values()) {
+      if (session.worker === worker) {
+        session.worker = undefined;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Drop expired sessions, then the least recently used beyond the limit
+   */
+  prune(now: number = Date.now()): void {
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastUsed >= this.ttlMs) {
+        this.evict(session);
+      }
+    }
+
+    const excess = this.sessions.size - this.maxSessions;
+    if (excess > 0) {
+      [...this.sessions.values()]
+        .sort((a, b) => a.lastUsed - b.lastUsed)
+        .slice(0, excess)
+        .forEach(session => this.evict(session));
+    }
+  }
+
+  /**
+   * Drop all cached sessions
+   */
+  clear(): void {
+    for (const session of [...this.sessions.values()]) {
+      this.evict(session);
+    }
+  }
+
+  getStats(): SessionCacheStats {
+    const sessions = [...this.sessions.values()];
+    return {
+      hits: this.hits,
+      resumed: this.resumed,
+      misses: this.misses,
+      cached: sessions.length,
+      live: sessions.filter(s => s.worker).length,
+    };
+  }
+
+  private evict(session: CachedSession): void {
+    this.sessions.delete(session.key);
+    this.onEvict(session);
+  }
+}
+
+export default SessionCache;
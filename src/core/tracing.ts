@@ -0,0 +1,310 @@
+/**
+ * OpenTelemetry tracing
+ * Spans for the stages of a request, sent in batches to an OTLP/HTTP
+ * collector in the JSON encoding. A W3C traceparent header on the incoming
+ * request is continued, so the proxy's spans join the caller's trace.
+ * Nothing is recorded unless an exporter endpoint is configured.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { AnthropicUsage, TracingConfig } from './types.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+const EXPORT_TIMEOUT_MS = 10 * 1000;
+const SCOPE_NAME = 'opencode-claude-proxy';
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export type SpanKind = 'internal' | 'server';
+
+// OTLP enum values
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2 };
+const STATUS_CODE_ERROR = 2;
+
+/**
+ * Identity of a span, as carried by a traceparent header
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  parent?: SpanContext;
+  attributes?: Attributes;
+  startTime?: number;       // Epoch milliseconds; now when unset
+}
+
+/**
+ * Current time in epoch milliseconds, with sub-millisecond precision
+ */
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+function toOtlpAttributes(attributes: Attributes): Array<{ key: string; value: Record<string, unknown> }> {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+    .map(([key, value]) => {
+      if (typeof value === 'string') return { key, value: { stringValue: value } };
+      if (typeof value === 'boolean') return { key, value: { boolValue: value } };
+      if (Number.isInteger(value)) return { key, value: { intValue: value } };
+      return { key, value: { doubleValue: value } };
+    });
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * Read a W3C traceparent header. Returns null when it is missing or invalid.
+ */
+export function parseTraceparent(header: string | undefined): (SpanContext & { sampled: boolean }) | null {
+  const match = header?.trim().match(TRACEPARENT_PATTERN);
+  if (!match) return null;
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  // Version ff is forbidden, and version 00 has exactly four fields
+  if (version === 'ff' || (version === '00' && rest)) return null;
+  if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) return null;
+
+  return { traceId: traceId!, spanId: spanId!, sampled: (parseInt(flags!, 16) & 1) === 1 };
+}
+
+/**
+ * Span attributes for a turn's token usage
+ */
+export function usageAttributes(usage: AnthropicUsage | undefined): Attributes {
+  return {
+    'gen_ai.usage.input_tokens': usage?.input_tokens,
+    'gen_ai.usage.output_tokens': usage?.output_tokens,
+    'gen_ai.usage.cache_creation_input_tokens': usage?.cache_creation_input_tokens,
+    'gen_ai.usage.cache_read_input_tokens': usage?.cache_read_input_tokens,
+  };
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly kind: SpanKind;
+  readonly name: string;
+  readonly startTime: number;
+  private endTime?: number;
+  private attributes: Attributes = {};
+  private error?: string;
+  private onEnd: (span: Span) => void;
+
+  constructor(name: string, options: SpanOptions, onEnd: (span: Span) => void) {
+    this.name = name;
+    this.kind = options.kind ?? 'internal';
+    this.traceId = options.parent?.traceId ?? randomBytes(16).toString('hex');
+    this.spanId = randomBytes(8).toString('hex');
+    this.parentSpanId = options.parent?.spanId;
+    this.startTime = options.startTime ?? now();
+    this.onEnd = onEnd;
+    if (options.attributes) this.setAttributes(options.attributes);
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  /**
+   * Set attributes, skipping undefined values
+   */
+  setAttributes(attributes: Attributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Mark the span as failed
+   */
+  setError(message: string): this {
+    this.error = message;
+    return this;
+  }
+
+  /**
+   * Start a span under this one, in the same trace
+   */
+  child(name: string, attributes?: Attributes, startTime?: number): Span {
+    return new Span(name, { parent: this, attributes, startTime }, this.onEnd);
+  }
+
+  /**
+   * End the span and hand it to the exporter. Later calls do nothing.
+   */
+  end(time: number = now()): void {
+    if (this.ended) return;
+    this.endTime = Math.max(time, this.startTime);
+    this.onEnd(this);
+  }
+
+  /**
+   * The span in the OTLP JSON encoding
+   */
+  toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      ...(this.parentSpanId ? { parentSpanId: this.parentSpanId } : {}),
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: toUnixNano(this.startTime),
+      endTimeUnixNano: toUnixNano(this.endTime ?? now()),
+      attributes: toOtlpAttributes(this.attributes),
+      status: this.error ? { code: STATUS_CODE_ERROR, message: this.error } : {},
+    };
+  }
+}
+
+export interface TracerStatus {
+  enabled: boolean;
+  endpoint?: string;
+  exported: number;
+  dropped: number;
+}
+
+export class Tracer {
+  private tracingConfig: TracingConfig | null = null;
+  private pending: Span[] = [];
+  private timer?: NodeJS.Timeout;
+  private exporting: Promise<void> = Promise.resolve();
+  private exported = 0;
+  private dropped = 0;
+
+  /**
+   * Start exporting spans, if an endpoint is configured
+   */
+  start(tracingConfig: TracingConfig = config.getTracingConfig()): void {
+    this.stopTimer();
+    if (!tracingConfig.endpoint) {
+      this.tracingConfig = null;
+      return;
+    }
+
+    this.tracingConfig = tracingConfig;
+    this.timer = setInterval(() => this.flush(), tracingConfig.exportIntervalMs);
+    this.timer.unref();
+    logger.info('Tracing enabled', {
+      endpoint: tracingConfig.endpoint,
+      serviceName: tracingConfig.serviceName,
+    });
+  }
+
+  /**
+   * Export the remaining spans and stop recording new ones
+   */
+  async stop(): Promise<void> {
+    this.stopTimer();
+    await this.flush();
+    this.tracingConfig = null;
+  }
+
+  isEnabled(): boolean {
+    return this.tracingConfig !== null;
+  }
+
+  /**
+   * Start a root span, continuing the trace of a traceparent header when one
+   * is given. Returns undefined when tracing is off or the caller's trace is
+   * not sampled.
+   */
+  startSpan(name: string, options: SpanOptions & { traceparent?: string } = {}): Span | undefined {
+    if (!this.tracingConfig) return undefined;
+
+    const { traceparent, ...spanOptions } = options;
+    const remote = parseTraceparent(traceparent);
+    if (remote && !remote.sampled) return undefined;
+
+    return new Span(name, { ...spanOptions, parent: spanOptions.parent ?? remote ?? undefined }, span => this.enqueue(span));
+  }
+
+  /**
+   * Send the spans ended so far to the collector
+   */
+  flush(): Promise<void> {
+    this.exporting = this.exporting.then(async () => {
+      while (this.pending.length > 0 && this.tracingConfig) {
+        const batch = this.pending.splice(0, this.tracingConfig.maxBatchSize);
+        await this.export(batch, this.tracingConfig);
+      }
+    });
+    return this.exporting;
+  }
+
+  getStatus(): TracerStatus {
+    return {
+      enabled: this.isEnabled(),
+      endpoint: this.tracingConfig?.endpoint,
+      exported: this.exported,
+      dropped: this.dropped,
+    };
+  }
+
+  private enqueue(span: Span): void {
+    if (!this.tracingConfig) return;
+
+    if (this.pending.length >= this.tracingConfig.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+    this.pending.push(span);
+    if (this.pending.length >= this.tracingConfig.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  private async export(batch: Span[], tracingConfig: TracingConfig): Promise<void> {
+    const body = {
+      resourceSpans: [{
+        resource: {
+          attributes: toOtlpAttributes({ 'service.name': tracingConfig.serviceName }),
+        },
+        scopeSpans: [{
+          scope: { name: SCOPE_NAME },
+          spans: batch.map(span => span.toOtlp()),
+        }],
+      }],
+    };
+
+    try {
+      const response = await fetch(tracingConfig.endpoint!, {
+        method: 'POST',
+        headers: { ...tracingConfig.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Collector returned ${response.status}`);
+      }
+      this.exported += batch.length;
+    } catch (err) {
+      this.dropped += batch.length;
+      logger.warn('Failed to export spans', {
+        endpoint: tracingConfig.endpoint,
+        spans: batch.length,
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+export const tracer = new Tracer();
+
+export default tracer;
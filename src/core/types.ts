@@ -2,6 +2,8 @@
  * Core type definitions for OpenAI and Anthropic API compatibility
  */
 
+import type { Span } from './tracing.js';
+
 // ============================================================================
 // OpenAI Chat Completions API Types
 // ============================================================================
@@ -15,6 +17,7 @@ export interface OpenAIMessage {
   function_call?: OpenAIFunctionCall;
   refusal?: string;
   audio?: OpenAIAudioOutput;
+  reasoning_content?: string;  // Extended thinking text, on assistant replies only
 }
 
 export interface OpenAIContentPart {
@@ -39,6 +42,17 @@ export interface OpenAIToolCall {
   };
 }
 
+// Incremental tool call fragment in a streaming delta
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface OpenAIFunctionCall {
   name: string;
   arguments: string;
@@ -60,6 +74,8 @@ export interface OpenAIFunction {
   parameters?: Record<string, unknown>;
 }
 
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
 export interface OpenAIResponseFormat {
   type: 'text' | 'json_object' | 'json_schema';
   json_schema?: {
@@ -124,7 +140,7 @@ export interface OpenAIChatCompletionRequest {
   response_format?: OpenAIResponseFormat;
 
   // Reasoning (o1, o3 models)
-  reasoning_effort?: 'low' | 'medium' | 'high';
+  reasoning_effort?: ReasoningEffort;
 
   // Seed for deterministic sampling
   seed?: number;
@@ -229,9 +245,13 @@ export interface OpenAIChatCompletionChunk {
   service_tier?: string;
 }
 
+export type OpenAIChunkDelta = Partial<Omit<OpenAIMessage, 'tool_calls'>> & {
+  tool_calls?: OpenAIToolCallDelta[];
+};
+
 export interface OpenAIChunkChoice {
   index: number;
-  delta: Partial<OpenAIMessage>;
+  delta: OpenAIChunkDelta;
   finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'function_call' | null;
   logprobs?: OpenAILogprobs | null;
 }
@@ -255,25 +275,47 @@ export interface OpenAIResponsesRequest {
   include?: string[];
   previous_response_id?: string;
   truncation?: 'auto' | 'disabled';
+  user?: string;
 }
 
 export interface OpenAIResponsesInputItem {
-  type: 'message' | 'item_reference';
+  type?: 'message';        // Omitted for shorthand { role, content } messages; other item types are rejected
   role?: 'user' | 'assistant' | 'system' | 'developer';
-  content?: string | OpenAIContentPart[];
+  content?: string | OpenAIResponsesContentPart[];
   id?: string;
 }
 
+export interface OpenAIResponsesContentPart {
+  type: 'input_text' | 'output_text' | 'input_image' | 'text' | 'image_url';
+  text?: string;
+  image_url?: string | { url: string; detail?: 'low' | 'high' | 'auto' };
+}
+
+export interface OpenAIResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  input_tokens_details?: {
+    cached_tokens?: number;
+  };
+  output_tokens_details?: {
+    reasoning_tokens?: number;
+  };
+}
+
 export interface OpenAIResponsesResponse {
   id: string;
   object: 'response';
   created_at: number;
-  status: 'completed' | 'in_progress' | 'failed' | 'cancelled';
+  status: 'completed' | 'in_progress' | 'failed' | 'cancelled' | 'incomplete';
   model: string;
   output: OpenAIResponsesOutput[];
-  usage?: OpenAIUsage;
+  instructions?: string | null;
+  max_output_tokens?: number | null;
+  usage?: OpenAIResponsesUsage;
   metadata?: Record<string, string>;
-  error?: { message: string; type: string };
+  error?: { message: string; type: string } | null;
+  incomplete_details?: { reason: 'max_output_tokens' } | null;
 }
 
 export interface OpenAIResponsesOutput {
@@ -285,7 +327,21 @@ export interface OpenAIResponsesOutput {
     text?: string;
     annotations?: unknown[];
   }[];
-  status: 'completed' | 'in_progress';
+  status: 'completed' | 'in_progress' | 'incomplete';
+}
+
+// Responses streaming event (response.created, response.output_text.delta, ...)
+export interface OpenAIResponsesStreamEvent {
+  type: string;
+  sequence_number: number;
+  response?: OpenAIResponsesResponse;
+  output_index?: number;
+  content_index?: number;
+  item_id?: string;
+  item?: OpenAIResponsesOutput;
+  part?: OpenAIResponsesOutput['content'][number];
+  delta?: string;
+  text?: string;
 }
 
 // ============================================================================
@@ -314,12 +370,16 @@ export interface AnthropicMessage {
 }
 
 export interface AnthropicContentBlock {
-  type: 'text' | 'image' | 'tool_use' | 'tool_result';
+  type: 'text' | 'image' | 'tool_use' | 'tool_result' | 'thinking' | 'redacted_thinking';
   text?: string;
+  thinking?: string;
+  signature?: string;
+  data?: string;                 // Encrypted content of a redacted_thinking block
   source?: {
-    type: 'base64';
-    media_type: string;
-    data: string;
+    type: 'base64' | 'url';
+    media_type?: string;
+    data?: string;
+    url?: string;
   };
   id?: string;
   name?: string;
@@ -353,16 +413,24 @@ export interface AnthropicMessagesRequest {
   // Tools
   tools?: AnthropicTool[];
   tool_choice?: {
-    type: 'auto' | 'any' | 'tool';
+    type: 'auto' | 'any' | 'tool' | 'none';
     name?: string;
+    disable_parallel_tool_use?: boolean;
   };
 
+  // Extended thinking
+  thinking?: AnthropicThinkingConfig;
+
   // Metadata
   metadata?: {
     user_id?: string;
   };
 }
 
+export type AnthropicThinkingConfig =
+  | { type: 'enabled'; budget_tokens: number }
+  | { type: 'disabled' };
+
 export interface AnthropicSystemBlock {
   type: 'text';
   text: string;
@@ -402,11 +470,28 @@ export interface AnthropicStreamEvent {
     stop_reason?: string;
     stop_sequence?: string | null;
     partial_json?: string;
+    thinking?: string;
+    signature?: string;
   };
   usage?: Partial<AnthropicUsage>;
   error?: { type: string; message: string };
 }
 
+// ============================================================================
+// Output Limits
+// ============================================================================
+
+// Limits the proxy enforces on generated text
+export interface OutputLimits {
+  maxTokens?: number;
+  stopSequences?: string[];
+}
+
+// Why the proxy cut the output short
+export type OutputStop =
+  | { reason: 'max_tokens' }
+  | { reason: 'stop_sequence'; sequence: string };
+
 // ============================================================================
 // Claude CLI Types (stream-json protocol)
 // ============================================================================
@@ -420,24 +505,93 @@ export interface ClaudeStreamMessage {
   };
   event?: AnthropicStreamEvent;
   usage?: AnthropicUsage;
+  session_id?: string;
+  is_error?: boolean;      // On results: the turn failed
+  result?: string;         // On results: final text, or the error message
 }
 
 export interface ClaudeContentBlock {
-  type: 'text' | 'tool_use' | 'tool_result';
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'redacted_thinking';
   text?: string;
+  thinking?: string;
+  signature?: string;
+  data?: string;
   id?: string;
   name?: string;
   input?: Record<string, unknown>;
 }
 
+export interface ClaudeImageBlock {
+  type: 'image';
+  source: { type: 'base64'; media_type: string; data: string };
+}
+
+export type ClaudeInputContentBlock = { type: 'text'; text: string } | ClaudeImageBlock;
+
+// Prompt sent to the CLI: plain text, or content blocks when images are attached
+export type ClaudeInputContent = string | ClaudeInputContentBlock[];
+
+// Prior turn of a conversation replayed into a CLI session
+export interface ClaudeConversationTurn {
+  role: 'user' | 'assistant';
+  content: ClaudeInputContent;
+}
+
+// Everything needed to run one request on the CLI
+export interface ClaudeRequestInput {
+  prompt: ClaudeInputContent;            // Final user turn (or whole transcript)
+  systemPrompt?: string;                 // Passed with a CLI system prompt flag
+  history?: ClaudeConversationTurn[];    // Earlier turns, seeded as a resumable session
+}
+
+// Image found in a request, resolved to a ClaudeImageBlock before sending
+export type ImageReference =
+  | { type: 'url'; url: string }
+  | { type: 'base64'; media_type?: string; data: string };
+
 export interface ClaudeInputMessage {
   type: 'user';
   message: {
     role: 'user';
-    content: string;
+    content: ClaudeInputContent;
   };
 }
 
+// ============================================================================
+// Tool Emulation Types (client tools surfaced through the prompt)
+// ============================================================================
+
+// API-neutral tool definition
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export type ToolChoiceMode =
+  | { type: 'auto' }
+  | { type: 'none' }
+  | { type: 'required' }
+  | { type: 'tool'; name: string };
+
+export interface ParsedToolCall {
+  id: string;
+  name: string;
+  arguments: string;       // JSON-encoded arguments object
+}
+
+export interface ToolParserOptions {
+  maxCalls?: number;       // Calls beyond this are dropped
+  idPrefix?: string;       // Prefix for generated call IDs
+}
+
+// Events produced while scanning model output for tool call blocks
+export type ToolStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call_start'; index: number; id: string; name: string }
+  | { type: 'tool_call_delta'; index: number; arguments: string }
+  | { type: 'tool_call_end'; index: number };
+
 // ============================================================================
 // Error Types
 // ============================================================================
@@ -463,8 +617,127 @@ export interface OAuthCredentials {
   expiresAt?: number;
 }
 
+// Where the process-wide credentials came from
+export type CredentialSource = 'CLAUDE_OAUTH_CREDS' | 'CLAUDE_CODE_OAUTH_TOKEN' | 'file' | 'none';
+
+export interface CredentialRefreshConfig {
+  enabled: boolean;         // Refresh the access token before it expires
+  tokenUrl: string;         // OAuth token endpoint
+  clientId: string;         // OAuth client the refresh token was issued to
+  marginMs: number;         // How long before expiry to refresh
+  credentialsFile?: string; // Where refreshed credentials are saved
+}
+
+// How a request is assigned to one of several accounts:
+// - round-robin: each account in turn
+// - least-loaded: the account with the fewest requests in flight
+// - sticky: the account that last served the same client key
+export type AccountStrategy = 'round-robin' | 'least-loaded' | 'sticky';
+
+// Subscription account requests can be served with
+export interface ClaudeAccount {
+  name: string;            // Shown in logs and /health in place of the token
+  credentials: OAuthCredentials;
+  credentialsFile?: string;  // Where the credentials came from; refreshed ones are saved there
+}
+
+export interface AccountPoolConfig {
+  file?: string;           // JSON file listing the accounts
+  strategy: AccountStrategy;
+  cooldownMs: number;      // Time an account sits out after a rate limit or auth error
+}
+
+export interface TracingConfig {
+  endpoint?: string;                // OTLP/HTTP traces URL; tracing is off when unset
+  headers: Record<string, string>;  // Sent with every export, e.g. collector auth
+  serviceName: string;
+  exportIntervalMs: number;         // Delay between exports of ended spans
+  maxBatchSize: number;             // Spans sent per export request
+  maxQueueSize: number;             // Ended spans kept waiting; later ones are dropped
+}
+
 export interface ServerConfig {
   port: number;
   host: string;
   logLevel: 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 }
+
+export interface PoolConfig {
+  minWorkers: number;      // Workers kept alive when idle
+  maxWorkers: number;      // Upper bound on concurrent Claude processes
+  idleTimeoutMs: number;   // Idle time before a surplus worker is reaped
+}
+
+// How conversation history reaches the CLI:
+// - transcript: flattened into one prompt with role prefixes
+// - replay: earlier turns seeded as a real session the CLI resumes
+export type ConversationMode = 'transcript' | 'replay';
+
+// What happens to the CLI's built-in system prompt when a client sends one:
+// - keep: built-in prompt unchanged, client system prompt sent inline in the user turn
+// - replace: client system prompt replaces the built-in one
+// - append: client system prompt is appended to the built-in one
+export type SystemPromptPolicy = 'keep' | 'replace' | 'append';
+
+// What happens to request parameters the CLI cannot honour:
+// - lenient: ignored and listed in the x-proxy-ignored-params header
+// - warn: as lenient, and logged
+// - strict: request rejected with a 400 naming the parameter
+export type ParameterStrictness = 'lenient' | 'warn' | 'strict';
+
+export interface SessionConfig {
+  reuse: boolean;          // Continue live/stored CLI sessions when the history prefix matches
+  maxSessions: number;     // Conversations remembered for reuse
+  ttlMs: number;           // Time an unused conversation is remembered
+}
+
+export interface ImageConfig {
+  maxBytes: number;          // Max decoded size of a single image
+  allowRemoteFetch: boolean; // Download http(s) image URLs instead of rejecting them
+  allowPrivateHosts?: boolean;  // Also download from loopback, private and link-local addresses
+  fetchTimeoutMs: number;    // Timeout for downloading a remote image
+}
+
+export interface TimeoutConfig {
+  firstTokenMs: number;    // Max wait for the first content delta (0 disables)
+  idleMs: number;          // Max gap between events once output has started
+  totalMs: number;         // Max duration of a single request
+  watchdogStallMs: number; // Restart a busy worker that is silent this long
+}
+
+// ============================================================================
+// Proxy Authentication Types
+// ============================================================================
+
+// Client key allowed to use the proxy
+export interface ProxyApiKey {
+  name: string;            // Shown in logs and usage records in place of the key
+  key: string;
+  limits?: Partial<RateLimits>;  // Overrides of the default limits
+  admin?: boolean;         // May read every key's usage
+}
+
+// Limits applied to each client key (0 means unlimited)
+export interface RateLimits {
+  requestsPerMinute: number;
+  concurrency: number;          // Requests in flight at once
+  inputTokensPerDay: number;    // Per UTC day
+  outputTokensPerDay: number;
+}
+
+export interface RateLimitConfig {
+  defaults: RateLimits;    // Limits of keys that set none of their own
+  stateFile?: string;      // Where daily token counts survive restarts
+}
+
+// Per-request state attached by the server before a handler runs
+export interface RequestContext {
+  keyName?: string;        // Name of the proxy API key the request authenticated with
+  rateLimits?: Partial<RateLimits>;  // Limits of that key
+  admin?: boolean;                   // Whether that key is an admin key
+  credentials?: OAuthCredentials;    // Supplied by a trusted upstream for this request only
+  model?: string;                    // Model the client asked for
+  resolvedModel?: string;            // Model the CLI runs
+  usage?: AnthropicUsage;            // Tokens used by the request's CLI turns so far
+  span?: Span;                       // Trace span of the request, when tracing is on
+}
@@ -0,0 +1,179 @@
+/**
+ * Usage ledger
+ * Append-only JSONL record of every completed API request: who sent it,
+ * which model served it, the tokens it used, how long it took and how it
+ * ended. Summaries by day, key and model are computed from the file.
+ */
+
+import { appendFile, readFile } from 'node:fs/promises';
+import { logger } from './logger.js';
+
+export interface UsageRecord {
+  timestamp: string;
+  request_id: string;
+  key: string;               // Proxy API key name, or 'anonymous'
+  endpoint: string;
+  model?: string;            // Model the client asked for
+  resolved_model?: string;   // Model the CLI ran
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  duration_ms: number;
+  status: number;            // HTTP status, 499 when the client went away first
+}
+
+export type UsageGroupField = 'day' | 'key' | 'model';
+
+export interface UsageQuery {
+  from?: string;             // First UTC day included, e.g. 2025-01-31
+  to?: string;               // Last UTC day included
+  key?: string;
+  groupBy: UsageGroupField[];
+}
+
+export interface UsageTotals {
+  requests: number;
+  errors: number;            // Requests that ended with a status of 400 or more
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  duration_ms: number;
+}
+
+export type UsageGroup = Partial<Record<UsageGroupField, string>> & UsageTotals;
+
+export interface UsageSummary {
+  groups: UsageGroup[];
+  totals: UsageTotals;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    errors: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    duration_ms: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  if (record.status >= 400) totals.errors++;
+  totals.input_tokens += record.input_tokens || 0;
+  totals.output_tokens += record.output_tokens || 0;
+  totals.cache_creation_input_tokens += record.cache_creation_input_tokens || 0;
+  totals.cache_read_input_tokens += record.cache_read_input_tokens || 0;
+  totals.duration_ms += record.duration_ms || 0;
+}
+
+/**
+ * Aggregate records by the requested fields, busiest groups first
+ */
+export function summarizeUsage(records: UsageRecord[], query: UsageQuery): UsageSummary {
+  const groups = new Map<string, UsageGroup>();
+  const totals = emptyTotals();
+
+  for (const record of records) {
+    const day = record.timestamp.slice(0, 10);
+    if (query.from && day < query.from) continue;
+    if (query.to && day > query.to) continue;
+    if (query.key && record.key !== query.key) continue;
+
+    const fields: Record<UsageGroupField, string> = {
+      day,
+      key: record.key,
+      model: record.resolved_model || record.model || 'unknown',
+    };
+    const id = query.groupBy.map(field => fields[field]).join('\n');
+    let group = groups.get(id);
+    if (!group) {
+      group = { ...emptyTotals() };
+      for (const field of query.groupBy) group[field] = fields[field];
+      groups.set(id, group);
+    }
+    addRecord(group, record);
+    addRecord(totals, record);
+  }
+
+  return {
+    groups: [...groups.values()].sort((a, b) =>
+      (b.day ?? '').localeCompare(a.day ?? '')
+      || (b.input_tokens + b.output_tokens) - (a.input_tokens + a.output_tokens)
+    ),
+    totals,
+  };
+}
+
+export class UsageLedger {
+  private file?: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * Record requests to a file; records are dropped while none is set
+   */
+  setFile(path: string | undefined): void {
+    this.file = path;
+  }
+
+  isEnabled(): boolean {
+    return !!this.file;
+  }
+
+  /**
+   * Append a record. Writes are queued so records keep their order.
+   */
+  record(record: UsageRecord): void {
+    const file = this.file;
+    if (!file) return;
+
+    this.writes = this.writes
+      .then(() => appendFile(file, JSON.stringify(record) + '\n', { mode: 0o600 }))
+      .catch(err => {
+        logger.warn('Failed to write usage record', { path: file, error: (err as Error).message });
+      });
+  }
+
+  /**
+   * Read every record, after pending writes land. Unparseable lines, such as
+   * one cut short by a crash, are skipped.
+   */
+  async readRecords(): Promise<UsageRecord[]> {
+    await this.writes;
+    if (!this.file) return [];
+
+    let content: string;
+    try {
+      content = await readFile(this.file, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        logger.debug('Skipping unreadable usage record', { line: line.slice(0, 100) });
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Wait for pending writes, e.g. on shutdown
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+export default usageLedger;
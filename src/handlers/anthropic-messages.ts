@@ -10,9 +10,32 @@ import type {
   ClaudeStreamMessage,
   AnthropicUsage,
   AnthropicContentBlock,
+  ToolStreamEvent,
+  ClaudeRequestInput,
+  OutputStop,
+  OutputLimits,
 } from '../core/types.js';
 import { logger } from '../core/logger.js';
-import { anthropicMessagesToPrompt } from '../converters/messages.js';
+import { config } from '../core/config.js';
+import { describeError } from '../core/errors.js';
+import { resolveModelId } from './models.js';
+import { onClientDisconnect, getRequestContext, setRequestContext, requestSendOptions } from '../server/middleware.js';
+import { checkParameters, unsupportedParameterMessage } from './parameters.js';
+import {
+  anthropicMessagesToInput,
+  anthropicMessagesToConversation,
+  anthropicSystemToText,
+} from '../converters/messages.js';
+import {
+  anthropicToolsToDefinitions,
+  anthropicToolChoiceToMode,
+  toolsEnabled,
+  buildToolPrompt,
+  parseToolCalls,
+  ToolCallParser,
+} from '../converters/tools.js';
+import { OutputLimiter, applyOutputLimits, estimateTokens } from '../converters/limits.js';
+import { anthropicThinkingToTokens, MIN_THINKING_BUDGET } from '../converters/thinking.js';
 
 // Lazy import to avoid loading ClaudeProcessManager on module init
 let _claudeManager: typeof import('../core/claude-manager.js').claudeManager | null = null;
@@ -29,6 +52,10 @@ import {
   formatSSE,
 } from '../converters/responses.js';
 
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
 /**
  * Validate Anthropic messages request
  */
@@ -63,6 +90,13 @@ export function validateRequest(body: unknown): {
   }
 
   // Validate optional parameters
+  if (req.system !== undefined && typeof req.system !== 'string') {
+    const blocks = req.system;
+    if (!Array.isArray(blocks) || blocks.some(b => !isObject(b) || b.type !== 'text' || typeof b.text !== 'string')) {
+      return { valid: false, error: 'system must be a string or an array of text blocks' };
+    }
+  }
+
   if (req.temperature !== undefined) {
     const temp = req.temperature as number;
     if (typeof temp !== 'number' || temp < 0 || temp > 1) {
@@ -84,14 +118,52 @@ export function validateRequest(body: unknown): {
     }
   }
 
+  if (req.thinking !== undefined) {
+    const thinking = isObject(req.thinking) ? req.thinking : {};
+    if (thinking.type === 'enabled') {
+      const budget = thinking.budget_tokens;
+      if (typeof budget !== 'number' || !Number.isInteger(budget) || budget < MIN_THINKING_BUDGET) {
+        return { valid: false, error: `thinking.budget_tokens must be an integer >= ${MIN_THINKING_BUDGET}` };
+      }
+      if (budget >= (req.max_tokens as number)) {
+        return { valid: false, error: 'thinking.budget_tokens must be less than max_tokens' };
+      }
+    } else if (thinking.type !== 'disabled') {
+      return { valid: false, error: 'thinking.type must be one of enabled, disabled' };
+    }
+  }
+
+  if (req.tools !== undefined) {
+    if (!Array.isArray(req.tools)) {
+      return { valid: false, error: 'tools must be an array' };
+    }
+    for (const tool of req.tools) {
+      if (!isObject(tool) || typeof tool.name !== 'string' || !tool.name) {
+        return { valid: false, error: 'each tool must have a name' };
+      }
+    }
+  }
+
+  if (req.tool_choice !== undefined) {
+    const choice = isObject(req.tool_choice) ? req.tool_choice : {};
+    if (typeof choice.type !== 'string' || !['auto', 'any', 'tool', 'none'].includes(choice.type)) {
+      return { valid: false, error: 'tool_choice.type must be one of auto, any, tool, none' };
+    }
+    const tools: unknown[] = Array.isArray(req.tools) ? req.tools : [];
+    if (choice.type === 'tool' && !tools.some(tool => isObject(tool) && tool.name === choice.name)) {
+      return { valid: false, error: `tool_choice references unknown tool: ${choice.name}` };
+    }
+  }
+
   return { valid: true, request: req as unknown as AnthropicMessagesRequest };
 }
 
 /**
  * Log request parameters for debugging
  */
-function logRequestParams(reqId: string, request: AnthropicMessagesRequest): void {
+function logRequestParams(reqId: string, request: AnthropicMessagesRequest, keyName?: string): void {
   const params: Record<string, unknown> = {
+    ...(keyName ? { key: keyName } : {}),
     model: request.model,
     messagesCount: request.messages.length,
     max_tokens: request.max_tokens,
@@ -107,21 +179,84 @@ function logRequestParams(reqId: string, request: AnthropicMessagesRequest): voi
   if (request.top_k !== undefined) params.top_k = request.top_k;
   if (request.stop_sequences) params.stopSequencesCount = request.stop_sequences.length;
   if (request.tools) params.toolsCount = request.tools.length;
+  if (request.thinking) params.thinking = anthropicThinkingToTokens(request.thinking);
   if (request.metadata) params.hasMetadata = true;
 
   logger.info('Anthropic messages request', { reqId, ...params });
 }
 
+/**
+ * Build the CLI input, including tool instructions when tools are in play
+ */
+async function buildInput(request: AnthropicMessagesRequest): Promise<ClaudeRequestInput> {
+  const toolPrompt = buildToolPrompt(
+    anthropicToolsToDefinitions(request.tools),
+    anthropicToolChoiceToMode(request.tool_choice),
+    request.tool_choice?.disable_parallel_tool_use !== true
+  );
+
+  const systemPrompt = [anthropicSystemToText(request.system), toolPrompt].filter(Boolean).join('\n\n') || undefined;
+  const imageConfig = config.getImageConfig();
+
+  if (config.getConversationMode() === 'replay') {
+    const conversation = await anthropicMessagesToConversation(request.messages, systemPrompt, imageConfig);
+    if (conversation) return conversation;
+  }
+  return {
+    prompt: await anthropicMessagesToInput(request.messages, undefined, imageConfig),
+    systemPrompt,
+  };
+}
+
+/**
+ * Create a tool call parser when the output should be scanned for tool calls
+ */
+function createToolParser(request: AnthropicMessagesRequest): ToolCallParser | null {
+  const enabled = toolsEnabled(
+    anthropicToolsToDefinitions(request.tools),
+    anthropicToolChoiceToMode(request.tool_choice)
+  );
+  if (!enabled) return null;
+
+  return new ToolCallParser({
+    maxCalls: request.tool_choice?.disable_parallel_tool_use ? 1 : undefined,
+    idPrefix: 'toolu',
+  });
+}
+
+/**
+ * Thinking blocks are only returned to clients that asked for them
+ */
+function forwardsThinking(request: AnthropicMessagesRequest): boolean {
+  return request.thinking?.type === 'enabled';
+}
+
+function isThinkingBlock(type?: string): boolean {
+  return type === 'thinking' || type === 'redacted_thinking';
+}
+
+/**
+ * Limits the proxy enforces on the output
+ */
+function outputLimits(request: AnthropicMessagesRequest): OutputLimits {
+  return {
+    maxTokens: request.max_tokens,
+    stopSequences: request.stop_sequences,
+  };
+}
+
 /**
  * Handle streaming response
  */
 async function handleStreamingResponse(
+  req: IncomingMessage,
   res: ServerResponse,
   request: AnthropicMessagesRequest,
+  input: ClaudeRequestInput,
   reqId: string
 ): Promise<void> {
   const msgId = generateId('msg');
-  const model = request.model;
+  const model = resolveModelId(request.model);
 
   // Set streaming headers
   res.writeHead(200, {
@@ -131,21 +266,70 @@ async function handleStreamingResponse(
     'X-Accel-Buffering': 'no',
   });
 
-  // Convert to prompt
-  const systemPrompt = typeof request.system === 'string'
-    ? request.system
-    : Array.isArray(request.system)
-      ? request.system.map(s => s.text).join('\n')
-      : undefined;
-
-  const prompt = anthropicMessagesToPrompt(request.messages, systemPrompt);
   const state = new AnthropicStreamingState(msgId, model);
+  const toolParser = createToolParser(request);
+  const limiter = new OutputLimiter(outputLimits(request));
+  const forwardThinking = forwardsThinking(request);
+  let upstreamBlockType: string | undefined;
+  let finished = false;
+
+  // With tools in play, content blocks are driven by the parser rather than the CLI
+  const writeToolEvents = (events: ToolStreamEvent[]) => {
+    for (const event of events) {
+      if (event.type === 'text') {
+        const { event: start, sent } = state.buildContentBlockStart();
+        if (sent) res.write(formatSSE('content_block_start', start));
+        res.write(formatSSE('content_block_delta', state.buildContentBlockDelta(event.text)));
+      } else if (event.type === 'tool_call_start') {
+        if (state.hasSentBlockStart()) {
+          res.write(formatSSE('content_block_stop', state.buildContentBlockStop()));
+        }
+        const { event: start } = state.buildContentBlockStart({
+          type: 'tool_use',
+          id: event.id,
+          name: event.name,
+          input: {},
+        });
+        res.write(formatSSE('content_block_start', start));
+      } else if (event.type === 'tool_call_delta') {
+        res.write(formatSSE('content_block_delta', state.buildInputJsonDelta(event.arguments)));
+      } else {
+        res.write(formatSSE('content_block_stop', state.buildContentBlockStop()));
+      }
+    }
+  };
+
+  const writeText = (text: string) => {
+    if (!text) return;
+    if (toolParser) {
+      writeToolEvents(toolParser.push(text));
+    } else {
+      res.write(formatSSE('content_block_delta', state.buildContentBlockDelta(text)));
+    }
+  };
+
+  // Close any open block and send message_delta with the final stop reason
+  const writeMessageDelta = (upstreamReason: string, outputTokens?: number) => {
+    const stop = limiter.getStop();
+    let stopReason = stop?.reason ?? upstreamReason;
+    if (toolParser) {
+      writeToolEvents(toolParser.finish());
+      if (toolParser.getCallCount() > 0 && stopReason !== 'max_tokens') stopReason = 'tool_use';
+    }
+    if (state.hasSentBlockStart()) {
+      res.write(formatSSE('content_block_stop', state.buildContentBlockStop()));
+    }
+    const stopSequence = stop?.reason === 'stop_sequence' && stopReason === 'stop_sequence' ? stop.sequence : null;
+    res.write(formatSSE('message_delta', state.buildMessageDelta(stopReason, outputTokens, stopSequence)));
+  };
 
   const claudeManager = await getClaudeManager();
-  claudeManager.sendMessage(
-    prompt,
+  const handle = claudeManager.sendMessage(
+    input.prompt,
     // onEvent
     (msg: ClaudeStreamMessage) => {
+      if (finished) return;
+
       if (msg.type === 'stream_event' && msg.event) {
         const evt = msg.event;
 
@@ -166,32 +350,72 @@ async function handleStreamingResponse(
           }
         }
 
-        // Forward content_block_start
+        // Forward content_block_start; thinking blocks pass through as-is, ahead of any text
         if (evt.type === 'content_block_start') {
-          const { event, sent } = state.buildContentBlockStart();
-          if (sent) {
-            res.write(formatSSE('content_block_start', event));
+          upstreamBlockType = evt.content_block?.type;
+          if (isThinkingBlock(upstreamBlockType)) {
+            if (forwardThinking) {
+              if (state.hasSentBlockStart()) {
+                res.write(formatSSE('content_block_stop', state.buildContentBlockStop()));
+              }
+              const block: AnthropicContentBlock = upstreamBlockType === 'thinking'
+                ? { type: 'thinking', thinking: '', signature: '' }
+                : { type: 'redacted_thinking', data: evt.content_block?.data ?? '' };
+              res.write(formatSSE('content_block_start', state.buildContentBlockStart(block).event));
+            }
+          } else if (!toolParser) {
+            const { event, sent } = state.buildContentBlockStart();
+            if (sent) {
+              res.write(formatSSE('content_block_start', event));
+            }
+          }
+        }
+
+        // Forward thinking and signature deltas
+        if (evt.type === 'content_block_delta' && state.getOpenBlockType() === 'thinking') {
+          if (evt.delta?.type === 'thinking_delta' && evt.delta.thinking) {
+            res.write(formatSSE('content_block_delta', state.buildThinkingDelta(evt.delta.thinking)));
+          } else if (evt.delta?.type === 'signature_delta' && evt.delta.signature) {
+            res.write(formatSSE('content_block_delta', state.buildSignatureDelta(evt.delta.signature)));
           }
         }
 
         // Forward content_block_delta
         if (evt.type === 'content_block_delta' && evt.delta?.text) {
-          const event = state.buildContentBlockDelta(evt.delta.text);
-          res.write(formatSSE('content_block_delta', event));
+          writeText(limiter.push(evt.delta.text));
+
+          // Output limit reached: end the message and stop generating
+          const stop = limiter.getStop();
+          if (stop) {
+            finished = true;
+            writeMessageDelta(stop.reason, limiter.getOutputTokens());
+            res.write(formatSSE('message_stop', state.buildMessageStop()));
+            logger.info('Output limit reached', { reqId, reason: stop.reason });
+            handle.cancel();
+            res.end();
+            return;
+          }
         }
 
         // Forward content_block_stop
         if (evt.type === 'content_block_stop') {
-          const event = state.buildContentBlockStop();
-          res.write(formatSSE('content_block_stop', event));
+          if (isThinkingBlock(upstreamBlockType)) {
+            if (isThinkingBlock(state.getOpenBlockType() ?? undefined)) {
+              res.write(formatSSE('content_block_stop', state.buildContentBlockStop()));
+            }
+          } else if (!toolParser) {
+            writeText(limiter.finish());
+            const event = state.buildContentBlockStop();
+            res.write(formatSSE('content_block_stop', event));
+          }
+          upstreamBlockType = undefined;
         }
 
         // Forward message_delta
         if (evt.type === 'message_delta') {
-          const stopReason = evt.delta?.stop_reason || 'end_turn';
-          const outputTokens = evt.usage?.output_tokens;
-          const event = state.buildMessageDelta(stopReason, outputTokens);
-          res.write(formatSSE('message_delta', event));
+          if (toolParser) writeText(limiter.finish());
+          const outputTokens = limiter.getStop() ? limiter.getOutputTokens() : evt.usage?.output_tokens;
+          writeMessageDelta(evt.delta?.stop_reason || 'end_turn', outputTokens);
         }
 
         // Forward message_stop
@@ -208,55 +432,150 @@ async function handleStreamingResponse(
     },
     // onError
     (err: Error) => {
-      logger.error('Streaming error', { reqId, error: err.message });
+      const { type, message } = describeError(err);
+      logger.error('Streaming error', { reqId, error: message, type });
       res.write(formatSSE('error', {
         type: 'error',
-        error: { type: 'api_error', message: err.message },
+        error: { type, message },
       }));
       res.end();
     },
     // onDone
     (code: number) => {
+      if (res.writableEnded) return;
       logger.info('Streaming complete', { reqId });
       res.end();
+    },
+    {
+      affinityKey: request.metadata?.user_id,
+      model,
+      systemPrompt: input.systemPrompt,
+      history: input.history,
+      thinkingTokens: anthropicThinkingToTokens(request.thinking),
+      ...requestSendOptions(req),
     }
   );
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handle.cancel();
+  });
+}
+
+/**
+ * Parse tool call arguments into a tool_use input object
+ */
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    const input = JSON.parse(args);
+    return input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+  } catch {
+    return {};
+  }
 }
 
 /**
  * Handle non-streaming response
  */
 async function handleNonStreamingResponse(
+  req: IncomingMessage,
   res: ServerResponse,
   request: AnthropicMessagesRequest,
+  input: ClaudeRequestInput,
   reqId: string
 ): Promise<void> {
   const msgId = generateId('msg');
-  const model = request.model;
-
-  // Convert to prompt
-  const systemPrompt = typeof request.system === 'string'
-    ? request.system
-    : Array.isArray(request.system)
-      ? request.system.map(s => s.text).join('\n')
-      : undefined;
-
-  const prompt = anthropicMessagesToPrompt(request.messages, systemPrompt);
+  const model = resolveModelId(request.model);
 
+  const limits = outputLimits(request);
+  const limiter = new OutputLimiter(limits);
   let accumulatedText = '';
+  let streamedText = '';
+  const thinkingBlocks: AnthropicContentBlock[] = [];
   let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
   let stopReason: AnthropicMessagesResponse['stop_reason'] = 'end_turn';
+  let stopSequence: string | null = null;
+  let finished = false;
+  const toolParser = createToolParser(request);
+
+  const respond = (fullText: string) => {
+    finished = true;
+
+    let text = fullText;
+    const toolUses: AnthropicContentBlock[] = [];
+    if (toolParser) {
+      const parsed = parseToolCalls(fullText, {
+        maxCalls: request.tool_choice?.disable_parallel_tool_use ? 1 : undefined,
+        idPrefix: 'toolu',
+      });
+      text = parsed.text;
+      for (const call of parsed.calls) {
+        toolUses.push({ type: 'tool_use', id: call.id, name: call.name, input: parseToolInput(call.arguments) });
+      }
+      if (toolUses.length > 0 && stopReason !== 'max_tokens') {
+        stopReason = 'tool_use';
+        stopSequence = null;
+      }
+    }
+
+    const content: AnthropicContentBlock[] = [
+      ...(forwardsThinking(request) ? thinkingBlocks : []),
+      ...(text ? [{ type: 'text' as const, text }] : []),
+      ...toolUses,
+    ];
+
+    const response: AnthropicMessagesResponse = {
+      id: msgId,
+      type: 'message',
+      role: 'assistant',
+      content,
+      model,
+      stop_reason: stopReason,
+      stop_sequence: stopSequence,
+      usage,
+    };
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  };
+
+  // Record why the proxy cut the output
+  const applyStop = (stop: OutputStop, text: string) => {
+    stopReason = stop.reason;
+    stopSequence = stop.reason === 'stop_sequence' ? stop.sequence : null;
+    usage = { ...usage, output_tokens: estimateTokens(text) };
+  };
 
   const claudeManager = await getClaudeManager();
-  claudeManager.sendMessage(
-    prompt,
+  const handle = claudeManager.sendMessage(
+    input.prompt,
     // onEvent
     (msg: ClaudeStreamMessage) => {
+      if (finished) return;
+
+      // Watch streamed text so generation stops as soon as a limit is hit
+      if (msg.type === 'stream_event' && msg.event?.type === 'content_block_delta' && msg.event.delta?.text) {
+        streamedText += limiter.push(msg.event.delta.text);
+        const stop = limiter.getStop();
+        if (stop) {
+          applyStop(stop, streamedText);
+          logger.info('Output limit reached', { reqId, reason: stop.reason, textLength: streamedText.length });
+          handle.cancel();
+          respond(streamedText);
+          return;
+        }
+      }
+
       // Accumulate text from assistant messages
       if (msg.type === 'assistant' && msg.message?.content) {
         for (const block of msg.message.content) {
           if (block.type === 'text' && block.text) {
             accumulatedText += block.text;
+          } else if (block.type === 'thinking') {
+            thinkingBlocks.push({ type: 'thinking', thinking: block.thinking ?? '', signature: block.signature ?? '' });
+          } else if (block.type === 'redacted_thinking') {
+            thinkingBlocks.push({ type: 'redacted_thinking', data: block.data ?? '' });
           }
         }
       }
@@ -285,40 +604,42 @@ async function handleNonStreamingResponse(
     },
     // onError
     (err: Error) => {
-      logger.error('Non-streaming error', { reqId, error: err.message });
-      res.writeHead(500, { 'Content-Type': 'application/json' });
+      const { statusCode, type, message } = describeError(err);
+      logger.error('Non-streaming error', { reqId, error: message, type });
+      res.writeHead(statusCode, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
         type: 'error',
-        error: { type: 'api_error', message: err.message },
+        error: { type, message },
       }));
     },
     // onDone
     (code: number) => {
+      if (finished) return;
       logger.info('Non-streaming complete', {
         reqId,
         textLength: accumulatedText.length,
         usage,
       });
 
-      const content: AnthropicContentBlock[] = accumulatedText
-        ? [{ type: 'text', text: accumulatedText }]
-        : [];
-
-      const response: AnthropicMessagesResponse = {
-        id: msgId,
-        type: 'message',
-        role: 'assistant',
-        content,
-        model,
-        stop_reason: stopReason,
-        stop_sequence: null,
-        usage,
-      };
-
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(response));
+      const limited = applyOutputLimits(accumulatedText, limits);
+      if (limited.stop) applyStop(limited.stop, limited.text);
+      respond(limited.text);
+    },
+    {
+      affinityKey: request.metadata?.user_id,
+      model,
+      systemPrompt: input.systemPrompt,
+      history: input.history,
+      thinkingTokens: anthropicThinkingToTokens(request.thinking),
+      ...requestSendOptions(req),
     }
   );
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handle.cancel();
+  });
 }
 
 /**
@@ -342,13 +663,39 @@ export async function handleAnthropicMessages(
   }
 
   const request = validation.request!;
-  logRequestParams(reqId, request);
+  logRequestParams(reqId, request, getRequestContext(req).keyName);
+  setRequestContext(req, { model: request.model, resolvedModel: resolveModelId(request.model) });
+
+  const rejected = checkParameters(req, res, request, supportedParameters, reqId);
+  if (rejected) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      type: 'error',
+      error: { type: 'invalid_request_error', message: unsupportedParameterMessage(rejected), param: rejected },
+    }));
+    return;
+  }
+
+  // Resolve images before anything is sent so bad input is a plain 400
+  let input: ClaudeRequestInput;
+  try {
+    input = await buildInput(request);
+  } catch (err) {
+    const { statusCode, type, message } = describeError(err as Error);
+    logger.warn('Rejected request input', { reqId, error: message });
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      type: 'error',
+      error: { type, message },
+    }));
+    return;
+  }
 
   // Handle streaming vs non-streaming
   if (request.stream) {
-    handleStreamingResponse(res, request, reqId);
+    handleStreamingResponse(req, res, request, input, reqId);
   } else {
-    handleNonStreamingResponse(res, request, reqId);
+    handleNonStreamingResponse(req, res, request, input, reqId);
   }
 }
 
@@ -366,10 +713,13 @@ export const supportedParameters = {
     'top_k',
     'tools',
     'tool_choice',
+    'thinking',
     'metadata',
   ],
   passthrough: [
-    // These are accepted but may not affect Claude CLI behavior
+    // These are accepted but have no effect; reported in x-proxy-ignored-params
+    'temperature',
+    'top_p',
     'top_k',
   ],
 };
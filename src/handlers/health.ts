@@ -5,6 +5,15 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import { config } from '../core/config.js';
 import { logger } from '../core/logger.js';
+import type { WorkerStatus } from '../core/claude-worker.js';
+import type { SessionCacheStats } from '../core/session-cache.js';
+import type { CredentialSource } from '../core/types.js';
+import { credentialRefresher } from '../core/credential-refresh.js';
+import type { RefreshResult } from '../core/credential-refresh.js';
+import { accountPool } from '../core/account-pool.js';
+import type { AccountPoolStatus } from '../core/account-pool.js';
+import { tracer } from '../core/tracing.js';
+import type { TracerStatus } from '../core/tracing.js';
 
 // Lazy import to avoid loading ClaudeProcessManager on module init
 let _claudeManager: typeof import('../core/claude-manager.js').claudeManager | null = null;
@@ -25,13 +34,37 @@ export interface HealthResponse {
   timestamp: string;
   credentials: {
     configured: boolean;
+    source: CredentialSource;
+    file?: string;
     subscriptionType?: string;
+    expiresAt?: string;
+    refresh?: {
+      enabled: boolean;
+      nextRefreshAt?: string;
+      lastRefresh?: RefreshResult;
+    };
   };
+  accounts?: AccountPoolStatus;
+  tracing?: TracerStatus;
   process: {
     alive: boolean;
     requestCount: number;
     queueLength: number;
     pid?: number;
+    pool?: {
+      minWorkers: number;
+      maxWorkers: number;
+      idleTimeoutMs: number;
+    };
+    workers?: WorkerStatus[];
+    cancelledCount?: number;
+    timeouts?: {
+      firstToken: number;
+      idle: number;
+      total: number;
+    };
+    watchdogRestarts?: number;
+    sessions?: SessionCacheStats;
   };
   endpoints: {
     openai: string[];
@@ -46,20 +79,35 @@ export async function getHealthStatus(): Promise<HealthResponse> {
   const creds = config.getCredentials();
   const claudeManager = await getClaudeManager();
   const processStatus = claudeManager.getStatus();
+  const { expiresAt, ...refresh } = credentialRefresher.getStatus();
+  const accounts = accountPool.size > 0 ? accountPool.getStatus() : undefined;
+  const accountsDown = accounts?.accounts.every(account => account.status === 'cooling_down') ?? false;
 
   return {
-    status: processStatus.alive ? 'healthy' : 'degraded',
+    status: processStatus.alive && !accountsDown ? 'healthy' : 'degraded',
     version: 'v7-modular',
     timestamp: new Date().toISOString(),
     credentials: {
       configured: config.hasValidCredentials(),
+      source: config.getCredentialSource(),
+      file: config.getCredentialSource() === 'file' ? config.getCredentialsFilePath() : undefined,
       subscriptionType: creds?.subscriptionType,
+      expiresAt,
+      refresh,
     },
+    accounts,
+    tracing: tracer.isEnabled() ? tracer.getStatus() : undefined,
     process: {
       alive: processStatus.alive,
       requestCount: processStatus.requestCount,
       queueLength: processStatus.queueLength,
       pid: processStatus.pid,
+      pool: processStatus.pool,
+      workers: processStatus.workers,
+      cancelledCount: processStatus.cancelledCount,
+      timeouts: processStatus.timeouts,
+      watchdogRestarts: processStatus.watchdogRestarts,
+      sessions: processStatus.sessions,
     },
     endpoints: {
       openai: [
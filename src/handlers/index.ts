@@ -8,6 +8,12 @@ export {
   supportedParameters as openaiSupportedParameters,
 } from './openai-chat.js';
 
+export {
+  handleOpenAIResponses,
+  validateRequest as validateResponsesRequest,
+  supportedParameters as responsesSupportedParameters,
+} from './openai-responses.js';
+
 export {
   handleAnthropicMessages,
   validateRequest as validateAnthropicRequest,
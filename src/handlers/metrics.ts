@@ -0,0 +1,51 @@
+/**
+ * Metrics Handler
+ * GET /metrics in the Prometheus text exposition format
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { logger } from '../core/logger.js';
+import { registry, proxyMetrics } from '../core/metrics.js';
+
+// Lazy import to avoid loading ClaudeProcessManager on module init
+let _claudeManager: typeof import('../core/claude-manager.js').claudeManager | null = null;
+async function getClaudeManager() {
+  if (!_claudeManager) {
+    const mod = await import('../core/claude-manager.js');
+    _claudeManager = mod.claudeManager;
+  }
+  return _claudeManager;
+}
+
+/**
+ * Refresh the gauges read from the worker pool
+ */
+async function collectPoolMetrics(): Promise<void> {
+  const claudeManager = await getClaudeManager();
+  const status = claudeManager.getStatus();
+
+  proxyMetrics.queueDepth.set(status.queueLength);
+  for (const state of ['idle', 'busy'] as const) {
+    proxyMetrics.workers.set(status.workers.filter(w => w.state === state).length, { state });
+  }
+}
+
+/**
+ * Handle GET /metrics
+ */
+export async function handleMetrics(
+  req: IncomingMessage,
+  res: ServerResponse,
+  reqId: string
+): Promise<void> {
+  logger.debug('Metrics request', { reqId });
+
+  await collectPoolMetrics();
+
+  res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  res.end(registry.render());
+}
+
+export default {
+  handleMetrics,
+};
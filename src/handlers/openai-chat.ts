@@ -9,9 +9,52 @@ import type {
   OpenAIChatCompletionResponse,
   ClaudeStreamMessage,
   AnthropicUsage,
+  OpenAIToolCall,
+  ToolStreamEvent,
+  OpenAIMessage,
+  ClaudeRequestInput,
+  OutputLimits,
 } from '../core/types.js';
+import type { RequestHandle } from '../core/claude-manager.js';
 import { logger } from '../core/logger.js';
-import { openaiMessagesToPrompt } from '../converters/messages.js';
+import { config } from '../core/config.js';
+import { describeError } from '../core/errors.js';
+import { resolveModelId } from './models.js';
+import {
+  onClientDisconnect,
+  getRequestContext,
+  setRequestContext,
+  requestSendOptions,
+  applyRateLimit,
+} from '../server/middleware.js';
+import { checkParameters, unsupportedParameterMessage } from './parameters.js';
+import {
+  openaiMessagesToInput,
+  openaiMessagesToConversation,
+  extractSystemMessage,
+} from '../converters/messages.js';
+import {
+  openaiToolsToDefinitions,
+  openaiToolChoiceToMode,
+  toolsEnabled,
+  buildToolPrompt,
+  parseToolCalls,
+  ToolCallParser,
+} from '../converters/tools.js';
+import {
+  OutputLimiter,
+  applyOutputLimits,
+  estimateTokens,
+  normalizeStopSequences,
+} from '../converters/limits.js';
+import {
+  wantsJsonOutput,
+  buildJsonFormatPrompt,
+  parseJsonOutput,
+  buildJsonRetryPrompt,
+  buildJsonErrorContent,
+} from '../converters/json-output.js';
+import { reasoningEffortToThinkingTokens, REASONING_EFFORT_BUDGETS } from '../converters/thinking.js';
 
 // Lazy import to avoid loading ClaudeProcessManager on module init
 let _claudeManager: typeof import('../core/claude-manager.js').claudeManager | null = null;
@@ -25,16 +68,31 @@ async function getClaudeManager() {
 import {
   generateId,
   buildChatCompletionResponse,
+  buildChatCompletionUsageChunk,
+  mergeChatCompletionResponses,
+  sumOpenAIUsage,
   OpenAIStreamingState,
   formatOpenAISSE,
 } from '../converters/responses.js';
 
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Name of a chat completions function tool, if it is one
+ */
+function functionToolName(tool: unknown): unknown {
+  return isObject(tool) && tool.type === 'function' && isObject(tool.function) ? tool.function.name : undefined;
+}
+
 /**
  * Validate OpenAI chat completion request
  */
 export function validateRequest(body: unknown): {
   valid: boolean;
   error?: string;
+  param?: string;
   request?: OpenAIChatCompletionRequest;
 } {
   if (!body || typeof body !== 'object') {
@@ -75,7 +133,12 @@ export function validateRequest(body: unknown): {
   if (req.n !== undefined) {
     const n = req.n as number;
     if (typeof n !== 'number' || n < 1 || !Number.isInteger(n)) {
-      return { valid: false, error: 'n must be a positive integer' };
+      return { valid: false, error: 'n must be a positive integer', param: 'n' };
+    }
+    // Each choice is a CLI turn on the shared worker pool
+    const maxChoices = config.getMaxChoices();
+    if (n > maxChoices) {
+      return { valid: false, error: `n must be at most ${maxChoices}`, param: 'n' };
     }
   }
 
@@ -87,6 +150,47 @@ export function validateRequest(body: unknown): {
     return { valid: false, error: 'max_completion_tokens must be a number' };
   }
 
+  if (req.response_format !== undefined) {
+    const format = isObject(req.response_format) ? req.response_format : {};
+    if (typeof format.type !== 'string' || !['text', 'json_object', 'json_schema'].includes(format.type)) {
+      return { valid: false, error: 'response_format.type must be one of text, json_object, json_schema' };
+    }
+    if (format.type === 'json_schema') {
+      const spec = isObject(format.json_schema) ? format.json_schema : undefined;
+      if (!spec || typeof spec.name !== 'string' || !spec.name) {
+        return { valid: false, error: 'response_format.json_schema.name is required' };
+      }
+      if (spec.schema !== undefined && (typeof spec.schema !== 'object' || spec.schema === null)) {
+        return { valid: false, error: 'response_format.json_schema.schema must be an object' };
+      }
+    }
+  }
+
+  if (req.reasoning_effort !== undefined && !(req.reasoning_effort as string in REASONING_EFFORT_BUDGETS)) {
+    return { valid: false, error: 'reasoning_effort must be one of minimal, low, medium, high' };
+  }
+
+  if (req.tools !== undefined) {
+    if (!Array.isArray(req.tools)) {
+      return { valid: false, error: 'tools must be an array' };
+    }
+    for (const tool of req.tools) {
+      const name = functionToolName(tool);
+      if (typeof name !== 'string' || !name) {
+        return { valid: false, error: 'each tool must be a function with a name' };
+      }
+    }
+  }
+
+  if (req.tool_choice !== undefined && typeof req.tool_choice === 'object' && req.tool_choice !== null) {
+    const choice = req.tool_choice as Record<string, unknown>;
+    const name = isObject(choice.function) ? choice.function.name : undefined;
+    const tools: unknown[] = Array.isArray(req.tools) ? req.tools : [];
+    if (!tools.some(tool => functionToolName(tool) === name)) {
+      return { valid: false, error: `tool_choice references unknown tool: ${name}` };
+    }
+  }
+
   if (req.frequency_penalty !== undefined) {
     const fp = req.frequency_penalty as number;
     if (typeof fp !== 'number' || fp < -2 || fp > 2) {
@@ -107,8 +211,9 @@ export function validateRequest(body: unknown): {
 /**
  * Log request parameters for debugging
  */
-function logRequestParams(reqId: string, request: OpenAIChatCompletionRequest): void {
+function logRequestParams(reqId: string, request: OpenAIChatCompletionRequest, keyName?: string): void {
   const params: Record<string, unknown> = {
+    ...(keyName ? { key: keyName } : {}),
     model: request.model,
     messagesCount: request.messages.length,
     stream: request.stream,
@@ -132,17 +237,68 @@ function logRequestParams(reqId: string, request: OpenAIChatCompletionRequest):
   logger.info('OpenAI chat completion request', { reqId, ...params });
 }
 
+/**
+ * Build the CLI input, including tool instructions when tools are in play
+ */
+async function buildInput(request: OpenAIChatCompletionRequest): Promise<ClaudeRequestInput> {
+  const toolPrompt = buildToolPrompt(
+    openaiToolsToDefinitions(request.tools),
+    openaiToolChoiceToMode(request.tool_choice),
+    request.parallel_tool_calls !== false
+  );
+  const { system, remainingMessages } = extractSystemMessage(request.messages);
+  const jsonPrompt = buildJsonFormatPrompt(request.response_format);
+  const systemPrompt = [system, toolPrompt, jsonPrompt].filter(Boolean).join('\n\n') || undefined;
+  const imageConfig = config.getImageConfig();
+
+  if (config.getConversationMode() === 'replay') {
+    const conversation = await openaiMessagesToConversation(remainingMessages, imageConfig);
+    if (conversation) return { ...conversation, systemPrompt };
+  }
+  return { prompt: await openaiMessagesToInput(remainingMessages, imageConfig), systemPrompt };
+}
+
+/**
+ * Check whether the output should be scanned for tool calls
+ */
+function usesTools(request: OpenAIChatCompletionRequest): boolean {
+  return toolsEnabled(
+    openaiToolsToDefinitions(request.tools),
+    openaiToolChoiceToMode(request.tool_choice)
+  );
+}
+
+/**
+ * Thinking is returned as reasoning_content only when the client asked for reasoning
+ */
+function forwardsReasoning(request: OpenAIChatCompletionRequest): boolean {
+  return request.reasoning_effort !== undefined && request.reasoning_effort !== 'minimal';
+}
+
+/**
+ * Limits the proxy enforces on the output
+ */
+function outputLimits(request: OpenAIChatCompletionRequest): OutputLimits {
+  return {
+    maxTokens: request.max_completion_tokens ?? request.max_tokens,
+    stopSequences: normalizeStopSequences(request.stop),
+  };
+}
+
 /**
  * Handle streaming response
  */
 async function handleStreamingResponse(
+  req: IncomingMessage,
   res: ServerResponse,
   request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
   reqId: string
 ): Promise<void> {
   const msgId = generateId('chatcmpl');
-  const model = request.model;
+  const model = resolveModelId(request.model);
   const includeUsage = request.stream_options?.include_usage ?? false;
+  const n = request.n ?? 1;
 
   // Set streaming headers
   res.writeHead(200, {
@@ -152,142 +308,513 @@ async function handleStreamingResponse(
     'X-Accel-Buffering': 'no',
   });
 
-  const prompt = openaiMessagesToPrompt(request.messages);
-  const state = new OpenAIStreamingState(msgId, model);
-  let accumulatedText = '';
+  const states: OpenAIStreamingState[] = [];
+  const handles: RequestHandle[] = [];
+  let pending = n;
+  let finishedChoices = 0;
+  let textLength = 0;
+
+  // Close the stream once every choice is done
+  const completeChoice = () => {
+    if (--pending > 0 || res.writableEnded) return;
+
+    if (finishedChoices === n) {
+      // With several choices, usage covers all of them and follows the last finish chunk
+      if (n > 1 && includeUsage) {
+        const usage = sumOpenAIUsage(states.map(state => state.getUsage()));
+        res.write(formatOpenAISSE(buildChatCompletionUsageChunk(msgId, model, usage)));
+      }
+      res.write('data: [DONE]\n\n');
+    }
+    logger.info('Streaming complete', {
+      reqId,
+      usage: sumOpenAIUsage(states.map(state => state.getUsage())),
+      textLength,
+      choices: n,
+    });
+    res.end();
+  };
 
   const claudeManager = await getClaudeManager();
-  claudeManager.sendMessage(
-    prompt,
-    // onEvent
-    (msg: ClaudeStreamMessage) => {
-      if (msg.type === 'stream_event' && msg.event) {
-        const evt = msg.event;
-
-        // Handle message_start - send role chunk
-        if (evt.type === 'message_start' && !state.hasSentRole()) {
-          const chunk = state.buildRoleChunk();
-          res.write(formatOpenAISSE(chunk));
-
-          // Update usage from message_start
-          if (evt.message?.usage) {
-            state.updateUsage(evt.message.usage);
+
+  const streamChoice = (index: number): RequestHandle => {
+    const state = new OpenAIStreamingState(msgId, model, index);
+    states.push(state);
+    const toolParser = usesTools(request)
+      ? new ToolCallParser({ maxCalls: request.parallel_tool_calls === false ? 1 : undefined })
+      : null;
+    const limiter = new OutputLimiter(outputLimits(request));
+    const forwardReasoning = forwardsReasoning(request);
+    let finished = false;
+    let done = false;
+    let upstreamStopReason: string | undefined;
+
+    const writeToolEvents = (events: ToolStreamEvent[]) => {
+      for (const event of events) {
+        if (event.type === 'text') {
+          res.write(formatOpenAISSE(state.buildContentChunk(event.text)));
+        } else if (event.type === 'tool_call_start') {
+          res.write(formatOpenAISSE(state.buildToolCallStartChunk(event.index, event.id, event.name)));
+        } else if (event.type === 'tool_call_delta') {
+          res.write(formatOpenAISSE(state.buildToolCallArgumentsChunk(event.index, event.arguments)));
+        }
+      }
+    };
+
+    const writeText = (text: string) => {
+      if (!text) return;
+      if (toolParser) {
+        writeToolEvents(toolParser.push(text));
+      } else {
+        res.write(formatOpenAISSE(state.buildContentChunk(text)));
+      }
+      textLength += text.length;
+    };
+
+    const writeFinish = (stopReason: string) => {
+      finished = true;
+      finishedChoices++;
+      if (toolParser) {
+        writeToolEvents(toolParser.finish());
+      }
+      res.write(formatOpenAISSE(state.buildFinalChunk(stopReason, includeUsage && n === 1)));
+    };
+
+    const markDone = () => {
+      if (done) return;
+      done = true;
+      completeChoice();
+    };
+
+    const handle = claudeManager.sendMessage(
+      input.prompt,
+      // onEvent
+      (msg: ClaudeStreamMessage) => {
+        if (finished || res.writableEnded) return;
+
+        if (msg.type === 'stream_event' && msg.event) {
+          const evt = msg.event;
+
+          // Handle message_start - send role chunk
+          if (evt.type === 'message_start' && !state.hasSentRole()) {
+            const chunk = state.buildRoleChunk();
+            res.write(formatOpenAISSE(chunk));
+
+            // Update usage from message_start
+            if (evt.message?.usage) {
+              state.updateUsage(evt.message.usage);
+            }
+          }
+
+          // Handle thinking deltas - send reasoning_content chunks
+          if (evt.type === 'content_block_delta' && evt.delta?.type === 'thinking_delta' && evt.delta.thinking) {
+            if (forwardReasoning) {
+              res.write(formatOpenAISSE(state.buildReasoningChunk(evt.delta.thinking)));
+            }
+          }
+
+          // Handle content_block_delta - send content chunks
+          if (evt.type === 'content_block_delta' && evt.delta?.text) {
+            writeText(limiter.push(evt.delta.text));
+
+            // Output limit reached: finish the choice and stop generating
+            const stop = limiter.getStop();
+            if (stop) {
+              state.updateUsage({ output_tokens: limiter.getOutputTokens() });
+              writeFinish(stop.reason);
+              logger.info('Output limit reached', { reqId, index, reason: stop.reason });
+              handle.cancel();
+              markDone();
+              return;
+            }
+          }
+
+          // Handle message_delta - update usage and get stop reason
+          if (evt.type === 'message_delta') {
+            if (evt.usage) {
+              state.updateUsage(evt.usage);
+            }
+            if (evt.delta?.stop_reason) {
+              upstreamStopReason = evt.delta.stop_reason;
+            }
+          }
+
+          // Handle message_stop - send final chunk
+          if (evt.type === 'message_stop') {
+            writeText(limiter.finish());
+            writeFinish(limiter.getStop()?.reason ?? upstreamStopReason ?? 'end_turn');
           }
         }
+      },
+      // onError
+      (err: Error) => {
+        if (res.writableEnded) return;
+        const { type, message, code } = describeError(err);
+        logger.error('Streaming error', { reqId, index, error: message, type });
+        res.write(formatOpenAISSE({ error: { message, type, code } }));
+        res.end();
+        handles.forEach(other => other.cancel());
+      },
+      // onDone
+      (code: number) => markDone(),
+      {
+        affinityKey: request.user,
+        model,
+        systemPrompt: input.systemPrompt,
+        history: input.history,
+        thinkingTokens: reasoningEffortToThinkingTokens(request.reasoning_effort),
+        ...requestSendOptions(req),
+      }
+    );
+    return handle;
+  };
+
+  // Each choice is an independent CLI turn; the pool runs them concurrently
+  for (let index = 0; index < n; index++) {
+    handles.push(streamChoice(index));
+  }
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handles.forEach(handle => handle.cancel());
+  });
+}
+
+/**
+ * Text and usage of one generated choice
+ */
+interface ChoiceResult {
+  text: string;
+  reasoning: string;
+  stopReason: string;
+  usage: AnthropicUsage;
+}
 
-        // Handle content_block_delta - send content chunks
-        if (evt.type === 'content_block_delta' && evt.delta?.text) {
-          const chunk = state.buildContentChunk(evt.delta.text);
-          res.write(formatOpenAISSE(chunk));
-          accumulatedText += evt.delta.text;
+/**
+ * Run one CLI turn for a non-streaming choice, enforcing output limits
+ */
+function generateChoice(
+  claudeManager: Awaited<ReturnType<typeof getClaudeManager>>,
+  req: IncomingMessage,
+  request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
+  model: string,
+  index: number,
+  reqId: string
+): { handle: RequestHandle; result: Promise<ChoiceResult> } {
+  const limits = outputLimits(request);
+  const limiter = new OutputLimiter(limits);
+  let accumulatedText = '';
+  let streamedText = '';
+  let reasoning = '';
+  let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+  let stopReason: string = 'end_turn';
+  let finished = false;
+  let handle!: RequestHandle;
+
+  const result = new Promise<ChoiceResult>((resolve, reject) => {
+    const finish = (text: string) => {
+      finished = true;
+      resolve({ text, reasoning: forwardsReasoning(request) ? reasoning : '', stopReason, usage });
+    };
+
+    handle = claudeManager.sendMessage(
+      input.prompt,
+      // onEvent
+      (msg: ClaudeStreamMessage) => {
+        if (finished) return;
+
+        // Watch streamed text so generation stops as soon as a limit is hit
+        if (msg.type === 'stream_event' && msg.event?.type === 'message_start' && msg.event.message?.usage) {
+          usage = { ...usage, ...msg.event.message.usage };
+        }
+        if (msg.type === 'stream_event' && msg.event?.type === 'content_block_delta' && msg.event.delta?.text) {
+          streamedText += limiter.push(msg.event.delta.text);
+          const stop = limiter.getStop();
+          if (stop) {
+            usage = { ...usage, output_tokens: limiter.getOutputTokens() };
+            stopReason = stop.reason;
+            logger.info('Output limit reached', { reqId, index, reason: stop.reason, textLength: streamedText.length });
+            handle.cancel();
+            finish(streamedText);
+            return;
+          }
         }
 
-        // Handle message_delta - update usage and get stop reason
-        if (evt.type === 'message_delta') {
-          if (evt.usage) {
-            state.updateUsage(evt.usage);
+        // Accumulate text from assistant messages
+        if (msg.type === 'assistant' && msg.message?.content) {
+          for (const block of msg.message.content) {
+            if (block.type === 'text' && block.text) {
+              accumulatedText += block.text;
+            } else if (block.type === 'thinking' && block.thinking) {
+              reasoning += block.thinking;
+            }
           }
         }
 
-        // Handle message_stop - send final chunk
-        if (evt.type === 'message_stop') {
-          const chunk = state.buildFinalChunk('end_turn', includeUsage);
-          res.write(formatOpenAISSE(chunk));
-          res.write('data: [DONE]\n\n');
+        // Get usage from result
+        if (msg.type === 'result' && msg.usage) {
+          usage = msg.usage;
+        }
+
+        // Get stop reason from stream events
+        if (msg.type === 'stream_event' && msg.event?.type === 'message_delta') {
+          if (msg.event.delta?.stop_reason) {
+            stopReason = msg.event.delta.stop_reason;
+          }
+          if (msg.event.usage) {
+            usage = { ...usage, ...msg.event.usage };
+          }
+        }
+      },
+      // onError
+      (err: Error) => {
+        finished = true;
+        reject(err);
+      },
+      // onDone
+      (code: number) => {
+        if (finished) return;
+        const limited = applyOutputLimits(accumulatedText, limits);
+        if (limited.stop) {
+          stopReason = limited.stop.reason;
+          usage = { ...usage, output_tokens: estimateTokens(limited.text) };
         }
+        finish(limited.text);
+      },
+      {
+        affinityKey: request.user,
+        model,
+        systemPrompt: input.systemPrompt,
+        history: input.history,
+        thinkingTokens: reasoningEffortToThinkingTokens(request.reasoning_effort),
+        ...requestSendOptions(req),
       }
-    },
-    // onError
-    (err: Error) => {
-      logger.error('Streaming error', { reqId, error: err.message });
-      res.write(formatOpenAISSE({ error: { message: err.message, type: 'api_error' } }));
-      res.end();
-    },
-    // onDone
-    (code: number) => {
-      logger.info('Streaming complete', {
-        reqId,
-        usage: state.getUsage(),
-        textLength: accumulatedText.length,
-      });
-      res.end();
+    );
+  });
+
+  return { handle, result };
+}
+
+/**
+ * Split the tool calls out of a choice's text when tools are in play
+ */
+function splitToolCalls(
+  request: OpenAIChatCompletionRequest,
+  text: string
+): { content: string; toolCalls: OpenAIToolCall[] } {
+  if (!usesTools(request)) return { content: text, toolCalls: [] };
+
+  const parsed = parseToolCalls(text, {
+    maxCalls: request.parallel_tool_calls === false ? 1 : undefined,
+  });
+  return {
+    content: parsed.text,
+    toolCalls: parsed.calls.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  };
+}
+
+/**
+ * Turn a choice written for a JSON response format into clean JSON, asking
+ * the model once more with the validation errors when it is not
+ */
+async function enforceJsonOutput(
+  claudeManager: Awaited<ReturnType<typeof getClaudeManager>>,
+  req: IncomingMessage,
+  request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
+  model: string,
+  index: number,
+  reqId: string,
+  result: ChoiceResult,
+  handles: RequestHandle[]
+): Promise<ChoiceResult> {
+  const format = request.response_format!;
+  if (splitToolCalls(request, result.text).toolCalls.length > 0) return result;
+
+  let check = parseJsonOutput(result.text, format);
+  if (!check.ok && config.getJsonRetry()) {
+    logger.info('Retrying choice with invalid JSON output', { reqId, index, errors: check.errors.join('; ') });
+    const retryInput: ClaudeRequestInput = {
+      ...input,
+      systemPrompt: [input.systemPrompt, buildJsonRetryPrompt(result.text, check.errors)].filter(Boolean).join('\n\n'),
+    };
+    const retry = generateChoice(claudeManager, req, request, retryInput, model, index, reqId);
+    handles.push(retry.handle);
+    const retried = await retry.result;
+
+    // Both turns count towards usage
+    result = {
+      ...retried,
+      usage: {
+        ...retried.usage,
+        input_tokens: result.usage.input_tokens + retried.usage.input_tokens,
+        output_tokens: result.usage.output_tokens + retried.usage.output_tokens,
+      },
+    };
+    check = parseJsonOutput(result.text, format);
+  }
+
+  if (check.ok) return { ...result, text: check.json };
+  logger.warn('Choice did not produce valid JSON', { reqId, index, errors: check.errors.join('; ') });
+  return { ...result, text: buildJsonErrorContent(check.errors, result.text) };
+}
+
+/**
+ * Generate all requested choices. Each is an independent CLI turn; the pool
+ * runs them concurrently. Handles of every turn started are added to `handles`.
+ */
+function collectChoices(
+  claudeManager: Awaited<ReturnType<typeof getClaudeManager>>,
+  req: IncomingMessage,
+  request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
+  model: string,
+  reqId: string,
+  handles: RequestHandle[]
+): Promise<ChoiceResult[]> {
+  return Promise.all(Array.from({ length: request.n ?? 1 }, async (_, index) => {
+    const choice = generateChoice(claudeManager, req, request, input, model, index, reqId);
+    handles.push(choice.handle);
+    const result = await choice.result;
+    return wantsJsonOutput(request.response_format)
+      ? enforceJsonOutput(claudeManager, req, request, input, model, index, reqId, result, handles)
+      : result;
+  }));
+}
+
+/**
+ * Handle a streaming request whose output must be checked before it is sent
+ * (JSON response formats). The choices are generated in full, then streamed.
+ */
+async function handleBufferedStreamingResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
+  reqId: string
+): Promise<void> {
+  const msgId = generateId('chatcmpl');
+  const model = resolveModelId(request.model);
+  const includeUsage = request.stream_options?.include_usage ?? false;
+  const n = request.n ?? 1;
+
+  // Set streaming headers
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const claudeManager = await getClaudeManager();
+  const handles: RequestHandle[] = [];
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handles.forEach(handle => handle.cancel());
+  });
+
+  let results: ChoiceResult[];
+  try {
+    results = await collectChoices(claudeManager, req, request, input, model, reqId, handles);
+  } catch (err) {
+    handles.forEach(handle => handle.cancel());
+    if (res.writableEnded) return;
+    const { type, message, code } = describeError(err as Error);
+    logger.error('Streaming error', { reqId, error: message, type });
+    res.write(formatOpenAISSE({ error: { message, type, code } }));
+    res.end();
+    return;
+  }
+  if (res.writableEnded) return;
+
+  const states = results.map((result, index) => {
+    const state = new OpenAIStreamingState(msgId, model, index);
+    const { content, toolCalls } = splitToolCalls(request, result.text);
+
+    res.write(formatOpenAISSE(state.buildRoleChunk()));
+    if (result.reasoning) {
+      res.write(formatOpenAISSE(state.buildReasoningChunk(result.reasoning)));
     }
-  );
+    if (content) {
+      res.write(formatOpenAISSE(state.buildContentChunk(content)));
+    }
+    toolCalls.forEach((call, callIndex) => {
+      res.write(formatOpenAISSE(state.buildToolCallStartChunk(callIndex, call.id, call.function.name)));
+      res.write(formatOpenAISSE(state.buildToolCallArgumentsChunk(callIndex, call.function.arguments)));
+    });
+    state.updateUsage(result.usage);
+    res.write(formatOpenAISSE(state.buildFinalChunk(result.stopReason, includeUsage && n === 1)));
+    return state;
+  });
+
+  const usage = sumOpenAIUsage(states.map(state => state.getUsage()));
+  if (n > 1 && includeUsage) {
+    res.write(formatOpenAISSE(buildChatCompletionUsageChunk(msgId, model, usage)));
+  }
+  res.write('data: [DONE]\n\n');
+  logger.info('Streaming complete', { reqId, usage, choices: n, buffered: true });
+  res.end();
 }
 
 /**
  * Handle non-streaming response
  */
 async function handleNonStreamingResponse(
+  req: IncomingMessage,
   res: ServerResponse,
   request: OpenAIChatCompletionRequest,
+  input: ClaudeRequestInput,
   reqId: string
 ): Promise<void> {
   const msgId = generateId('chatcmpl');
-  const model = request.model;
+  const model = resolveModelId(request.model);
 
-  const prompt = openaiMessagesToPrompt(request.messages);
-  let accumulatedText = '';
-  let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
-  let stopReason: string = 'end_turn';
+  const buildResponse = ({ text, reasoning, stopReason, usage }: ChoiceResult) => {
+    const { content, toolCalls } = splitToolCalls(request, text);
+    return buildChatCompletionResponse(msgId, model, content, usage, stopReason as any, toolCalls, reasoning);
+  };
 
   const claudeManager = await getClaudeManager();
-  claudeManager.sendMessage(
-    prompt,
-    // onEvent
-    (msg: ClaudeStreamMessage) => {
-      // Accumulate text from assistant messages
-      if (msg.type === 'assistant' && msg.message?.content) {
-        for (const block of msg.message.content) {
-          if (block.type === 'text' && block.text) {
-            accumulatedText += block.text;
-          }
-        }
-      }
+  const handles: RequestHandle[] = [];
 
-      // Get usage from result
-      if (msg.type === 'result' && msg.usage) {
-        usage = msg.usage;
-      }
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handles.forEach(handle => handle.cancel());
+  });
 
-      // Get stop reason from stream events
-      if (msg.type === 'stream_event' && msg.event?.type === 'message_delta') {
-        if (msg.event.delta?.stop_reason) {
-          stopReason = msg.event.delta.stop_reason;
-        }
-        if (msg.event.usage) {
-          usage = { ...usage, ...msg.event.usage };
-        }
-      }
-    },
-    // onError
-    (err: Error) => {
-      logger.error('Non-streaming error', { reqId, error: err.message });
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: { message: err.message, type: 'api_error' },
-      }));
-    },
-    // onDone
-    (code: number) => {
-      logger.info('Non-streaming complete', {
-        reqId,
-        textLength: accumulatedText.length,
-        usage,
-      });
-
-      const response = buildChatCompletionResponse(
-        msgId,
-        model,
-        accumulatedText,
-        usage,
-        stopReason as any
-      );
+  let results: ChoiceResult[];
+  try {
+    results = await collectChoices(claudeManager, req, request, input, model, reqId, handles);
+  } catch (err) {
+    handles.forEach(handle => handle.cancel());
+    const { statusCode, type, message, code } = describeError(err as Error);
+    logger.error('Non-streaming error', { reqId, error: message, type });
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: { message, type, code },
+    }));
+    return;
+  }
 
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(response));
-    }
-  );
+  const response = mergeChatCompletionResponses(results.map(buildResponse));
+  logger.info('Non-streaming complete', {
+    reqId,
+    textLength: results.reduce((sum, result) => sum + result.text.length, 0),
+    usage: response.usage,
+    choices: results.length,
+  });
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(response));
 }
 
 /**
@@ -304,19 +831,74 @@ export async function handleOpenAIChatCompletion(
   if (!validation.valid) {
     res.writeHead(400, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
-      error: { message: validation.error, type: 'invalid_request_error' },
+      error: {
+        message: validation.error,
+        type: 'invalid_request_error',
+        ...(validation.param ? { param: validation.param } : {}),
+      },
     }));
     return;
   }
 
   const request = validation.request!;
-  logRequestParams(reqId, request);
+  logRequestParams(reqId, request, getRequestContext(req).keyName);
+  setRequestContext(req, { model: request.model, resolvedModel: resolveModelId(request.model) });
+
+  const rejected = checkParameters(req, res, request, supportedParameters, reqId);
+  if (rejected) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: {
+        message: unsupportedParameterMessage(rejected),
+        type: 'invalid_request_error',
+        param: rejected,
+        code: 'unsupported_parameter',
+      },
+    }));
+    return;
+  }
+
+  // Every choice after the first is charged to the key's limits as a request of its own
+  if ((request.n ?? 1) > 1) {
+    const rateLimit = applyRateLimit(req, res, request.n! - 1);
+    if (!rateLimit.allowed) {
+      logger.warn('Rate limited', { reqId, key: getRequestContext(req).keyName, choices: request.n });
+      res.writeHead(429, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: {
+          message: rateLimit.message || 'Rate limit exceeded',
+          type: 'rate_limit_error',
+          code: 'rate_limit_exceeded',
+        },
+      }));
+      return;
+    }
+  }
+
+  // Resolve images before anything is sent so bad input is a plain 400
+  let input: ClaudeRequestInput;
+  try {
+    input = await buildInput(request);
+  } catch (err) {
+    const { statusCode, type, message, code } = describeError(err as Error);
+    logger.warn('Rejected request input', { reqId, error: message });
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: { message, type, code },
+    }));
+    return;
+  }
 
   // Handle streaming vs non-streaming
   if (request.stream) {
-    handleStreamingResponse(res, request, reqId);
+    // JSON output is checked before it is sent, so it cannot be streamed as generated
+    if (wantsJsonOutput(request.response_format)) {
+      handleBufferedStreamingResponse(req, res, request, input, reqId);
+    } else {
+      handleStreamingResponse(req, res, request, input, reqId);
+    }
   } else {
-    handleNonStreamingResponse(res, request, reqId);
+    handleNonStreamingResponse(req, res, request, input, reqId);
   }
 }
 
@@ -355,7 +937,9 @@ export const supportedParameters = {
     'web_search_options',
   ],
   passthrough: [
-    // These are accepted but may not affect Claude behavior
+    // These are accepted but have no effect; reported in x-proxy-ignored-params
+    'temperature',
+    'top_p',
     'frequency_penalty',
     'presence_penalty',
     'logit_bias',
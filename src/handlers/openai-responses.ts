@@ -0,0 +1,502 @@
+/**
+ * OpenAI Responses API Handler
+ * Supports the newer /v1/responses format used by recent OpenAI SDKs
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type {
+  OpenAIResponsesRequest,
+  ClaudeStreamMessage,
+  AnthropicUsage,
+  ClaudeRequestInput,
+  OutputLimits,
+} from '../core/types.js';
+import { logger } from '../core/logger.js';
+import { config } from '../core/config.js';
+import { describeError } from '../core/errors.js';
+import { resolveModelId } from './models.js';
+import { onClientDisconnect, getRequestContext, setRequestContext, requestSendOptions } from '../server/middleware.js';
+import { checkParameters, unsupportedParameterMessage } from './parameters.js';
+import {
+  openaiMessagesToInput,
+  openaiMessagesToConversation,
+  extractSystemMessage,
+  responsesInputToMessages,
+} from '../converters/messages.js';
+import { OutputLimiter, applyOutputLimits, estimateTokens } from '../converters/limits.js';
+
+// Lazy import to avoid loading ClaudeProcessManager on module init
+let _claudeManager: typeof import('../core/claude-manager.js').claudeManager | null = null;
+async function getClaudeManager() {
+  if (!_claudeManager) {
+    const mod = await import('../core/claude-manager.js');
+    _claudeManager = mod.claudeManager;
+  }
+  return _claudeManager;
+}
+import {
+  generateId,
+  buildResponsesOutputMessage,
+  buildResponsesResponse,
+  ResponsesStreamingState,
+  formatSSE,
+} from '../converters/responses.js';
+
+/**
+ * Validate OpenAI Responses request
+ */
+export function validateRequest(body: unknown): {
+  valid: boolean;
+  error?: string;
+  param?: string;
+  request?: OpenAIResponsesRequest;
+} {
+  if (!body || typeof body !== 'object') {
+    return { valid: false, error: 'Request body must be a JSON object' };
+  }
+
+  const req = body as Record<string, unknown>;
+
+  // Required: model
+  if (!req.model || typeof req.model !== 'string') {
+    return { valid: false, error: 'model string is required', param: 'model' };
+  }
+
+  // Required: input
+  if (typeof req.input !== 'string' && !Array.isArray(req.input)) {
+    return { valid: false, error: 'input must be a string or an array of input items', param: 'input' };
+  }
+
+  if (Array.isArray(req.input)) {
+    if (req.input.length === 0) {
+      return { valid: false, error: 'input array cannot be empty', param: 'input' };
+    }
+
+    for (const item of req.input as unknown[]) {
+      if (!item || typeof item !== 'object') {
+        return { valid: false, error: 'input items must be objects', param: 'input' };
+      }
+      // Only messages can be replayed; tool calls, their outputs and references cannot
+      const { type } = item as Record<string, unknown>;
+      if (type !== undefined && type !== 'message') {
+        return { valid: false, error: `${String(type)} input items are not supported`, param: 'input' };
+      }
+    }
+  }
+
+  // Stored responses are not kept, so there is nothing to continue from
+  if (req.previous_response_id !== undefined) {
+    return {
+      valid: false,
+      error: 'previous_response_id is not supported; send the full conversation in input',
+      param: 'previous_response_id',
+    };
+  }
+
+  if (req.instructions !== undefined && req.instructions !== null && typeof req.instructions !== 'string') {
+    return { valid: false, error: 'instructions must be a string', param: 'instructions' };
+  }
+
+  if (req.max_output_tokens !== undefined) {
+    const max = req.max_output_tokens as number;
+    if (typeof max !== 'number' || max < 1 || !Number.isInteger(max)) {
+      return { valid: false, error: 'max_output_tokens must be a positive integer', param: 'max_output_tokens' };
+    }
+  }
+
+  // Validate optional parameters
+  if (req.temperature !== undefined) {
+    const temp = req.temperature as number;
+    if (typeof temp !== 'number' || temp < 0 || temp > 2) {
+      return { valid: false, error: 'temperature must be a number between 0 and 2', param: 'temperature' };
+    }
+  }
+
+  if (req.top_p !== undefined) {
+    const topP = req.top_p as number;
+    if (typeof topP !== 'number' || topP < 0 || topP > 1) {
+      return { valid: false, error: 'top_p must be a number between 0 and 1', param: 'top_p' };
+    }
+  }
+
+  return { valid: true, request: req as unknown as OpenAIResponsesRequest };
+}
+
+/**
+ * Log request parameters for debugging
+ */
+function logRequestParams(reqId: string, request: OpenAIResponsesRequest, keyName?: string): void {
+  const params: Record<string, unknown> = {
+    ...(keyName ? { key: keyName } : {}),
+    model: request.model,
+    inputType: typeof request.input === 'string' ? 'string' : 'array',
+    stream: request.stream,
+  };
+
+  if (Array.isArray(request.input)) params.inputItems = request.input.length;
+  if (request.instructions) params.hasInstructions = true;
+  if (request.max_output_tokens) params.max_output_tokens = request.max_output_tokens;
+  if (request.temperature !== undefined) params.temperature = request.temperature;
+  if (request.top_p !== undefined) params.top_p = request.top_p;
+  if (request.tools) params.toolsCount = request.tools.length;
+  if (request.user) params.user = request.user;
+  if (request.store !== undefined) params.store = request.store;
+
+  logger.info('OpenAI responses request', { reqId, ...params });
+}
+
+/**
+ * Build the CLI input for a Responses request
+ */
+async function buildInput(request: OpenAIResponsesRequest): Promise<ClaudeRequestInput> {
+  const messages = responsesInputToMessages(request.input, request.instructions ?? undefined);
+  const { system, remainingMessages } = extractSystemMessage(messages);
+  const imageConfig = config.getImageConfig();
+
+  if (config.getConversationMode() === 'replay') {
+    const conversation = await openaiMessagesToConversation(remainingMessages, imageConfig);
+    if (conversation) return { ...conversation, systemPrompt: system ?? undefined };
+  }
+  return { prompt: await openaiMessagesToInput(remainingMessages, imageConfig), systemPrompt: system ?? undefined };
+}
+
+/**
+ * Limits the proxy enforces on the output
+ */
+function outputLimits(request: OpenAIResponsesRequest): OutputLimits {
+  return { maxTokens: request.max_output_tokens };
+}
+
+/**
+ * Handle streaming response
+ */
+async function handleStreamingResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  request: OpenAIResponsesRequest,
+  input: ClaudeRequestInput,
+  reqId: string
+): Promise<void> {
+  const respId = generateId('resp');
+  const model = resolveModelId(request.model);
+
+  // Set streaming headers
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const state = new ResponsesStreamingState(respId, model, {
+    instructions: request.instructions,
+    maxOutputTokens: request.max_output_tokens,
+    metadata: request.metadata,
+  });
+  const limiter = new OutputLimiter(outputLimits(request));
+
+  const finish = () => {
+    const text = limiter.finish();
+    if (text) {
+      const event = state.buildTextDelta(text);
+      res.write(formatSSE(event.type, event));
+    }
+    const incomplete = limiter.getStop() !== null;
+    if (incomplete) state.updateUsage({ output_tokens: limiter.getOutputTokens() });
+    for (const event of state.buildFinishEvents(incomplete)) {
+      res.write(formatSSE(event.type, event));
+    }
+    logger.info('Streaming complete', {
+      reqId,
+      usage: state.getUsage(),
+      textLength: state.getText().length,
+      incomplete,
+    });
+    res.end();
+  };
+
+  const claudeManager = await getClaudeManager();
+  const handle = claudeManager.sendMessage(
+    input.prompt,
+    // onEvent
+    (msg: ClaudeStreamMessage) => {
+      if (res.writableEnded) return;
+
+      if (msg.type === 'stream_event' && msg.event) {
+        const evt = msg.event;
+
+        // Handle message_start - open the response and its output item
+        if (evt.type === 'message_start' && !state.hasStarted()) {
+          state.updateUsage(evt.message?.usage);
+          for (const event of state.buildStartEvents()) {
+            res.write(formatSSE(event.type, event));
+          }
+        }
+
+        // Handle content_block_delta - send text deltas
+        if (evt.type === 'content_block_delta' && evt.delta?.text) {
+          const text = limiter.push(evt.delta.text);
+          if (text) {
+            const event = state.buildTextDelta(text);
+            res.write(formatSSE(event.type, event));
+          }
+
+          // Output limit reached: end the response and stop generating
+          if (limiter.getStop()) {
+            logger.info('Output limit reached', { reqId, reason: 'max_output_tokens' });
+            handle.cancel();
+            finish();
+            return;
+          }
+        }
+
+        // Handle message_delta - update usage
+        if (evt.type === 'message_delta') {
+          state.updateUsage(evt.usage);
+        }
+      }
+    },
+    // onError
+    (err: Error) => {
+      if (res.writableEnded) return;
+      const { type, message } = describeError(err);
+      logger.error('Streaming error', { reqId, error: message, type });
+      const event = state.buildFailedEvent(type, message);
+      res.write(formatSSE(event.type, event));
+      res.end();
+    },
+    // onDone
+    (code: number) => {
+      if (res.writableEnded) return;
+      finish();
+    },
+    {
+      affinityKey: request.user,
+      model,
+      systemPrompt: input.systemPrompt,
+      history: input.history,
+      ...requestSendOptions(req),
+    }
+  );
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handle.cancel();
+  });
+}
+
+/**
+ * Handle non-streaming response
+ */
+async function handleNonStreamingResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  request: OpenAIResponsesRequest,
+  input: ClaudeRequestInput,
+  reqId: string
+): Promise<void> {
+  const respId = generateId('resp');
+  const model = resolveModelId(request.model);
+
+  const limits = outputLimits(request);
+  const limiter = new OutputLimiter(limits);
+  let accumulatedText = '';
+  let streamedText = '';
+  let usage: AnthropicUsage = { input_tokens: 0, output_tokens: 0 };
+  let finished = false;
+
+  const respond = (text: string, incomplete: boolean) => {
+    finished = true;
+    if (incomplete) usage = { ...usage, output_tokens: estimateTokens(text) };
+
+    const status = incomplete ? 'incomplete' : 'completed';
+    const output = [buildResponsesOutputMessage(generateId('msg'), text, status)];
+    const response = buildResponsesResponse(respId, model, output, {
+      status,
+      usage,
+      instructions: request.instructions,
+      maxOutputTokens: request.max_output_tokens,
+      metadata: request.metadata,
+      incompleteReason: incomplete ? 'max_output_tokens' : undefined,
+    });
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  };
+
+  const claudeManager = await getClaudeManager();
+  const handle = claudeManager.sendMessage(
+    input.prompt,
+    // onEvent
+    (msg: ClaudeStreamMessage) => {
+      if (finished) return;
+
+      // Watch streamed text so generation stops as soon as the limit is hit
+      if (msg.type === 'stream_event' && msg.event?.type === 'message_start' && msg.event.message?.usage) {
+        usage = { ...usage, ...msg.event.message.usage };
+      }
+      if (msg.type === 'stream_event' && msg.event?.type === 'content_block_delta' && msg.event.delta?.text) {
+        streamedText += limiter.push(msg.event.delta.text);
+        if (limiter.getStop()) {
+          logger.info('Output limit reached', { reqId, reason: 'max_output_tokens', textLength: streamedText.length });
+          handle.cancel();
+          respond(streamedText, true);
+          return;
+        }
+      }
+
+      // Accumulate text from assistant messages
+      if (msg.type === 'assistant' && msg.message?.content) {
+        for (const block of msg.message.content) {
+          if (block.type === 'text' && block.text) {
+            accumulatedText += block.text;
+          }
+        }
+      }
+
+      // Get usage from result
+      if (msg.type === 'result' && msg.usage) {
+        usage = msg.usage;
+      }
+
+      // Get usage from stream events
+      if (msg.type === 'stream_event' && msg.event?.type === 'message_delta' && msg.event.usage) {
+        usage = { ...usage, ...msg.event.usage };
+      }
+    },
+    // onError
+    (err: Error) => {
+      if (finished || res.headersSent || res.writableEnded) return;
+      finished = true;
+      const { statusCode, type, message, code } = describeError(err);
+      logger.error('Non-streaming error', { reqId, error: message, type });
+      res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: { message, type, code },
+      }));
+    },
+    // onDone
+    (code: number) => {
+      if (finished) return;
+      logger.info('Non-streaming complete', {
+        reqId,
+        textLength: accumulatedText.length,
+        usage,
+      });
+
+      const limited = applyOutputLimits(accumulatedText, limits);
+      respond(limited.text, limited.stop !== null);
+    },
+    {
+      affinityKey: request.user,
+      model,
+      systemPrompt: input.systemPrompt,
+      history: input.history,
+      ...requestSendOptions(req),
+    }
+  );
+
+  // Stop generating when the client hangs up
+  onClientDisconnect(res, () => {
+    logger.info('Client disconnected, cancelling request', { reqId });
+    handle.cancel();
+  });
+}
+
+/**
+ * Main handler for OpenAI responses
+ */
+export async function handleOpenAIResponses(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: OpenAIResponsesRequest,
+  reqId: string
+): Promise<void> {
+  // Validate request
+  const validation = validateRequest(body);
+  if (!validation.valid) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: { message: validation.error, type: 'invalid_request_error', param: validation.param ?? null },
+    }));
+    return;
+  }
+
+  const request = validation.request!;
+  logRequestParams(reqId, request, getRequestContext(req).keyName);
+  setRequestContext(req, { model: request.model, resolvedModel: resolveModelId(request.model) });
+
+  const rejected = checkParameters(req, res, request, supportedParameters, reqId);
+  if (rejected) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: {
+        message: unsupportedParameterMessage(rejected),
+        type: 'invalid_request_error',
+        param: rejected,
+        code: 'unsupported_parameter',
+      },
+    }));
+    return;
+  }
+
+  // Resolve images before anything is sent so bad input is a plain 400
+  let input: ClaudeRequestInput;
+  try {
+    input = await buildInput(request);
+  } catch (err) {
+    const { statusCode, type, message, code } = describeError(err as Error);
+    logger.warn('Rejected request input', { reqId, error: message });
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      error: { message, type, code },
+    }));
+    return;
+  }
+
+  // Handle streaming vs non-streaming
+  if (request.stream) {
+    handleStreamingResponse(req, res, request, input, reqId);
+  } else {
+    handleNonStreamingResponse(req, res, request, input, reqId);
+  }
+}
+
+/**
+ * Extract supported parameters info (for documentation/debugging)
+ */
+export const supportedParameters = {
+  required: ['model', 'input'],
+  supported: [
+    'stream',
+    'instructions',
+    'max_output_tokens',
+    'temperature',
+    'top_p',
+    'tools',
+    'tool_choice',
+    'metadata',
+    'store',
+    'include',
+    'truncation',
+    'user',
+  ],
+  passthrough: [
+    // These are accepted but have no effect; reported in x-proxy-ignored-params
+    'temperature',
+    'top_p',
+    'tools',
+    'tool_choice',
+    'store',
+    'include',
+    'truncation',
+  ],
+  notSupported: [
+    // Responses are not stored, so they cannot be continued or referenced
+    'previous_response_id',
+    'item_reference',
+  ],
+};
+
+export default handleOpenAIResponses;
@@ -0,0 +1,88 @@
+/**
+ * Request parameter reporting
+ * Applies the strictness setting to parameters that have no effect on the Claude CLI
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { ParameterStrictness } from '../core/types.js';
+import { config } from '../core/config.js';
+import { logger } from '../core/logger.js';
+
+export const IGNORED_PARAMS_HEADER = 'x-proxy-ignored-params';
+export const STRICTNESS_HEADER = 'x-proxy-strictness';
+
+// Values that ask for nothing beyond the default, so honouring them is free
+const NO_EFFECT_VALUES: Record<string, unknown> = {
+  logprobs: false,
+};
+
+/**
+ * Find which of the given parameters a request actually set
+ */
+export function findIgnoredParameters(request: object, ignorable: string[]): string[] {
+  const fields = request as Record<string, unknown>;
+  return ignorable.filter(name =>
+    fields[name] !== undefined && fields[name] !== null && fields[name] !== NO_EFFECT_VALUES[name]
+  );
+}
+
+/**
+ * Report ignored parameters on the response so clients can tell
+ */
+export function setIgnoredParamsHeader(res: ServerResponse, ignored: string[]): void {
+  if (ignored.length > 0) {
+    res.setHeader(IGNORED_PARAMS_HEADER, ignored.join(', '));
+  }
+}
+
+/**
+ * Strictness for a request: the x-proxy-strictness header, else the deployment setting
+ */
+export function resolveStrictness(req: IncomingMessage): ParameterStrictness {
+  const header = req.headers?.[STRICTNESS_HEADER];
+  if (header === 'lenient' || header === 'warn' || header === 'strict') return header;
+  return config.getParameterStrictness();
+}
+
+/**
+ * Apply the strictness setting to parameters the CLI ignores.
+ * Returns the parameter to reject the request for, or null to go ahead.
+ */
+export function checkParameters(
+  req: IncomingMessage,
+  res: ServerResponse,
+  request: object,
+  params: { passthrough: string[]; notSupported?: string[] },
+  reqId: string
+): string | null {
+  const ignored = findIgnoredParameters(request, [...params.passthrough, ...(params.notSupported ?? [])]);
+  if (ignored.length === 0) return null;
+
+  const strictness = resolveStrictness(req);
+  if (strictness === 'strict') {
+    logger.warn('Rejecting parameter the CLI does not support', { reqId, param: ignored[0] });
+    return ignored[0]!;
+  }
+  if (strictness === 'warn') {
+    logger.warn('Ignoring parameters the CLI does not support', { reqId, params: ignored.join(', ') });
+  }
+  setIgnoredParamsHeader(res, ignored);
+  return null;
+}
+
+/**
+ * Error message for a parameter rejected in strict mode
+ */
+export function unsupportedParameterMessage(param: string): string {
+  return `${param} is not supported by this proxy (set ${STRICTNESS_HEADER}: warn to ignore it)`;
+}
+
+export const parameterHelpers = {
+  findIgnoredParameters,
+  setIgnoredParamsHeader,
+  resolveStrictness,
+  checkParameters,
+  unsupportedParameterMessage,
+};
+
+export default parameterHelpers;
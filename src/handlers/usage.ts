@@ -0,0 +1,96 @@
+/**
+ * Usage API Handler
+ * GET /v1/usage: token usage from the usage ledger, aggregated by day, key
+ * and model
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { logger } from '../core/logger.js';
+import { usageLedger, summarizeUsage } from '../core/usage-ledger.js';
+import type { UsageGroupField, UsageQuery } from '../core/usage-ledger.js';
+import { apiKeyStore } from '../core/api-keys.js';
+import { getRequestContext, sendErrorResponse } from '../server/middleware.js';
+
+const GROUP_FIELDS: UsageGroupField[] = ['day', 'key', 'model'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read the query string: `from` and `to` days (inclusive), a `key` filter
+ * and `group_by`, a comma-separated subset of day, key and model
+ */
+export function parseUsageQuery(url: string): { query?: UsageQuery; error?: string } {
+  const params = new URL(url, 'http://localhost').searchParams;
+
+  for (const name of ['from', 'to']) {
+    const value = params.get(name);
+    if (value && !DAY_PATTERN.test(value)) {
+      return { error: `${name} must be a day in YYYY-MM-DD format` };
+    }
+  }
+
+  const groupBy = (params.get('group_by') ?? GROUP_FIELDS.join(','))
+    .split(',')
+    .map(field => field.trim())
+    .filter(Boolean);
+  const unknown = groupBy.find(field => !GROUP_FIELDS.includes(field as UsageGroupField));
+  if (unknown) {
+    return { error: `group_by accepts ${GROUP_FIELDS.join(', ')}; got ${unknown}` };
+  }
+
+  return {
+    query: {
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+      key: params.get('key') || undefined,
+      groupBy: GROUP_FIELDS.filter(field => groupBy.includes(field)),
+    },
+  };
+}
+
+/**
+ * Handle GET /v1/usage
+ */
+export async function handleUsage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  reqId: string
+): Promise<void> {
+  const { query, error } = parseUsageQuery(req.url || '/');
+  if (!query) {
+    sendErrorResponse(res, 400, 'invalid_request_error', error!);
+    return;
+  }
+
+  // Keys other than admin keys only see their own usage
+  const { keyName, admin } = getRequestContext(req);
+  if (apiKeyStore.isEnabled() && !admin) {
+    if (query.key && query.key !== keyName) {
+      sendErrorResponse(res, 403, 'permission_error', 'Only admin keys can read the usage of other keys');
+      return;
+    }
+    query.key = keyName;
+  }
+
+  if (!usageLedger.isEnabled()) {
+    sendErrorResponse(res, 404, 'not_found_error', 'The usage ledger is disabled');
+    return;
+  }
+
+  logger.debug('Usage request', { reqId, ...query, groupBy: query.groupBy.join(',') });
+
+  const summary = summarizeUsage(await usageLedger.readRecords(), query);
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    object: 'list',
+    from: query.from ?? null,
+    to: query.to ?? null,
+    group_by: query.groupBy,
+    data: summary.groups,
+    totals: summary.totals,
+  }));
+}
+
+export default {
+  handleUsage,
+};
@@ -4,8 +4,23 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AnthropicUsage, OAuthCredentials, RequestContext } from '../core/types.js';
+import type { SendMessageOptions } from '../core/claude-manager.js';
 import { config } from '../core/config.js';
 import { logger } from '../core/logger.js';
+import { apiKeyStore } from '../core/api-keys.js';
+import { rateLimiter, hasRateLimits } from '../core/rate-limiter.js';
+import { accountPool } from '../core/account-pool.js';
+import { usageLedger } from '../core/usage-ledger.js';
+import { proxyMetrics } from '../core/metrics.js';
+import { tracer, usageAttributes } from '../core/tracing.js';
+
+// Rate limit bucket shared by requests that did not present a key
+const ANONYMOUS_KEY = 'anonymous';
+
+// Per-request state, dropped with the request
+const requestContexts = new WeakMap<IncomingMessage, RequestContext>();
 
 /**
  * CORS configuration
@@ -28,6 +43,9 @@ const DEFAULT_CORS: CorsConfig = {
     'X-OAuth-Creds',
     'Anthropic-Version',
     'X-Request-Id',
+    'X-Proxy-Strictness',
+    'Traceparent',
+    'Tracestate',
   ],
   credentials: true,
   maxAge: 86400, // 24 hours
@@ -79,14 +97,46 @@ export function extractApiKey(req: IncomingMessage): string | null {
 }
 
 /**
- * Extract OAuth credentials from request header
+ * Get the state attached to a request
+ */
+export function getRequestContext(req: IncomingMessage): RequestContext {
+  return requestContexts.get(req) ?? {};
+}
+
+/**
+ * Attach state to a request
+ */
+export function setRequestContext(req: IncomingMessage, context: Partial<RequestContext>): void {
+  requestContexts.set(req, { ...getRequestContext(req), ...context });
+}
+
+/**
+ * Check whether a request carries the trusted upstream secret
  */
-export function extractOAuthCreds(req: IncomingMessage): boolean {
+export function isTrustedUpstream(req: IncomingMessage): boolean {
+  const secret = config.getUpstreamSecret();
+  const presented = req.headers['x-upstream-secret'];
+  if (!secret || typeof presented !== 'string') return false;
+
+  // Compare digests so the check takes the same time whatever was sent
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(secret), digest(presented));
+}
+
+/**
+ * Extract the OAuth credentials a trusted upstream supplied for this request.
+ * They apply to this request only and never replace the process-wide ones.
+ */
+export function extractOAuthCreds(req: IncomingMessage): OAuthCredentials | null {
   const credsHeader = req.headers['x-oauth-creds'];
-  if (typeof credsHeader === 'string') {
-    return config.updateCredentialsFromHeader(credsHeader);
+  if (typeof credsHeader !== 'string' || !credsHeader) return null;
+
+  if (!isTrustedUpstream(req)) {
+    logger.warn('Ignoring X-OAuth-Creds without a valid upstream secret');
+    return null;
   }
-  return false;
+  const creds = config.parseOAuthCredentials(credsHeader);
+  return creds?.accessToken ? creds : null;
 }
 
 /**
@@ -136,13 +186,15 @@ export function sendErrorResponse(
   res: ServerResponse,
   statusCode: number,
   errorType: string,
-  message: string
+  message: string,
+  code?: string
 ): void {
   res.writeHead(statusCode, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify({
     error: {
       type: errorType,
       message,
+      ...(code ? { code } : {}),
     },
   }));
 }
@@ -166,6 +218,17 @@ export function sendAnthropicError(
   }));
 }
 
+/**
+ * Run a callback when the client goes away before the response is finished
+ */
+export function onClientDisconnect(res: ServerResponse, callback: () => void): void {
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      callback();
+    }
+  });
+}
+
 /**
  * Middleware wrapper for request logging
  */
@@ -184,18 +247,19 @@ export function logRequest(req: IncomingMessage, reqId: string): void {
 export function logResponse(
   reqId: string,
   statusCode: number,
-  startTime: number
+  startTime: number,
+  keyName?: string
 ): void {
   const duration = Date.now() - startTime;
-  logger.info('Response sent', { reqId, statusCode, duration });
+  logger.info('Response sent', { reqId, statusCode, duration, ...(keyName ? { key: keyName } : {}) });
 }
 
 /**
  * Check if request requires authentication
  */
 export function requiresAuth(url: string): boolean {
-  // Health check and models list don't require auth
-  if (url === '/' || url === '/health' || url === '/ping') {
+  // Health check, metrics and models list don't require auth
+  if (url === '/' || url === '/health' || url === '/ping' || url === '/metrics') {
     return false;
   }
   if (url === '/v1/models' || url?.startsWith('/v1/models/')) {
@@ -205,21 +269,219 @@ export function requiresAuth(url: string): boolean {
 }
 
 /**
- * Validate authentication for request
+ * Validate authentication for request. When proxy API keys are configured the
+ * request must present one, as a Bearer token or in x-api-key; the matching
+ * key's name is attached to the request context.
  */
 export function validateAuth(req: IncomingMessage): {
   valid: boolean;
   error?: string;
+  code?: string;
+  keyName?: string;
 } {
-  // Try to extract OAuth creds from header first
-  extractOAuthCreds(req);
+  let keyName: string | undefined;
+  if (apiKeyStore.isEnabled()) {
+    const apiKey = extractApiKey(req);
+    if (!apiKey) {
+      return {
+        valid: false,
+        error: 'Missing API key. Pass it as a Bearer token in the Authorization header or in the x-api-key header.',
+        code: 'missing_api_key',
+      };
+    }
+    const entry = apiKeyStore.authenticate(apiKey);
+    if (!entry) {
+      return { valid: false, error: 'Invalid API key', code: 'invalid_api_key' };
+    }
+    keyName = entry.name;
+    setRequestContext(req, { keyName, rateLimits: entry.limits, admin: entry.admin });
+  }
+
+  // Only authenticated callers may supply OAuth creds
+  const credentials = extractOAuthCreds(req);
+  if (credentials) setRequestContext(req, { credentials });
 
   // Check if we have valid credentials
-  if (!config.hasValidCredentials()) {
+  if (!credentials && !config.hasValidCredentials() && accountPool.size === 0) {
     return { valid: false, error: 'No valid OAuth credentials configured' };
   }
 
-  return { valid: true };
+  return { valid: true, keyName };
+}
+
+/**
+ * Apply the rate limits of the request's key. An admitted request counts as
+ * in flight until the response closes. The x-ratelimit-* headers are set on
+ * the response either way. Handlers charge requests that run several CLI
+ * turns again for the extra `slots`.
+ */
+export function applyRateLimit(req: IncomingMessage, res: ServerResponse, slots = 1): {
+  allowed: boolean;
+  message?: string;
+} {
+  const context = getRequestContext(req);
+  const limits = { ...config.getRateLimitConfig().defaults, ...context.rateLimits };
+  if (!hasRateLimits(limits)) return { allowed: true };
+
+  const decision = rateLimiter.acquire(context.keyName ?? ANONYMOUS_KEY, limits, Date.now(), slots);
+  for (const [name, value] of Object.entries(decision.headers)) {
+    res.setHeader(name, value);
+  }
+  if (!decision.allowed) return { allowed: false, message: decision.message };
+
+  res.on('close', decision.release);
+  return { allowed: true };
+}
+
+/**
+ * Callback charging the CLI usage of a request to its key and adding it to
+ * the request's totals
+ */
+export function usageRecorder(req: IncomingMessage): (usage: AnthropicUsage) => void {
+  const keyName = getRequestContext(req).keyName ?? ANONYMOUS_KEY;
+  return usage => {
+    rateLimiter.recordUsage(keyName, usage);
+
+    const model = getRequestContext(req).resolvedModel ?? '';
+    const counts = {
+      input: usage.input_tokens,
+      output: usage.output_tokens,
+      cache_creation: usage.cache_creation_input_tokens,
+      cache_read: usage.cache_read_input_tokens,
+    };
+    for (const [type, count] of Object.entries(counts)) {
+      if (count) proxyMetrics.tokens.inc({ type, model }, count);
+    }
+
+    const totals = getRequestContext(req).usage ?? { input_tokens: 0, output_tokens: 0 };
+    setRequestContext(req, {
+      usage: {
+        input_tokens: totals.input_tokens + (usage.input_tokens || 0),
+        output_tokens: totals.output_tokens + (usage.output_tokens || 0),
+        cache_creation_input_tokens: (totals.cache_creation_input_tokens || 0) + (usage.cache_creation_input_tokens || 0),
+        cache_read_input_tokens: (totals.cache_read_input_tokens || 0) + (usage.cache_read_input_tokens || 0),
+      },
+    });
+  };
+}
+
+/**
+ * Count a request and time it once its response is done
+ */
+export function observeRequest(req: IncomingMessage, res: ServerResponse, route: string, startTime: number): void {
+  res.on('close', () => {
+    const status = res.writableEnded ? res.statusCode : 499;
+    const model = getRequestContext(req).resolvedModel ?? '';
+    proxyMetrics.requests.inc({ route, status: String(status), model });
+    proxyMetrics.requestDuration.observe((Date.now() - startTime) / 1000, { route });
+  });
+}
+
+/**
+ * Start the trace span of a request, continuing the caller's trace from its
+ * traceparent header, and end it once the response is done. Like the usage
+ * ledger, the span ends a tick after 'close' so the usage of a cancelled
+ * turn is included.
+ */
+export function traceRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  reqId: string,
+  route: string,
+  startTime: number
+): void {
+  const method = req.method || 'GET';
+  const span = tracer.startSpan(route === 'unmatched' ? method : `${method} ${route}`, {
+    kind: 'server',
+    traceparent: req.headers['traceparent'] as string | undefined,
+    startTime,
+    attributes: {
+      'http.request.method': method,
+      'http.route': route === 'unmatched' ? undefined : route,
+      'url.path': req.url?.split('?')[0],
+      'proxy.request_id': reqId,
+    },
+  });
+  if (!span) return;
+  setRequestContext(req, { span });
+
+  res.on('close', () => {
+    const endTime = Date.now();
+    setImmediate(() => {
+      const context = getRequestContext(req);
+      const status = res.writableEnded ? res.statusCode : 499;
+      span.setAttributes({
+        'http.response.status_code': status,
+        'proxy.api_key': context.keyName,
+        'gen_ai.request.model': context.model,
+        'gen_ai.response.model': context.resolvedModel,
+        ...usageAttributes(context.usage),
+      });
+      if (status >= 500) span.setError(`HTTP ${status}`);
+      span.end(endTime);
+    });
+  });
+}
+
+/**
+ * Count a streaming response as active until it closes
+ */
+export function trackActiveStream(res: ServerResponse): void {
+  proxyMetrics.activeStreams.inc();
+  res.on('close', () => proxyMetrics.activeStreams.dec());
+}
+
+/**
+ * Write a request to the usage ledger once its response is done. Runs a
+ * tick after 'close' so the usage of a turn cancelled by the disconnect is
+ * included.
+ */
+export function recordUsageOnClose(
+  req: IncomingMessage,
+  res: ServerResponse,
+  reqId: string,
+  endpoint: string,
+  startTime: number
+): void {
+  if (!usageLedger.isEnabled()) return;
+
+  res.on('close', () => setImmediate(() => {
+    const context = getRequestContext(req);
+    const usage = context.usage;
+    usageLedger.record({
+      timestamp: new Date(startTime).toISOString(),
+      request_id: reqId,
+      key: context.keyName ?? ANONYMOUS_KEY,
+      endpoint,
+      model: context.model,
+      resolved_model: context.resolvedModel,
+      input_tokens: usage?.input_tokens ?? 0,
+      output_tokens: usage?.output_tokens ?? 0,
+      cache_creation_input_tokens: usage?.cache_creation_input_tokens ?? 0,
+      cache_read_input_tokens: usage?.cache_read_input_tokens ?? 0,
+      duration_ms: Date.now() - startTime,
+      status: res.writableEnded ? res.statusCode : 499,
+    });
+  }));
+}
+
+/**
+ * sendMessage options that follow from who sent the request: usage
+ * accounting, the client key for account selection, and the request's own
+ * credentials when they differ from the process-wide ones
+ */
+export function requestSendOptions(
+  req: IncomingMessage
+): Pick<SendMessageOptions, 'onUsage' | 'oauthToken' | 'clientKey' | 'span'> {
+  const context = getRequestContext(req);
+  const credentials = context.credentials;
+  const scoped = credentials && !config.isProcessCredentials(credentials);
+  return {
+    onUsage: usageRecorder(req),
+    clientKey: context.keyName,
+    ...(scoped ? { oauthToken: credentials.accessToken } : {}),
+    ...(context.span ? { span: context.span } : {}),
+  };
 }
 
 export const middleware = {
@@ -227,14 +489,25 @@ export const middleware = {
   handleCorsPreflightRequest,
   extractApiKey,
   extractOAuthCreds,
+  isTrustedUpstream,
+  getRequestContext,
+  setRequestContext,
   generateRequestId,
   parseJsonBody,
   sendErrorResponse,
   sendAnthropicError,
+  onClientDisconnect,
   logRequest,
   logResponse,
   requiresAuth,
   validateAuth,
+  applyRateLimit,
+  usageRecorder,
+  recordUsageOnClose,
+  observeRequest,
+  traceRequest,
+  trackActiveStream,
+  requestSendOptions,
   DEFAULT_CORS,
 };
 
@@ -7,21 +7,37 @@ import * as http from 'node:http';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import { logger } from '../core/logger.js';
 import { config } from '../core/config.js';
+import { apiKeyStore } from '../core/api-keys.js';
+import { rateLimiter } from '../core/rate-limiter.js';
+import { credentialRefresher } from '../core/credential-refresh.js';
+import { accountPool } from '../core/account-pool.js';
+import { usageLedger } from '../core/usage-ledger.js';
+import { tracer } from '../core/tracing.js';
 import {
   setCorsHeaders,
   handleCorsPreflightRequest,
   generateRequestId,
   parseJsonBody,
   sendErrorResponse,
+  sendAnthropicError,
+  getRequestContext,
   logRequest,
   logResponse,
   requiresAuth,
   validateAuth,
+  applyRateLimit,
+  recordUsageOnClose,
+  observeRequest,
+  traceRequest,
+  trackActiveStream,
 } from './middleware.js';
 import { handleHealthCheck, handlePing } from '../handlers/health.js';
 import { handleListModels, handleGetModel } from '../handlers/models.js';
 import { handleOpenAIChatCompletion } from '../handlers/openai-chat.js';
+import { handleOpenAIResponses } from '../handlers/openai-responses.js';
 import { handleAnthropicMessages } from '../handlers/anthropic-messages.js';
+import { handleUsage } from '../handlers/usage.js';
+import { handleMetrics } from '../handlers/metrics.js';
 
 /**
  * Server configuration
@@ -48,8 +64,11 @@ type RouteHandler = (
 interface Route {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
   pattern: RegExp;
+  path: string;         // Route template, used as the metrics label
   handler: RouteHandler;
   paramNames?: string[];
+  anthropic?: boolean;  // Errors use the Anthropic format
+  usage?: boolean;      // Requests are recorded in the usage ledger
 }
 
 /**
@@ -60,28 +79,41 @@ const routes: Route[] = [
   {
     method: 'GET',
     pattern: /^\/$/,
+    path: '/',
     handler: async (req, res, body, reqId) => handleHealthCheck(req, res, reqId),
   },
   {
     method: 'GET',
     pattern: /^\/health$/,
+    path: '/health',
     handler: async (req, res, body, reqId) => handleHealthCheck(req, res, reqId),
   },
   {
     method: 'GET',
     pattern: /^\/ping$/,
+    path: '/ping',
     handler: async (req, res) => handlePing(req, res),
   },
 
+  // Prometheus metrics
+  {
+    method: 'GET',
+    pattern: /^\/metrics$/,
+    path: '/metrics',
+    handler: async (req, res, body, reqId) => handleMetrics(req, res, reqId),
+  },
+
   // OpenAI Models API
   {
     method: 'GET',
     pattern: /^\/v1\/models$/,
+    path: '/v1/models',
     handler: async (req, res, body, reqId) => handleListModels(req, res, reqId),
   },
   {
     method: 'GET',
     pattern: /^\/v1\/models\/([^/]+)$/,
+    path: '/v1/models/:modelId',
     handler: async (req, res, body, reqId, params) =>
       handleGetModel(req, res, params?.modelId || '', reqId),
     paramNames: ['modelId'],
@@ -91,29 +123,58 @@ const routes: Route[] = [
   {
     method: 'POST',
     pattern: /^\/v1\/chat\/completions$/,
+    path: '/v1/chat/completions',
     handler: async (req, res, body, reqId) =>
       handleOpenAIChatCompletion(req, res, body as any, reqId),
+    usage: true,
+  },
+
+  // OpenAI Responses API
+  {
+    method: 'POST',
+    pattern: /^\/v1\/responses$/,
+    path: '/v1/responses',
+    handler: async (req, res, body, reqId) =>
+      handleOpenAIResponses(req, res, body as any, reqId),
+    usage: true,
+  },
+
+  // Usage ledger
+  {
+    method: 'GET',
+    pattern: /^\/v1\/usage$/,
+    path: '/v1/usage',
+    handler: async (req, res, body, reqId) => handleUsage(req, res, reqId),
   },
 
   // Anthropic Messages API (multiple paths for compatibility)
   {
     method: 'POST',
     pattern: /^\/v1\/messages$/,
+    path: '/v1/messages',
     handler: async (req, res, body, reqId) =>
       handleAnthropicMessages(req, res, body as any, reqId),
+    anthropic: true,
+    usage: true,
   },
   {
     method: 'POST',
     pattern: /^\/messages$/,
+    path: '/messages',
     handler: async (req, res, body, reqId) =>
       handleAnthropicMessages(req, res, body as any, reqId),
+    anthropic: true,
+    usage: true,
   },
   // Claude Code compatibility path
   {
     method: 'POST',
     pattern: /^\/anthropic\/v1\/messages$/,
+    path: '/anthropic/v1/messages',
     handler: async (req, res, body, reqId) =>
       handleAnthropicMessages(req, res, body as any, reqId),
+    anthropic: true,
+    usage: true,
   },
 ];
 
@@ -167,38 +228,80 @@ export async function handleRequest(req: IncomingMessage, res: ServerResponse):
     const matched = matchRoute(method, url);
 
     if (!matched) {
+      observeRequest(req, res, 'unmatched', startTime);
+      traceRequest(req, res, reqId, 'unmatched', startTime);
       sendErrorResponse(res, 404, 'not_found_error', `Route not found: ${method} ${url}`);
       logResponse(reqId, 404, startTime);
       return;
     }
 
+    observeRequest(req, res, matched.route.path, startTime);
+    traceRequest(req, res, reqId, matched.route.path, startTime);
+
     // Check authentication for protected routes
     if (requiresAuth(url)) {
       const authResult = validateAuth(req);
       if (!authResult.valid) {
-        sendErrorResponse(res, 401, 'authentication_error', authResult.error || 'Unauthorized');
+        const message = authResult.error || 'Unauthorized';
+        logger.warn('Authentication failed', { reqId, error: message });
+        if (matched.route.anthropic) {
+          sendAnthropicError(res, 401, 'authentication_error', message);
+        } else {
+          sendErrorResponse(res, 401, 'authentication_error', message, authResult.code);
+        }
         logResponse(reqId, 401, startTime);
         return;
       }
+
+      const rateLimit = applyRateLimit(req, res);
+      if (!rateLimit.allowed) {
+        const message = rateLimit.message || 'Rate limit exceeded';
+        logger.warn('Rate limited', { reqId, key: getRequestContext(req).keyName, reason: message });
+        if (matched.route.anthropic) {
+          sendAnthropicError(res, 429, 'rate_limit_error', message);
+        } else {
+          sendErrorResponse(res, 429, 'rate_limit_error', message, 'rate_limit_exceeded');
+        }
+        logResponse(reqId, 429, startTime);
+        return;
+      }
+    }
+
+    // Only admitted requests reach the ledger, so refused probes cannot grow it
+    if (matched.route.usage) {
+      recordUsageOnClose(req, res, reqId, url, startTime);
     }
 
     // Parse body for POST/PUT requests
     let body: unknown = {};
     if (method === 'POST' || method === 'PUT') {
+      const parseSpan = getRequestContext(req).span?.child('parse body');
       try {
         body = await parseJsonBody(req);
       } catch (err) {
+        parseSpan?.setError((err as Error).message);
         sendErrorResponse(res, 400, 'invalid_request_error', (err as Error).message);
         logResponse(reqId, 400, startTime);
         return;
+      } finally {
+        parseSpan?.end();
       }
     }
 
+    if (
+      matched.route.usage
+      && body !== null
+      && typeof body === 'object'
+      && (body as { stream?: unknown }).stream === true
+    ) {
+      trackActiveStream(res);
+    }
+
     // Execute handler
     await matched.route.handler(req, res, body, reqId, matched.params);
 
     // Log response (handler already sent response)
-    logResponse(reqId, res.statusCode, startTime);
+    logResponse(reqId, res.statusCode, startTime, getRequestContext(req).keyName);
   } catch (err) {
     logger.error('Unhandled error', { reqId, error: (err as Error).message });
     sendErrorResponse(res, 500, 'api_error', 'Internal server error');
@@ -214,6 +317,13 @@ export function createServer(options: ServerOptions): http.Server {
 
   // Initialize configuration
   config.init();
+  config.watchCredentialsFile();
+  apiKeyStore.reload();
+  accountPool.load();
+  usageLedger.setFile(config.getUsageLedgerFile());
+  rateLimiter.setStateFile(config.getRateLimitConfig().stateFile);
+  credentialRefresher.start();
+  tracer.start();
 
   const server = http.createServer(handleRequest);
 
@@ -256,6 +366,11 @@ export function setupGracefulShutdown(server: http.Server): void {
     // Shutdown Claude process (dynamic import to avoid loading on module init)
     const { claudeManager } = await import('../core/claude-manager.js');
     claudeManager.shutdown();
+    credentialRefresher.stop();
+    config.unwatchCredentialsFile();
+    rateLimiter.flush();
+    await usageLedger.flush();
+    await tracer.stop();
 
     // Exit after timeout
     setTimeout(() => {
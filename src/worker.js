@@ -39,6 +39,14 @@ export default {
         headers.set('X-OAuth-Creds', env.CLAUDE_OAUTH_CREDS || '');
         console.log(`[${reqId}] OAuth creds set: ${hasOAuth}`);
 
+        // The container only honours X-OAuth-Creds alongside this secret;
+        // never pass on one a client sent
+        if (env.PROXY_UPSTREAM_SECRET) {
+          headers.set('X-Upstream-Secret', env.PROXY_UPSTREAM_SECRET);
+        } else {
+          headers.delete('X-Upstream-Secret');
+        }
+
         const modifiedRequest = new Request(request.url, {
           method: request.method,
           headers,
@@ -90,6 +98,11 @@ export class ClaudeContainer extends Container {
         CLAUDE_OAUTH_CREDS: oauthCreds,
         PORT: '8080'
       };
+      // Client keys the container requires on API routes, and the secret
+      // that lets it trust X-OAuth-Creds
+      for (const name of ['PROXY_API_KEY', 'PROXY_API_KEYS', 'PROXY_UPSTREAM_SECRET']) {
+        if (this.env?.[name]) this.envVars[name] = this.env[name];
+      }
       console.log(`[${reqId}] Container DO: envVars set, oauthLen=${oauthCreds?.length}`);
 
       // Build the container URL
@@ -0,0 +1,154 @@
+/**
+ * Tests for the multi-account pool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AccountPool,
+  classifyAccountError,
+  detectAccountFailure,
+  parseAccountFile,
+} from '../src/core/account-pool.js';
+import type { ClaudeAccount } from '../src/core/types.js';
+
+const accounts: ClaudeAccount[] = [
+  { name: 'a', credentials: { accessToken: 'token-a' } },
+  { name: 'b', credentials: { accessToken: 'token-b' } },
+  { name: 'c', credentials: { accessToken: 'token-c' } },
+];
+
+describe('Account Pool', () => {
+  describe('error classification', () => {
+    it('should recognise rate limit and auth errors', () => {
+      expect(classifyAccountError('API Error: 429 {"type":"error","error":{"type":"rate_limit_error"}}'))
+        .toMatchObject({ kind: 'rate_limit' });
+      expect(classifyAccountError('Claude AI usage limit reached|1900000000'))
+        .toEqual({ kind: 'rate_limit', message: 'Claude AI usage limit reached|1900000000', retryAt: 1900000000000 });
+      expect(classifyAccountError('Invalid API key · Please run /login')).toMatchObject({ kind: 'auth' });
+      expect(classifyAccountError('API Error: 401 {"type":"authentication_error"}')).toMatchObject({ kind: 'auth' });
+      expect(classifyAccountError('API Error: 500 Internal server error')).toBeNull();
+    });
+
+    it('should read failures from error replies and results', () => {
+      expect(detectAccountFailure({
+        type: 'assistant',
+        message: { role: 'assistant', content: [{ type: 'text', text: 'API Error: 429 rate limited' }] },
+      })).toMatchObject({ kind: 'rate_limit' });
+      expect(detectAccountFailure({ type: 'result', is_error: true, result: 'OAuth token has expired' }))
+        .toMatchObject({ kind: 'auth' });
+      expect(detectAccountFailure({ type: 'system' })).toBeNull();
+    });
+  });
+
+  describe('accounts file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'accounts-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read inline credentials and credentials files', () => {
+      const file = join(dir, 'b.json');
+      writeFileSync(file, JSON.stringify({ claudeAiOauth: { accessToken: 'token-b', subscriptionType: 'max' } }));
+
+      const parsed = parseAccountFile(JSON.stringify({
+        accounts: [
+          { name: 'a', accessToken: 'token-a', refreshToken: 'refresh-a' },
+          { name: 'b', credentialsFile: file },
+          { claudeAiOauth: { accessToken: 'token-c' } },
+        ],
+      }));
+
+      expect(parsed.map(account => [account.name, account.credentials.accessToken])).toEqual([
+        ['a', 'token-a'],
+        ['b', 'token-b'],
+        ['account-3', 'token-c'],
+      ]);
+      expect(parsed[0]!.credentials.refreshToken).toBe('refresh-a');
+      expect(parsed[1]!.credentialsFile).toBe(file);
+    });
+
+    it('should reject accounts without a token and duplicate names', () => {
+      expect(() => parseAccountFile('[{"name": "a"}]')).toThrow('account a has no access token');
+      expect(() => parseAccountFile('[{"name": "a", "accessToken": "x"}, {"name": "a", "accessToken": "y"}]'))
+        .toThrow('duplicate account name a');
+      expect(() => parseAccountFile('{"name": "a"}')).toThrow('expected a list of accounts');
+    });
+  });
+
+  describe('selection', () => {
+    let pool: AccountPool;
+
+    beforeEach(() => {
+      pool = new AccountPool();
+    });
+
+    it('should take accounts in turn with round-robin', () => {
+      pool.setAccounts(accounts, { strategy: 'round-robin' });
+
+      const picks = [1, 2, 3, 4].map(() => pool.select()!.name);
+
+      expect(picks).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should pick the account with the fewest requests in flight', () => {
+      pool.setAccounts(accounts, { strategy: 'least-loaded' });
+      pool.acquire('a');
+      const releaseB = pool.acquire('b');
+
+      expect(pool.select()!.name).toBe('c');
+      pool.acquire('c');
+      releaseB();
+      expect(pool.select()!.name).toBe('b');
+    });
+
+    it('should keep a client key on the same account with sticky', () => {
+      pool.setAccounts(accounts, { strategy: 'sticky' });
+
+      const first = pool.select('alice')!.name;
+      pool.acquire(first);
+      const other = pool.select('bob')!.name;
+
+      expect(other).not.toBe(first);
+      expect(pool.select('alice')!.name).toBe(first);
+    });
+
+    it('should skip accounts sitting out until their cooldown ends', () => {
+      pool.setAccounts(accounts, { strategy: 'round-robin', cooldownMs: 60_000 });
+      const now = Date.now();
+      pool.reportFailure('a', { kind: 'rate_limit', message: 'limited' }, now);
+
+      expect([1, 2, 3].map(() => pool.select(undefined, new Set(), now)!.name)).toEqual(['b', 'c', 'b']);
+      expect(pool.select(undefined, new Set(), now + 60_000)!.name).toBe('c');
+
+      const status = pool.getStatus(now).accounts[0]!;
+      expect(status).toMatchObject({ name: 'a', status: 'cooling_down', failures: 1, lastError: 'rate_limit: limited' });
+    });
+
+    it('should fall back to the account back soonest when all sit out', () => {
+      pool.setAccounts(accounts.slice(0, 2), { cooldownMs: 60_000 });
+      const now = Date.now();
+      pool.reportFailure('a', { kind: 'auth', message: 'expired' }, now);
+      pool.reportFailure('b', { kind: 'rate_limit', message: 'limited', retryAt: now + 3_600_000 }, now);
+
+      expect(pool.select(undefined, new Set(), now)!.name).toBe('a');
+      expect(pool.select(undefined, new Set(['a']), now)!.name).toBe('b');
+      expect(pool.select(undefined, new Set(['a', 'b']), now)).toBeNull();
+    });
+
+    it('should total usage per account', () => {
+      pool.setAccounts(accounts);
+      pool.recordUsage('a', { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 2 });
+      pool.recordUsage('a', { input_tokens: 1, output_tokens: 1 });
+
+      expect(pool.getStatus().accounts[0]!.usage).toEqual({ input_tokens: 13, output_tokens: 6 });
+    });
+  });
+});
@@ -8,8 +8,10 @@ import {
   waitForResponse,
   parseSSEEvents,
   createMockClaudeManager,
+  createMockClaudeManagerNonStreaming,
 } from './setup.js';
 import type { ClaudeStreamMessage } from '../src/core/types.js';
+import { ClaudeRequestError } from '../src/core/errors.js';
 
 // Mock claude-manager - must use factory function without external references
 vi.mock('../src/core/claude-manager.js', () => {
@@ -29,17 +31,27 @@ vi.mock('../src/core/claude-manager.js', () => {
   };
 });
 
-// Mock config
-vi.mock('../src/core/config.js', () => ({
-  config: {
-    hasValidCredentials: vi.fn(() => true),
-    getCredentials: vi.fn(() => ({
-      accessToken: 'test-token',
-      subscriptionType: 'claude_max',
-    })),
-    init: vi.fn(),
-  },
-}));
+// Mock config, keeping the real parameter strictness so header tests see its default
+vi.mock('../src/core/config.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../src/core/config.js')>();
+  return {
+    config: {
+      hasValidCredentials: vi.fn(() => true),
+      getCredentials: vi.fn(() => ({
+        accessToken: 'test-token',
+        subscriptionType: 'claude_max',
+      })),
+      init: vi.fn(),
+      getImageConfig: vi.fn(() => ({
+        maxBytes: 1024,
+        allowRemoteFetch: false,
+        fetchTimeoutMs: 1000,
+      })),
+      getConversationMode: vi.fn(() => 'transcript'),
+      getParameterStrictness: actual.config.getParameterStrictness,
+    },
+  };
+});
 
 // Import after mocks
 import { claudeManager } from '../src/core/claude-manager.js';
@@ -153,6 +165,25 @@ describe('Anthropic Messages API', () => {
       });
       expect(valid.valid).toBe(true);
     });
+
+    it('should validate the system prompt shape', () => {
+      const invalid = validateRequest({
+        model: 'claude-3-5-sonnet-20241022',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 1000,
+        system: [{ type: 'image' }],
+      });
+      expect(invalid.valid).toBe(false);
+      expect(invalid.error).toContain('system');
+
+      const valid = validateRequest({
+        model: 'claude-3-5-sonnet-20241022',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 1000,
+        system: [{ type: 'text', text: 'Be brief.' }],
+      });
+      expect(valid.valid).toBe(true);
+    });
   });
 
   describe('Non-Streaming Response', () => {
@@ -196,7 +227,7 @@ describe('Anthropic Messages API', () => {
       expect(body.type).toBe('message');
       expect(body.id).toMatch(/^msg-/);
       expect(body.role).toBe('assistant');
-      expect(body.model).toBe('claude-3-5-sonnet-20241022');
+      expect(body.model).toBe('claude-sonnet-4-5-20250929');
       expect(body.content).toHaveLength(1);
       expect(body.content[0].type).toBe('text');
       expect(body.content[0].text).toBe('Hello from Claude!');
@@ -305,11 +336,338 @@ describe('Anthropic Messages API', () => {
       expect(messageStart).toBeDefined();
       const data = messageStart?.data as any;
       expect(data.message.id).toMatch(/^msg-/);
-      expect(data.message.model).toBe('claude-3-5-sonnet-20241022');
+      expect(data.message.model).toBe('claude-sonnet-4-5-20250929');
       expect(data.message.role).toBe('assistant');
     });
   });
 
+  describe('System Prompt', () => {
+    it('should pass system blocks as the system prompt', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Ok');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5-20250929',
+        max_tokens: 100,
+        system: [
+          { type: 'text', text: 'You are a pirate.' },
+          { type: 'text', text: 'Keep it short.', cache_control: { type: 'ephemeral' } },
+        ],
+        messages: [{ role: 'user', content: 'Hello' }],
+      }, 'test-req-system-1');
+
+      await waitForResponse(res);
+
+      const [prompt, , , , options] = vi.mocked(claudeManager.sendMessage).mock.calls[0]!;
+      expect(prompt).toBe('Hello');
+      expect(options!.systemPrompt).toBe('You are a pirate.\nKeep it short.');
+    });
+  });
+
+  describe('Tool Use', () => {
+    const tools = [{ name: 'read_file', input_schema: { type: 'object' } }];
+
+    it('should reject tool_choice naming an unknown tool', () => {
+      const result = validateRequest({
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 100,
+        tools,
+        tool_choice: { type: 'tool', name: 'missing' },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('missing');
+    });
+
+    it('should return tool_use blocks with stop_reason tool_use', async () => {
+      const mock = createMockClaudeManagerNonStreaming(
+        'Let me look.\n<tool_call name="read_file">\n{"path": "a.txt"}\n</tool_call>'
+      );
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Read a.txt' }],
+        max_tokens: 100,
+        tools,
+      }, 'test-req-tools-1');
+
+      await waitForResponse(res);
+
+      const options = vi.mocked(claudeManager.sendMessage).mock.calls[0]![4];
+      expect(options!.systemPrompt).toContain('- read_file');
+
+      const body = JSON.parse(res._body);
+      expect(body.stop_reason).toBe('tool_use');
+      expect(body.content).toEqual([
+        { type: 'text', text: 'Let me look.' },
+        { type: 'tool_use', id: expect.stringMatching(/^toolu/), name: 'read_file', input: { path: 'a.txt' } },
+      ]);
+    });
+
+    it('should stream tool_use blocks with input_json_delta', async () => {
+      const mock = createMockClaudeManager('Sure. <tool_call name="read_file">{"path": "a.txt"}</tool_call>');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Read a.txt' }],
+        max_tokens: 100,
+        tools,
+        stream: true,
+      }, 'test-req-tools-2');
+
+      await waitForResponse(res);
+
+      const events = parseSSEEvents(res._body).map(e => e.data as any);
+      const starts = events.filter(e => e.type === 'content_block_start');
+      expect(starts.map(e => e.content_block.type)).toEqual(['text', 'tool_use']);
+      expect(starts[1].index).toBe(1);
+      expect(starts[1].content_block).toMatchObject({ name: 'read_file', input: {} });
+
+      const json = events
+        .filter(e => e.type === 'content_block_delta' && e.delta.type === 'input_json_delta')
+        .map(e => e.delta.partial_json)
+        .join('');
+      expect(JSON.parse(json)).toEqual({ path: 'a.txt' });
+
+      const stops = events.filter(e => e.type === 'content_block_stop').map(e => e.index);
+      expect(stops).toEqual([0, 1]);
+      expect(events.find(e => e.type === 'message_delta').delta.stop_reason).toBe('tool_use');
+    });
+  });
+
+  describe('Output Limits', () => {
+    it('should cut the response at a stop sequence and report it', async () => {
+      const mock = createMockClaudeManagerNonStreaming('The answer is 42.\nEND\nExtra text');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Answer' }],
+        max_tokens: 100,
+        stop_sequences: ['END'],
+      }, 'test-req-limits-1');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.content).toEqual([{ type: 'text', text: 'The answer is 42.\n' }]);
+      expect(body.stop_reason).toBe('stop_sequence');
+      expect(body.stop_sequence).toBe('END');
+    });
+
+    it('should end the stream at max_tokens and stop generating', async () => {
+      const mock = createMockClaudeManager('x'.repeat(100));
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Write' }],
+        max_tokens: 5,
+        stream: true,
+      }, 'test-req-limits-2');
+
+      await waitForResponse(res);
+
+      const events = parseSSEEvents(res._body).map(e => e.data as any);
+      const text = events
+        .filter(e => e.type === 'content_block_delta')
+        .map(e => e.delta.text)
+        .join('');
+      expect(text).toBe('x'.repeat(20));
+
+      const delta = events.find(e => e.type === 'message_delta');
+      expect(delta.delta).toEqual({ stop_reason: 'max_tokens', stop_sequence: null });
+      expect(delta.usage.output_tokens).toBe(5);
+      expect(events.map(e => e.type).slice(-3)).toEqual(['content_block_stop', 'message_delta', 'message_stop']);
+
+      const handle = mock.sendMessage.mock.results[0]!.value;
+      expect(handle.cancel).toHaveBeenCalled();
+    });
+
+    it('should list parameters the CLI ignores in a response header', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 100,
+        temperature: 0.2,
+        top_k: 10,
+      }, 'test-req-limits-3');
+
+      await waitForResponse(res);
+
+      expect(res._headers['x-proxy-ignored-params']).toBe('temperature, top_k');
+    });
+
+    it('should reject ignored parameters in strict mode', async () => {
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({ headers: { 'x-proxy-strictness': 'strict' } } as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 100,
+        top_k: 10,
+      }, 'test-req-limits-4');
+
+      expect(res._statusCode).toBe(400);
+      const body = JSON.parse(res._body);
+      expect(body.type).toBe('error');
+      expect(body.error.type).toBe('invalid_request_error');
+      expect(body.error.param).toBe('top_k');
+      expect(body.error.message).toContain('top_k');
+    });
+  });
+
+  describe('Extended Thinking', () => {
+    it('should reject a thinking budget below the minimum or above max_tokens', () => {
+      const base = { model: 'claude-sonnet-4-5', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 4000 };
+
+      expect(validateRequest({ ...base, thinking: { type: 'enabled', budget_tokens: 512 } }).error)
+        .toContain('thinking.budget_tokens must be an integer >= 1024');
+      expect(validateRequest({ ...base, thinking: { type: 'enabled', budget_tokens: 4000 } }).error)
+        .toBe('thinking.budget_tokens must be less than max_tokens');
+      expect(validateRequest({ ...base, thinking: { type: 'adaptive' } }).valid).toBe(false);
+      expect(validateRequest({ ...base, thinking: { type: 'disabled' } }).valid).toBe(true);
+    });
+
+    it('should stream thinking and signature deltas when thinking is enabled', async () => {
+      const mock = createMockClaudeManager('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        max_tokens: 4000,
+        thinking: { type: 'enabled', budget_tokens: 2048 },
+        stream: true,
+      }, 'test-req-thinking-1');
+
+      await waitForResponse(res);
+
+      expect(mock.sendMessage.mock.calls[0]![4]).toMatchObject({ thinkingTokens: 2048 });
+
+      const events = parseSSEEvents(res._body).map(e => e.data as any);
+      const starts = events.filter(e => e.type === 'content_block_start');
+      expect(starts.map(e => [e.index, e.content_block.type])).toEqual([[0, 'thinking'], [1, 'text']]);
+
+      const deltas = events.filter(e => e.type === 'content_block_delta').map(e => e.delta);
+      expect(deltas).toEqual([
+        { type: 'thinking_delta', thinking: 'Two plus two is four.' },
+        { type: 'signature_delta', signature: 'sig_test' },
+        { type: 'text_delta', text: 'The answer is 4.' },
+      ]);
+      expect(events.filter(e => e.type === 'content_block_stop').map(e => e.index)).toEqual([0, 1]);
+    });
+
+    it('should leave thinking out of the stream unless it was requested', async () => {
+      const mock = createMockClaudeManager('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        max_tokens: 100,
+        stream: true,
+      }, 'test-req-thinking-2');
+
+      await waitForResponse(res);
+
+      expect(mock.sendMessage.mock.calls[0]![4].thinkingTokens).toBeUndefined();
+
+      const events = parseSSEEvents(res._body).map(e => e.data as any);
+      const starts = events.filter(e => e.type === 'content_block_start');
+      expect(starts.map(e => [e.index, e.content_block.type])).toEqual([[0, 'text']]);
+      expect(events.filter(e => e.type === 'content_block_stop').map(e => e.index)).toEqual([0]);
+    });
+
+    it('should return signed thinking blocks ahead of the text', async () => {
+      const mock = createMockClaudeManagerNonStreaming('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        max_tokens: 4000,
+        thinking: { type: 'enabled', budget_tokens: 1024 },
+      }, 'test-req-thinking-3');
+
+      await waitForResponse(res);
+
+      expect(JSON.parse(res._body).content).toEqual([
+        { type: 'thinking', thinking: 'Two plus two is four.', signature: 'sig_test' },
+        { type: 'text', text: 'The answer is 4.' },
+      ]);
+    });
+
+    it('should turn thinking off when it is disabled', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 100,
+        thinking: { type: 'disabled' },
+      }, 'test-req-thinking-4');
+
+      await waitForResponse(res);
+
+      expect(mock.sendMessage.mock.calls[0]![4]).toMatchObject({ thinkingTokens: 0 });
+    });
+  });
+
+  describe('Image Inputs', () => {
+    it('should reject oversized images with an Anthropic-style 400', async () => {
+      const png = Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        Buffer.alloc(2048),
+      ]).toString('base64');
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5',
+        messages: [{
+          role: 'user',
+          content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: png } }],
+        }],
+        max_tokens: 100,
+      }, 'test-req-image-1');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(400);
+      const body = JSON.parse(res._body);
+      expect(body.type).toBe('error');
+      expect(body.error.type).toBe('invalid_request_error');
+      expect(body.error.message).toContain('exceeds');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle Claude manager errors in non-streaming', async () => {
       vi.mocked(claudeManager.sendMessage).mockImplementation((
@@ -369,6 +727,36 @@ describe('Anthropic Messages API', () => {
       const errorEvent = events.find(e => e.event === 'error');
       expect(errorEvent).toBeDefined();
     });
+
+    it('should report timeouts as overloaded_error with the error status', async () => {
+      vi.mocked(claudeManager.sendMessage).mockImplementation((
+        prompt: string,
+        onEvent: (msg: any) => void,
+        onError: (err: Error) => void
+      ) => {
+        setTimeout(() => {
+          onError(new ClaudeRequestError('overloaded_error', 'Claude did not start responding', 529));
+        }, 1);
+        return { id: 'r1', cancel: vi.fn() };
+      });
+
+      const res = createMockResponse();
+
+      await handleAnthropicMessages({} as any, res, {
+        model: 'claude-sonnet-4-5-20250929',
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 100,
+        stream: false,
+      }, 'test-req-timeout');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(529);
+      const body = JSON.parse(res._body);
+      expect(body.type).toBe('error');
+      expect(body.error.type).toBe('overloaded_error');
+      expect(body.error.message).toContain('did not start responding');
+    });
   });
 
   describe('Supported Parameters', () => {
@@ -0,0 +1,1087 @@
+/**
+ * Tests for the Claude CLI worker pool
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ClaudeStreamMessage } from '../src/core/types.js';
+
+/**
+ * Fake Claude CLI process driven by the test
+ */
+class FakeProcess extends EventEmitter {
+  static nextPid = 1000;
+  stdin = new PassThrough();
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  pid = FakeProcess.nextPid++;
+  killed = false;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  written: string[] = [];
+
+  constructor(args: string[], env: NodeJS.ProcessEnv = {}) {
+    super();
+    this.args = args;
+    this.env = env;
+    this.stdin.on('data', (chunk: Buffer) => {
+      this.written.push(...chunk.toString().split('\n').filter(Boolean));
+    });
+  }
+
+  emitMessage(msg: ClaudeStreamMessage): void {
+    this.stdout.write(JSON.stringify(msg) + '\n');
+  }
+
+  kill(): boolean {
+    this.killed = true;
+    setTimeout(() => this.emit('close', null), 0);
+    return true;
+  }
+}
+
+const spawned: FakeProcess[] = [];
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn((cmd: string, args: string[], options?: { env?: NodeJS.ProcessEnv }) => {
+    const proc = new FakeProcess(args, options?.env);
+    spawned.push(proc);
+    return proc;
+  }),
+}));
+
+import { ClaudeProcessManager } from '../src/core/claude-manager.js';
+import { config } from '../src/core/config.js';
+import { accountPool } from '../src/core/account-pool.js';
+import { registry, proxyMetrics } from '../src/core/metrics.js';
+import { Span } from '../src/core/tracing.js';
+import type { RequestHandle } from '../src/core/claude-manager.js';
+import { getSessionPath } from '../src/core/claude-session.js';
+
+/**
+ * List seeded session files under a CLI config directory
+ */
+function readdirSessions(configDir: string): string[] {
+  const projects = join(configDir, 'projects');
+  if (!existsSync(projects)) return [];
+  return readdirSync(projects).flatMap(dir => readdirSync(join(projects, dir)));
+}
+
+/**
+ * Wait for pending stream and timer callbacks
+ */
+function flush(ms = 5): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function createHandlers() {
+  return {
+    onEvent: vi.fn(),
+    onError: vi.fn(),
+    onDone: vi.fn(),
+  };
+}
+
+function send(
+  manager: ClaudeProcessManager,
+  handlers: ReturnType<typeof createHandlers>,
+  prompt = 'Hello',
+  options = {}
+): RequestHandle {
+  return manager.sendMessage(prompt, handlers.onEvent, handlers.onError, handlers.onDone, options);
+}
+
+describe('ClaudeProcessManager', () => {
+  let manager: ClaudeProcessManager;
+
+  beforeEach(() => {
+    spawned.length = 0;
+  });
+
+  afterEach(() => {
+    manager?.shutdown();
+  });
+
+  describe('Worker pool', () => {
+    it('should spawn a worker per concurrent request up to maxWorkers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers());
+      send(manager, createHandlers());
+      send(manager, createHandlers());
+
+      expect(spawned).toHaveLength(2);
+
+      const status = manager.getStatus();
+      expect(status.workers).toHaveLength(2);
+      expect(status.workers.every(w => w.state === 'busy')).toBe(true);
+      expect(status.queueLength).toBe(1);
+    });
+
+    it('should dispatch queued requests when a worker finishes', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      const first = createHandlers();
+      const second = createHandlers();
+      send(manager, first, 'first');
+      send(manager, second, 'second');
+
+      await flush();
+      expect(spawned).toHaveLength(1);
+      expect(spawned[0]!.written).toHaveLength(1);
+
+      spawned[0]!.emitMessage({ type: 'result', usage: { input_tokens: 1, output_tokens: 1 } });
+      await flush();
+
+      expect(first.onDone).toHaveBeenCalledWith(0);
+      expect(spawned[0]!.written).toHaveLength(2);
+      expect(JSON.parse(spawned[0]!.written[1]!).message.content).toBe('second');
+      expect(manager.getStatus().queueLength).toBe(0);
+    });
+
+    it('should route events only to the request owning the worker', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      const first = createHandlers();
+      const second = createHandlers();
+      send(manager, first);
+      send(manager, second);
+
+      spawned[1]!.emitMessage({ type: 'assistant', message: { role: 'assistant', content: [] } });
+      await flush();
+
+      expect(first.onEvent).not.toHaveBeenCalled();
+      expect(second.onEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prefer the idle worker matching the affinity key', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { affinityKey: 'alice' });
+      send(manager, createHandlers(), 'b', { affinityKey: 'bob' });
+      await flush();
+
+      for (const proc of spawned) {
+        proc.emitMessage({ type: 'result' });
+      }
+      await flush();
+
+      send(manager, createHandlers(), 'b2', { affinityKey: 'bob' });
+      await flush();
+
+      expect(spawned[1]!.written).toHaveLength(2);
+      expect(spawned[0]!.written).toHaveLength(1);
+    });
+
+    it('should fail the pending request and free the slot when a worker exits', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      const first = createHandlers();
+      const second = createHandlers();
+      send(manager, first);
+      send(manager, second);
+
+      spawned[0]!.emit('close', 1);
+      await flush();
+
+      expect(first.onError).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Process exited with code 1',
+      }));
+      expect(spawned).toHaveLength(2);
+      expect(manager.getStatus().queueLength).toBe(0);
+    });
+  });
+
+  describe('Credentials', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should give each request-scoped token its own workers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 3, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { oauthToken: 'token-a' });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      send(manager, createHandlers(), 'b', { oauthToken: 'token-b' });
+      send(manager, createHandlers(), 'c', { oauthToken: 'token-a' });
+      send(manager, createHandlers(), 'd');
+      await flush();
+
+      expect(spawned).toHaveLength(3);
+      expect(spawned[0]!.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('token-a');
+      expect(spawned[1]!.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('token-b');
+      expect(spawned[2]!.env.CLAUDE_CODE_OAUTH_TOKEN).toBe(process.env.CLAUDE_CODE_OAUTH_TOKEN);
+      expect(spawned[0]!.written).toHaveLength(2);
+    });
+
+    it('should restart workers using the old token when the global one changes', async () => {
+      vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', 'old-token');
+      manager = new ClaudeProcessManager({ minWorkers: 1, maxWorkers: 3, idleTimeoutMs: 0 });
+      send(manager, createHandlers(), 'a');
+      send(manager, createHandlers(), 'b', { oauthToken: 'scoped-token' });
+      await flush();
+      expect(spawned).toHaveLength(2);
+      const [busy, scoped] = spawned;
+
+      config.setCredentials({ accessToken: 'new-token', subscriptionType: 'max' });
+      await flush();
+
+      // The busy worker finishes its turn before it is replaced
+      expect(busy!.killed).toBe(false);
+      expect(scoped!.killed).toBe(false);
+      busy!.emitMessage({ type: 'result' });
+      await flush();
+
+      expect(busy!.killed).toBe(true);
+      const fresh = spawned.slice(2);
+      expect(fresh.length).toBeGreaterThan(0);
+      expect(fresh.every(proc => proc.env.CLAUDE_CODE_OAUTH_TOKEN === 'new-token')).toBe(true);
+    });
+  });
+
+  describe('Model routing', () => {
+    it('should launch workers with the requested thinking budget', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 3, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { thinkingTokens: 8192 });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      send(manager, createHandlers(), 'b', { thinkingTokens: 0 });
+      send(manager, createHandlers(), 'c', { thinkingTokens: 8192 });
+      send(manager, createHandlers(), 'd');
+      await flush();
+
+      expect(spawned).toHaveLength(3);
+      expect(spawned[0]!.env.MAX_THINKING_TOKENS).toBe('8192');
+      expect(spawned[1]!.env.MAX_THINKING_TOKENS).toBe('0');
+      expect(spawned[0]!.written).toHaveLength(2);
+    });
+
+    it('should launch workers with --model and only reuse them for that model', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 3, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { model: 'claude-opus-4-5-20251101' });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      send(manager, createHandlers(), 'b', { model: 'claude-haiku-4-5-20251001' });
+      send(manager, createHandlers(), 'c', { model: 'claude-opus-4-5-20251101' });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[0]!.args).toEqual(expect.arrayContaining(['--model', 'claude-opus-4-5-20251101']));
+      expect(spawned[1]!.args).toEqual(expect.arrayContaining(['--model', 'claude-haiku-4-5-20251001']));
+      expect(spawned[0]!.written).toHaveLength(2);
+      expect(manager.getStatus().workers.map(w => w.model)).toEqual([
+        'claude-opus-4-5-20251101',
+        'claude-haiku-4-5-20251001',
+      ]);
+    });
+
+    it('should replace an idle worker of another model when the pool is full', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { model: 'claude-opus-4-5-20251101' });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      send(manager, createHandlers(), 'b', { model: 'claude-haiku-4-5-20251001' });
+
+      expect(spawned[0]!.killed).toBe(true);
+      expect(spawned).toHaveLength(2);
+      expect(manager.getStatus().workers).toHaveLength(1);
+      expect(manager.getStatus().workers[0]!.model).toBe('claude-haiku-4-5-20251001');
+    });
+
+    it('should queue a request while the other model is busy', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { model: 'claude-opus-4-5-20251101' });
+      send(manager, createHandlers(), 'b', { model: 'claude-haiku-4-5-20251001' });
+      await flush();
+
+      expect(spawned).toHaveLength(1);
+      expect(manager.getStatus().queueLength).toBe(1);
+
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[1]!.written).toHaveLength(1);
+      expect(manager.getStatus().queueLength).toBe(0);
+    });
+  });
+
+  describe('System prompt and conversation replay', () => {
+    let configDir: string;
+    const history = [
+      { role: 'user' as const, content: 'My name is Ada' },
+      { role: 'assistant' as const, content: 'Nice to meet you, Ada' },
+    ];
+
+    beforeEach(() => {
+      configDir = mkdtempSync(join(tmpdir(), 'claude-config-'));
+      vi.stubEnv('CLAUDE_CONFIG_DIR', configDir);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(configDir, { recursive: true, force: true });
+    });
+
+    function sessionIdOf(proc: FakeProcess): string {
+      return proc.args[proc.args.indexOf('--resume') + 1]!;
+    }
+
+    it('should pass the system prompt at launch and key workers by it', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 3, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { systemPrompt: 'Be brief' });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      send(manager, createHandlers(), 'b', { systemPrompt: 'Be verbose' });
+      send(manager, createHandlers(), 'c', { systemPrompt: 'Be brief' });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[0]!.args).toEqual(expect.arrayContaining(['--append-system-prompt', 'Be brief']));
+      expect(spawned[1]!.args).toEqual(expect.arrayContaining(['--append-system-prompt', 'Be verbose']));
+      expect(spawned[0]!.written).toHaveLength(2);
+    });
+
+    it('should replace the built-in system prompt under the replace policy', async () => {
+      vi.stubEnv('CLAUDE_SYSTEM_PROMPT_POLICY', 'replace');
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { systemPrompt: 'Be brief' });
+      await flush();
+
+      expect(spawned[0]!.args).toEqual(expect.arrayContaining(['--system-prompt', 'Be brief']));
+      expect(spawned[0]!.args).not.toContain('--append-system-prompt');
+    });
+
+    it('should send the system prompt inline under the keep policy', async () => {
+      vi.stubEnv('CLAUDE_SYSTEM_PROMPT_POLICY', 'keep');
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Hello', { systemPrompt: 'Be brief' });
+      await flush();
+
+      expect(spawned[0]!.args).not.toContain('--system-prompt');
+      expect(spawned[0]!.args).not.toContain('--append-system-prompt');
+      expect(JSON.parse(spawned[0]!.written[0]!).message.content).toBe('System: Be brief\n\nHello');
+    });
+
+    it('should seed history as a session and resume it', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'What is my name?', { history, model: 'claude-opus-4-5-20251101' });
+      await flush();
+
+      const proc = spawned[0]!;
+      expect(proc.args).toContain('--resume');
+      expect(proc.args).not.toContain('--no-session-persistence');
+
+      const sessionId = sessionIdOf(proc);
+      const entries = readFileSync(getSessionPath(sessionId), 'utf-8')
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line));
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toMatchObject({
+        type: 'user',
+        sessionId,
+        parentUuid: null,
+        message: { role: 'user', content: 'My name is Ada' },
+      });
+      expect(entries[1]).toMatchObject({
+        type: 'assistant',
+        parentUuid: entries[0].uuid,
+        message: {
+          role: 'assistant',
+          model: 'claude-opus-4-5-20251101',
+          content: [{ type: 'text', text: 'Nice to meet you, Ada' }],
+        },
+      });
+      expect(manager.getStatus().workers[0]!.sessionId).toBe(sessionId);
+
+      const written = JSON.parse(proc.written[0]!);
+      expect(written.message.content).toBe('What is my name?');
+    });
+
+    it('should retire the resumed worker and delete its session when reuse is off', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 }, {}, { reuse: false });
+      const handlers = createHandlers();
+
+      send(manager, handlers, 'What is my name?', { history });
+      await flush();
+      const sessionPath = getSessionPath(sessionIdOf(spawned[0]!));
+      expect(existsSync(sessionPath)).toBe(true);
+
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      expect(handlers.onDone).toHaveBeenCalled();
+      expect(spawned[0]!.killed).toBe(true);
+      expect(manager.getStatus().workers).toHaveLength(0);
+      expect(existsSync(sessionPath)).toBe(false);
+    });
+
+    it('should give each conversation its own worker', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'first', { history });
+      send(manager, createHandlers(), 'second', { history });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(sessionIdOf(spawned[0]!)).not.toBe(sessionIdOf(spawned[1]!));
+    });
+
+    it('should delete the session of a cancelled queued request', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'busy');
+      const handle = send(manager, createHandlers(), 'queued', { history });
+      await flush();
+
+      const files = () => readdirSessions(configDir);
+      expect(files()).toHaveLength(1);
+
+      handle.cancel();
+      expect(files()).toHaveLength(0);
+    });
+  });
+
+  describe('Session reuse', () => {
+    let configDir: string;
+
+    beforeEach(() => {
+      configDir = mkdtempSync(join(tmpdir(), 'claude-config-'));
+      vi.stubEnv('CLAUDE_CONFIG_DIR', configDir);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      rmSync(configDir, { recursive: true, force: true });
+    });
+
+    function reply(proc: FakeProcess, text: string): void {
+      proc.emitMessage({
+        type: 'assistant',
+        message: { role: 'assistant', content: [{ type: 'text', text }] },
+      });
+      proc.emitMessage({ type: 'result' });
+    }
+
+    const firstTurn = [
+      { role: 'user' as const, content: 'Hi' },
+      { role: 'assistant' as const, content: 'Hello!' },
+    ];
+
+    it('should send only the new turn to the live session when the prefix matches', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Hi', { history: [] });
+      await flush();
+      expect(spawned[0]!.args).toContain('--session-id');
+      reply(spawned[0]!, 'Hello!');
+      await flush();
+
+      expect(spawned[0]!.killed).toBe(false);
+      expect(manager.getStatus().sessions).toMatchObject({ cached: 1, live: 1 });
+
+      send(manager, createHandlers(), 'How are you?', { history: firstTurn });
+      await flush();
+
+      expect(spawned).toHaveLength(1);
+      expect(spawned[0]!.written).toHaveLength(2);
+      expect(JSON.parse(spawned[0]!.written[1]!).message.content).toBe('How are you?');
+      expect(manager.getStatus().sessions).toMatchObject({ hits: 1, misses: 1, resumed: 0 });
+    });
+
+    it('should fall back to a full replay when history was edited', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Hi', { history: [] });
+      await flush();
+      reply(spawned[0]!, 'Hello!');
+      await flush();
+
+      send(manager, createHandlers(), 'How are you?', {
+        history: [firstTurn[0]!, { role: 'assistant', content: 'Edited reply' }],
+      });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[1]!.args).toContain('--resume');
+      expect(spawned[0]!.written).toHaveLength(1);
+      expect(manager.getStatus().sessions).toMatchObject({ hits: 0, misses: 2 });
+    });
+
+    it('should not reuse a session across system prompts', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Hi', { history: [], systemPrompt: 'Be brief' });
+      await flush();
+      reply(spawned[0]!, 'Hello!');
+      await flush();
+
+      send(manager, createHandlers(), 'How are you?', { history: firstTurn, systemPrompt: 'Be verbose' });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(manager.getStatus().sessions.hits).toBe(0);
+    });
+
+    it('should resume a stored session once its worker was stopped', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 1000 });
+
+      send(manager, createHandlers(), 'Hi', { history: [] });
+      await flush();
+      const sessionId = spawned[0]!.args[spawned[0]!.args.indexOf('--session-id') + 1];
+      reply(spawned[0]!, 'Hello!');
+      await flush();
+
+      manager.reapIdleWorkers(Date.now() + 2000);
+      await flush();
+      expect(manager.getStatus().sessions).toMatchObject({ cached: 1, live: 0 });
+
+      send(manager, createHandlers(), 'How are you?', { history: firstTurn });
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[1]!.args).toEqual(expect.arrayContaining(['--resume', sessionId]));
+      expect(JSON.parse(spawned[1]!.written[0]!).message.content).toBe('How are you?');
+      expect(manager.getStatus().sessions).toMatchObject({ hits: 1, resumed: 1 });
+    });
+
+    it('should match replies that were cut after a tool call', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Weather?', { history: [] });
+      await flush();
+      reply(spawned[0]!, 'Checking.\n<tool_call name="get_weather">{"city": "SF"}</tool_call>\nMore text');
+      await flush();
+
+      send(manager, createHandlers(), '<tool_result>Sunny</tool_result>', {
+        history: [
+          { role: 'user', content: 'Weather?' },
+          { role: 'assistant', content: 'Checking.\n<tool_call name="get_weather">\n{"city": "SF"}\n</tool_call>' },
+        ],
+      });
+      await flush();
+
+      expect(spawned).toHaveLength(1);
+      expect(manager.getStatus().sessions.hits).toBe(1);
+    });
+
+    it('should evict the least recently used session beyond the limit', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 3, idleTimeoutMs: 0 },
+        {},
+        { maxSessions: 1 }
+      );
+
+      send(manager, createHandlers(), 'First', { history: [] });
+      await flush();
+      reply(spawned[0]!, 'One');
+      await flush();
+
+      send(manager, createHandlers(), 'Second', { history: [] });
+      await flush();
+      reply(spawned[1]!, 'Two');
+      await flush();
+
+      expect(spawned[0]!.killed).toBe(true);
+      expect(spawned[1]!.killed).toBe(false);
+      expect(manager.getStatus().sessions).toMatchObject({ cached: 1, live: 1 });
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should drop a queued request without calling its handlers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'first');
+      const queued = createHandlers();
+      const handle = send(manager, queued, 'second');
+
+      handle.cancel();
+      expect(manager.getStatus().queueLength).toBe(0);
+
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      expect(spawned[0]!.written).toHaveLength(1);
+      expect(queued.onEvent).not.toHaveBeenCalled();
+      expect(queued.onError).not.toHaveBeenCalled();
+      expect(queued.onDone).not.toHaveBeenCalled();
+      expect(manager.getStatus().cancelledCount).toBe(1);
+    });
+
+    it('should kill the running turn and start the next queued request immediately', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      const running = createHandlers();
+      const queued = createHandlers();
+      const handle = send(manager, running, 'first');
+      send(manager, queued, 'second');
+
+      handle.cancel();
+
+      expect(spawned[0]!.killed).toBe(true);
+      expect(spawned).toHaveLength(2);
+      expect(manager.getStatus().queueLength).toBe(0);
+
+      await flush();
+      expect(JSON.parse(spawned[1]!.written[0]!).message.content).toBe('second');
+      expect(running.onError).not.toHaveBeenCalled();
+      expect(running.onDone).not.toHaveBeenCalled();
+    });
+
+    it('should ignore cancellation after the request completed', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      const handle = send(manager, createHandlers());
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush();
+
+      handle.cancel();
+
+      expect(spawned[0]!.killed).toBe(false);
+      expect(manager.getStatus().cancelledCount).toBe(0);
+    });
+  });
+
+  describe('Usage reporting', () => {
+    it('should report the turn usage once when it completes', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+      const onUsage = vi.fn();
+
+      const handle = send(manager, createHandlers(), 'Hello', { onUsage });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result', usage: { input_tokens: 12, output_tokens: 30 } });
+      await flush();
+      handle.cancel();
+
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({ input_tokens: 12, output_tokens: 30 });
+    });
+
+    it('should report the usage counted so far when a turn is cancelled', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+      const onUsage = vi.fn();
+
+      const handle = send(manager, createHandlers(), 'Hello', { onUsage });
+      await flush();
+      spawned[0]!.emitMessage({
+        type: 'stream_event',
+        event: { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } },
+      });
+      spawned[0]!.emitMessage({
+        type: 'stream_event',
+        event: { type: 'message_delta', delta: {}, usage: { output_tokens: 7 } },
+      });
+      await flush();
+      handle.cancel();
+
+      expect(onUsage).toHaveBeenCalledTimes(1);
+      expect(onUsage).toHaveBeenCalledWith({ input_tokens: 12, output_tokens: 7 });
+    });
+  });
+
+  describe('Accounts', () => {
+    const accounts = [
+      { name: 'first', credentials: { accessToken: 'token-1' } },
+      { name: 'second', credentials: { accessToken: 'token-2' } },
+    ];
+    const limited: ClaudeStreamMessage[] = [
+      { type: 'system', subtype: 'init' },
+      {
+        type: 'assistant',
+        message: { role: 'assistant', content: [{ type: 'text', text: 'API Error: 429 rate_limit_error' }] },
+      },
+      { type: 'result', is_error: true, result: 'API Error: 429 rate_limit_error' },
+    ];
+
+    beforeEach(() => {
+      accountPool.setAccounts(accounts, { strategy: 'round-robin', cooldownMs: 60_000 });
+    });
+
+    afterEach(() => {
+      accountPool.setAccounts([]);
+    });
+
+    it('should run requests on account workers in turn', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'a', { clientKey: 'alice' });
+      send(manager, createHandlers(), 'b', { clientKey: 'alice' });
+      await flush();
+
+      expect(spawned.map(proc => proc.env.CLAUDE_CODE_OAUTH_TOKEN)).toEqual(['token-1', 'token-2']);
+      expect(accountPool.getStatus().accounts.map(account => account.inFlight)).toEqual([1, 1]);
+    });
+
+    it('should fail over to another account on a rate limit before any output', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+      const handlers = createHandlers();
+
+      send(manager, handlers, 'Hello');
+      await flush();
+      for (const msg of limited) spawned[0]!.emitMessage(msg);
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(spawned[1]!.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('token-2');
+      expect(JSON.parse(spawned[1]!.written[0]!).message.content).toBe('Hello');
+      expect(handlers.onEvent).not.toHaveBeenCalled();
+      expect(handlers.onDone).not.toHaveBeenCalled();
+
+      spawned[1]!.emitMessage({ type: 'stream_event', event: { type: 'message_start', message: {} } });
+      spawned[1]!.emitMessage({ type: 'result', usage: { input_tokens: 3, output_tokens: 4 } });
+      await flush();
+
+      expect(handlers.onDone).toHaveBeenCalledTimes(1);
+      expect(handlers.onEvent.mock.calls.map(([msg]) => msg.type)).toEqual(['stream_event', 'result']);
+      const [first, second] = accountPool.getStatus().accounts;
+      expect(first).toMatchObject({ status: 'cooling_down', failures: 1, inFlight: 0 });
+      expect(second).toMatchObject({ status: 'available', inFlight: 0, usage: { input_tokens: 3, output_tokens: 4 } });
+    });
+
+    it('should pass the error on once every account has failed', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+      const handlers = createHandlers();
+
+      send(manager, handlers, 'Hello');
+      await flush();
+      for (const msg of limited) spawned[0]!.emitMessage(msg);
+      await flush();
+      for (const msg of limited) spawned[1]!.emitMessage(msg);
+      await flush();
+
+      expect(spawned).toHaveLength(2);
+      expect(handlers.onEvent).toHaveBeenCalledTimes(limited.length);
+      expect(handlers.onDone).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry once the model has started streaming', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+      const handlers = createHandlers();
+
+      send(manager, handlers, 'Hello');
+      await flush();
+      spawned[0]!.emitMessage({ type: 'stream_event', event: { type: 'message_start', message: {} } });
+      spawned[0]!.emitMessage({ type: 'result', is_error: true, result: 'API Error: 429 rate_limit_error' });
+      await flush();
+
+      expect(spawned).toHaveLength(1);
+      expect(handlers.onDone).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Metrics', () => {
+    beforeEach(() => {
+      registry.reset();
+    });
+
+    it('should record starts, parse errors, queue wait and time to first token', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'Hello', { model: 'claude-opus-4-5-20251101' });
+      await flush();
+      spawned[0]!.stdout.write('not json\n');
+      spawned[0]!.emitMessage({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+      });
+      await flush();
+
+      expect(proxyMetrics.cliStarts.get()).toBe(1);
+      expect(proxyMetrics.parseErrors.get()).toBe(1);
+      const rendered = registry.render();
+      expect(rendered).toContain('claude_proxy_queue_wait_seconds_count 1');
+      expect(rendered).toContain('claude_proxy_time_to_first_token_seconds_count{model="claude-opus-4-5-20251101"} 1');
+    });
+
+    it('should count CLI processes stopped mid-turn by reason', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      const handle = send(manager, createHandlers(), 'a');
+      send(manager, createHandlers(), 'b');
+      await flush();
+      handle.cancel();
+      spawned[1]!.emit('close', 1);
+      await flush();
+
+      expect(proxyMetrics.cliRestarts.get({ reason: 'cancelled' })).toBe(1);
+      expect(proxyMetrics.cliRestarts.get({ reason: 'exited' })).toBe(1);
+    });
+  });
+
+  describe('Tracing', () => {
+    function traceRoot() {
+      const ended: Span[] = [];
+      const root = new Span('POST /v1/messages', { kind: 'server' }, span => ended.push(span));
+      const find = (name: string) => ended.map(span => span.toOtlp() as any).find(span => span.name === name);
+      return { root, ended, find };
+    }
+
+    it('should record queue, spawn, first token and completion spans under the request', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+      const { root, ended, find } = traceRoot();
+
+      const handlers = createHandlers();
+      send(manager, handlers, 'Hello', { model: 'claude-opus-4-5-20251101', span: root });
+      await flush();
+      spawned[0]!.emitMessage({ type: 'system', subtype: 'init' });
+      await flush();
+      expect(ended.map(span => span.name)).toEqual(['claude.queue', 'claude.spawn']);
+
+      spawned[0]!.emitMessage({
+        type: 'stream_event',
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+      });
+      spawned[0]!.emitMessage({ type: 'result', usage: { input_tokens: 10, output_tokens: 3 } });
+      await flush();
+
+      expect(handlers.onDone).toHaveBeenCalled();
+      expect(ended.map(span => span.name)).toEqual(['claude.queue', 'claude.spawn', 'claude.first_token', 'claude.completion']);
+      expect(ended.every(span => span.traceId === root.traceId)).toBe(true);
+      const completion = find('claude.completion');
+      expect(completion.parentSpanId).toBe(root.spanId);
+      expect(completion.status).toEqual({});
+      expect(completion.attributes).toEqual(expect.arrayContaining([
+        { key: 'gen_ai.request.model', value: { stringValue: 'claude-opus-4-5-20251101' } },
+        { key: 'gen_ai.usage.input_tokens', value: { intValue: 10 } },
+        { key: 'gen_ai.usage.output_tokens', value: { intValue: 3 } },
+      ]));
+    });
+
+    it('should mark the spans of a cancelled request failed', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+      send(manager, createHandlers());
+      const { root, ended, find } = traceRoot();
+
+      const handle = send(manager, createHandlers(), 'Queued', { span: root });
+      await flush();
+      handle.cancel();
+
+      expect(ended.map(span => span.name)).toEqual(['claude.queue']);
+      expect(find('claude.queue').status).toEqual({ code: 2, message: 'Cancelled' });
+    });
+  });
+
+  describe('Timeouts', () => {
+    const noTimeouts = { firstTokenMs: 0, idleMs: 0, totalMs: 0, watchdogStallMs: 0 };
+    const delta: ClaudeStreamMessage = {
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } },
+    };
+
+    it('should fail with overloaded_error when no token arrives in time', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 },
+        { ...noTimeouts, firstTokenMs: 20 }
+      );
+
+      const handlers = createHandlers();
+      send(manager, handlers);
+      await flush(40);
+
+      expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'overloaded_error',
+        statusCode: 529,
+        code: 'first_token_timeout',
+      }));
+      expect(spawned[0]!.killed).toBe(true);
+      expect(manager.getStatus().timeouts.firstToken).toBe(1);
+    });
+
+    it('should fail with api_error when events stop after the first token', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 },
+        { ...noTimeouts, firstTokenMs: 20, idleMs: 30 }
+      );
+
+      const handlers = createHandlers();
+      send(manager, handlers);
+      await flush();
+      spawned[0]!.emitMessage(delta);
+      await flush(50);
+
+      expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'api_error',
+        code: 'idle_timeout',
+      }));
+      expect(manager.getStatus().timeouts).toEqual({ firstToken: 0, idle: 1, total: 0 });
+    });
+
+    it('should enforce the total duration and honour per-request overrides', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 }, noTimeouts);
+
+      const handlers = createHandlers();
+      send(manager, handlers, 'Hello', { timeouts: { totalMs: 20 } });
+      await flush();
+      spawned[0]!.emitMessage(delta);
+      await flush(30);
+
+      expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'request_timeout',
+      }));
+      expect(manager.getStatus().timeouts.total).toBe(1);
+    });
+
+    it('should not time out a request that completed', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 },
+        { ...noTimeouts, firstTokenMs: 30, totalMs: 30 }
+      );
+
+      const handlers = createHandlers();
+      send(manager, handlers);
+      await flush();
+      spawned[0]!.emitMessage({ type: 'result' });
+      await flush(50);
+
+      expect(handlers.onDone).toHaveBeenCalled();
+      expect(handlers.onError).not.toHaveBeenCalled();
+      expect(spawned[0]!.killed).toBe(false);
+    });
+
+    it('should start the next queued request after a timeout', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 },
+        { ...noTimeouts, firstTokenMs: 20 }
+      );
+
+      send(manager, createHandlers(), 'first');
+      send(manager, createHandlers(), 'second');
+      await flush(30);
+
+      expect(spawned).toHaveLength(2);
+      expect(JSON.parse(spawned[1]!.written[0]!).message.content).toBe('second');
+    });
+  });
+
+  describe('Watchdog', () => {
+    it('should restart a busy worker that stopped producing output', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 1, maxWorkers: 2, idleTimeoutMs: 0 },
+        { firstTokenMs: 0, idleMs: 0, totalMs: 0, watchdogStallMs: 1000 }
+      );
+
+      const handlers = createHandlers();
+      send(manager, handlers);
+
+      const restarted = manager.checkStalledWorkers(Date.now() + 2000);
+
+      expect(restarted).toBe(1);
+      expect(spawned[0]!.killed).toBe(true);
+      expect(handlers.onError).toHaveBeenCalledWith(expect.objectContaining({
+        code: 'process_stalled',
+      }));
+      expect(spawned).toHaveLength(2);
+      expect(manager.getStatus().watchdogRestarts).toBe(1);
+      expect(manager.getStatus().workers[0]!.state).toBe('idle');
+    });
+
+    it('should leave idle and active workers alone', async () => {
+      manager = new ClaudeProcessManager(
+        { minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 },
+        { firstTokenMs: 0, idleMs: 0, totalMs: 0, watchdogStallMs: 1000 }
+      );
+
+      send(manager, createHandlers());
+
+      expect(manager.checkStalledWorkers(Date.now() + 500)).toBe(0);
+      expect(manager.getStatus().watchdogRestarts).toBe(0);
+    });
+  });
+
+  describe('Idle reaping', () => {
+    it('should stop idle workers beyond minWorkers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 1, maxWorkers: 3, idleTimeoutMs: 1000 });
+
+      send(manager, createHandlers());
+      send(manager, createHandlers());
+      send(manager, createHandlers());
+      await flush();
+
+      for (const proc of spawned) {
+        proc.emitMessage({ type: 'result' });
+      }
+      await flush();
+
+      const reaped = manager.reapIdleWorkers(Date.now() + 2000);
+
+      expect(reaped).toBe(2);
+      expect(manager.getStatus().workers).toHaveLength(1);
+      expect(spawned.filter(p => p.killed)).toHaveLength(2);
+    });
+
+    it('should not reap busy workers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 1000 });
+
+      send(manager, createHandlers());
+
+      expect(manager.reapIdleWorkers(Date.now() + 2000)).toBe(0);
+      expect(manager.getStatus().workers).toHaveLength(1);
+    });
+  });
+
+  describe('getStatus', () => {
+    it('should report pool configuration and per-worker state', () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+
+      send(manager, createHandlers(), 'hi', { affinityKey: 'alice' });
+
+      const status = manager.getStatus();
+      expect(status.alive).toBe(true);
+      expect(status.requestCount).toBe(1);
+      expect(status.pool).toEqual({ minWorkers: 0, maxWorkers: 2, idleTimeoutMs: 0 });
+      expect(status.workers[0]).toMatchObject({
+        id: 1,
+        state: 'busy',
+        requestCount: 1,
+        affinityKey: 'alice',
+      });
+      expect(status.pid).toBe(status.workers[0]!.pid);
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should fail queued requests and stop all workers', async () => {
+      manager = new ClaudeProcessManager({ minWorkers: 0, maxWorkers: 1, idleTimeoutMs: 0 });
+
+      const first = createHandlers();
+      const queued = createHandlers();
+      send(manager, first);
+      send(manager, queued);
+
+      manager.shutdown();
+
+      expect(queued.onError).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Server shutting down',
+      }));
+      expect(first.onError).toHaveBeenCalled();
+      expect(manager.getStatus().workers).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for credential loading and the credentials file
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, renameSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from '../src/core/config.js';
+
+function credentialsJson(accessToken: string, expiresAt = 1_900_000_000_000): string {
+  return JSON.stringify({
+    claudeAiOauth: { accessToken, refreshToken: 'refresh', expiresAt, subscriptionType: 'max' },
+  });
+}
+
+describe('Credentials file', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-home-'));
+    file = join(dir, '.credentials.json');
+    vi.stubEnv('CLAUDE_CREDENTIALS_FILE', file);
+    vi.stubEnv('CLAUDE_OAUTH_CREDS', '');
+    vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', '');
+  });
+
+  afterEach(() => {
+    config.unwatchCredentialsFile();
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load credentials from the file when the environment has none', () => {
+    writeFileSync(file, credentialsJson('file-token'));
+
+    config.init();
+
+    expect(config.getCredentialSource()).toBe('file');
+    expect(config.getCredentials()).toMatchObject({ accessToken: 'file-token', refreshToken: 'refresh' });
+    expect(process.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('file-token');
+    expect(config.getCredentialRefreshConfig().credentialsFile).toBe(file);
+  });
+
+  it('should prefer credentials from the environment', () => {
+    writeFileSync(file, credentialsJson('file-token'));
+    vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', 'env-token');
+
+    config.init();
+
+    expect(config.getCredentialSource()).toBe('CLAUDE_CODE_OAUTH_TOKEN');
+    expect(config.getCredentials()!.accessToken).toBe('env-token');
+  });
+
+  it('should report no credentials when the file is missing or empty', () => {
+    config.init();
+    expect(config.getCredentialSource()).toBe('none');
+
+    writeFileSync(file, '');
+    expect(config.readCredentialsFile()).toBeNull();
+  });
+
+  it('should swap in changed credentials on reload', () => {
+    writeFileSync(file, credentialsJson('file-token'));
+    config.init();
+    const listener = vi.fn();
+    const unsubscribe = config.onCredentialsChange(listener);
+
+    try {
+      expect(config.reloadCredentialsFile()).toBe(false);
+
+      writeFileSync(file, credentialsJson('new-token'));
+      expect(config.reloadCredentialsFile()).toBe(true);
+    } finally {
+      unsubscribe();
+    }
+
+    expect(config.getCredentials()!.accessToken).toBe('new-token');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up a replaced file while watching', async () => {
+    writeFileSync(file, credentialsJson('file-token'));
+    config.init();
+    config.watchCredentialsFile();
+
+    // Replace the file the way the CLI does
+    writeFileSync(`${file}.new`, credentialsJson('watched-token'));
+    renameSync(`${file}.new`, file);
+
+    for (let i = 0; i < 40 && config.getCredentials()!.accessToken !== 'watched-token'; i++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    expect(config.getCredentials()!.accessToken).toBe('watched-token');
+  });
+});
+
+describe('Parameter strictness', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should ignore unsupported parameters silently by default', () => {
+    vi.stubEnv('CLAUDE_PARAMETER_STRICTNESS', '');
+    expect(config.getParameterStrictness()).toBe('lenient');
+
+    vi.stubEnv('CLAUDE_PARAMETER_STRICTNESS', 'loud');
+    expect(config.getParameterStrictness()).toBe('lenient');
+
+    vi.stubEnv('CLAUDE_PARAMETER_STRICTNESS', 'warn');
+    expect(config.getParameterStrictness()).toBe('warn');
+  });
+});
@@ -3,6 +3,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
 import {
   openaiMessagesToPrompt,
   anthropicMessagesToPrompt,
@@ -10,6 +12,11 @@ import {
   hasVisionContent,
   hasAudioContent,
   hasToolCalls,
+  responsesInputToMessages,
+  openaiMessagesToInput,
+  anthropicMessagesToInput,
+  openaiMessagesToConversation,
+  anthropicMessagesToConversation,
 } from '../src/converters/messages.js';
 import {
   generateId,
@@ -22,6 +29,15 @@ import {
   OpenAIStreamingState,
   AnthropicStreamingState,
 } from '../src/converters/responses.js';
+import { isPrivateHost, resolveImage } from '../src/converters/images.js';
+import {
+  buildToolPrompt,
+  parseToolCalls,
+  ToolCallParser,
+} from '../src/converters/tools.js';
+import { OutputLimiter, applyOutputLimits, normalizeStopSequences } from '../src/converters/limits.js';
+import { validateJsonSchema } from '../src/converters/json-schema.js';
+import { stripCodeFences, parseJsonOutput, buildJsonFormatPrompt } from '../src/converters/json-output.js';
 
 describe('Message Converters', () => {
   describe('openaiMessagesToPrompt', () => {
@@ -105,9 +121,51 @@ describe('Message Converters', () => {
       expect(prompt).toContain('get_weather');
       expect(prompt).toContain('SF');
     });
+
+    it('should replay tool results with their tool call', () => {
+      const prompt = openaiMessagesToPrompt([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_123', type: 'function', function: { name: 'get_weather', arguments: '{"city":"SF"}' } },
+          ],
+        },
+        { role: 'tool', content: '18C and sunny', tool_call_id: 'call_123' },
+      ]);
+
+      expect(prompt).toContain('<tool_call name="get_weather">\n{"city":"SF"}\n</tool_call>');
+      expect(prompt).toContain('<tool_result id="call_123" name="get_weather">\n18C and sunny\n</tool_result>');
+    });
   });
 
   describe('anthropicMessagesToPrompt', () => {
+    it('should replay tool_use and tool_result blocks', () => {
+      const prompt = anthropicMessagesToPrompt([
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Checking.' },
+            { type: 'tool_use', id: 'toolu_1', name: 'read_file', input: { path: 'a.txt' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            {
+              type: 'tool_result',
+              tool_use_id: 'toolu_1',
+              content: [{ type: 'text', text: 'No such file' }],
+              is_error: true,
+            },
+          ],
+        },
+      ]);
+
+      expect(prompt).toContain('Assistant: Checking.\n<tool_call name="read_file">\n{"path":"a.txt"}\n</tool_call>');
+      expect(prompt).toContain('<tool_result id="toolu_1" name="read_file" is_error="true">\nNo such file\n</tool_result>');
+    });
+
     it('should convert Anthropic messages', () => {
       const messages = [
         { role: 'user' as const, content: 'Hello' },
@@ -249,6 +307,30 @@ describe('Message Converters', () => {
       expect(hasToolCalls(messages)).toBe(false);
     });
   });
+
+  describe('responsesInputToMessages', () => {
+    it('should convert string input with instructions', () => {
+      const messages = responsesInputToMessages('Hello', 'Be brief.');
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hello' },
+      ]);
+    });
+
+    it('should convert input items and content parts', () => {
+      const messages = responsesInputToMessages([
+        { role: 'developer', content: 'Rules' },
+        { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Question' }] },
+        { role: 'assistant', content: [{ type: 'output_text', text: 'Answer' }] },
+      ]);
+
+      expect(messages).toHaveLength(3);
+      expect(messages[0]!.role).toBe('developer');
+      expect(messages[1]!.content).toEqual([{ type: 'text', text: 'Question' }]);
+      expect(messages[2]!.role).toBe('assistant');
+    });
+  });
 });
 
 describe('Response Converters', () => {
@@ -292,6 +374,13 @@ describe('Response Converters', () => {
       expect(openaiUsage?.prompt_tokens_details?.cached_tokens).toBe(20);
     });
 
+    it('should report reasoning tokens in completion_tokens_details', () => {
+      expect(convertUsage({ input_tokens: 10, output_tokens: 50 })?.completion_tokens_details)
+        .toEqual({ reasoning_tokens: 0 });
+      expect(convertUsage({ input_tokens: 10, output_tokens: 50 }, 30)?.completion_tokens_details)
+        .toEqual({ reasoning_tokens: 30 });
+    });
+
     it('should return undefined for undefined input', () => {
       expect(convertUsage(undefined)).toBeUndefined();
     });
@@ -463,3 +552,438 @@ describe('Response Converters', () => {
     });
   });
 });
+
+describe('Tool Converters', () => {
+  const tools = [{ name: 'get_weather', description: 'Look up weather', parameters: { type: 'object' } }];
+
+  describe('buildToolPrompt', () => {
+    it('should describe tools and the call format', () => {
+      const prompt = buildToolPrompt(tools);
+
+      expect(prompt).toContain('- get_weather: Look up weather');
+      expect(prompt).toContain('{"type":"object"}');
+      expect(prompt).toContain('<tool_call name="TOOL_NAME">');
+    });
+
+    it('should reflect tool_choice and parallel_tool_calls', () => {
+      expect(buildToolPrompt(tools, { type: 'none' })).toBe('');
+      expect(buildToolPrompt(tools, { type: 'required' })).toContain('must call at least one tool');
+      expect(buildToolPrompt(tools, { type: 'tool', name: 'get_weather' })).toContain('"get_weather" tool');
+      expect(buildToolPrompt(tools, { type: 'auto' }, false)).toContain('at most one tool');
+    });
+  });
+
+  describe('parseToolCalls', () => {
+    it('should split text and tool calls', () => {
+      const result = parseToolCalls(
+        'Checking.\n<tool_call name="get_weather">\n{"city": "SF"}\n</tool_call>\n' +
+        '<tool_call name="get_weather">{"city": "NYC"}</tool_call>'
+      );
+
+      expect(result.text).toBe('Checking.');
+      expect(result.calls).toHaveLength(2);
+      expect(result.calls[0]!.name).toBe('get_weather');
+      expect(result.calls[0]!.arguments).toBe('{"city": "SF"}');
+      expect(result.calls[1]!.arguments).toBe('{"city": "NYC"}');
+      expect(result.calls[0]!.id).not.toBe(result.calls[1]!.id);
+    });
+
+    it('should accept the JSON body form and honour maxCalls', () => {
+      const result = parseToolCalls(
+        '<tool_call>{"name": "a", "arguments": {"x": 1}}</tool_call><tool_call name="b">{}</tool_call>',
+        { maxCalls: 1 }
+      );
+
+      expect(result.calls).toEqual([{ id: expect.any(String), name: 'a', arguments: '{"x":1}' }]);
+    });
+
+    it('should drop text written after a tool call', () => {
+      const result = parseToolCalls('<tool_call name="a">{}</tool_call> The weather is nice.');
+
+      expect(result.text).toBe('');
+      expect(result.calls).toHaveLength(1);
+    });
+
+    it('should return plain text unchanged', () => {
+      expect(parseToolCalls('a < b <tool')).toEqual({ text: 'a < b <tool', calls: [] });
+    });
+  });
+
+  describe('ToolCallParser', () => {
+    it('should stream arguments across chunk boundaries', () => {
+      const parser = new ToolCallParser();
+      const chunks = ['Sure <tool', '_call name="get_', 'weather">\n{"ci', 'ty": "SF"}\n</tool', '_call>'];
+      const events = [...chunks.flatMap(chunk => parser.push(chunk)), ...parser.finish()];
+
+      expect(events[0]).toEqual({ type: 'text', text: 'Sure ' });
+      expect(events[1]).toMatchObject({ type: 'tool_call_start', index: 0, name: 'get_weather' });
+
+      const args = events
+        .filter(e => e.type === 'tool_call_delta')
+        .map(e => (e as { arguments: string }).arguments);
+      expect(args.length).toBeGreaterThan(1);
+      expect(args.join('')).toBe('{"city": "SF"}');
+      expect(events[events.length - 1]).toEqual({ type: 'tool_call_end', index: 0 });
+    });
+  });
+});
+
+describe('Image Inputs', () => {
+  const imageConfig = { maxBytes: 1024, allowRemoteFetch: false, fetchTimeoutMs: 1000 };
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]).toString('base64');
+
+  describe('openaiMessagesToInput', () => {
+    it('should return a plain prompt when there are no images', async () => {
+      const input = await openaiMessagesToInput([{ role: 'user', content: 'Hello' }], imageConfig);
+
+      expect(input).toBe('Hello');
+    });
+
+    it('should build text and image blocks from data URLs', async () => {
+      const input = await openaiMessagesToInput([
+        { role: 'system', content: 'Be brief.' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${png}` } },
+          ],
+        },
+      ], imageConfig);
+
+      expect(input).toEqual([
+        { type: 'text', text: 'System: Be brief.\n\nWhat is this?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: png } },
+      ]);
+    });
+  });
+
+  describe('anthropicMessagesToInput', () => {
+    it('should forward base64 image blocks', async () => {
+      const input = await anthropicMessagesToInput([
+        {
+          role: 'user',
+          content: [
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: png } },
+            { type: 'text', text: 'Describe it' },
+          ],
+        },
+      ], undefined, imageConfig);
+
+      expect(input).toEqual([
+        { type: 'text', text: 'Describe it' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: png } },
+      ]);
+    });
+  });
+
+  describe('resolveImage', () => {
+    it('should reject images over the size limit', async () => {
+      const big = Buffer.concat([Buffer.from(png, 'base64'), Buffer.alloc(2048)]).toString('base64');
+
+      await expect(resolveImage({ type: 'base64', media_type: 'image/png', data: big }, imageConfig))
+        .rejects.toMatchObject({ statusCode: 400, code: 'image_too_large' });
+    });
+
+    it('should reject unsupported or mismatched media types', async () => {
+      await expect(resolveImage({ type: 'base64', media_type: 'image/bmp', data: png }, imageConfig))
+        .rejects.toMatchObject({ statusCode: 400, code: 'unsupported_image_type' });
+      await expect(resolveImage({ type: 'base64', media_type: 'image/jpeg', data: png }, imageConfig))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('does not match') });
+    });
+
+    it('should reject invalid base64', async () => {
+      await expect(resolveImage({ type: 'url', url: 'data:image/png;base64,@@@' }, imageConfig))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('base64') });
+    });
+
+    it('should reject remote URLs when fetching is disabled', async () => {
+      await expect(resolveImage({ type: 'url', url: 'https://example.com/cat.png' }, imageConfig))
+        .rejects.toMatchObject({ statusCode: 400, code: 'image_url_not_supported' });
+    });
+  });
+
+  describe('remote images', () => {
+    const fetchConfig = { ...imageConfig, allowRemoteFetch: true };
+
+    /**
+     * Local image server; `/endless` streams without a content-length until the client gives up
+     */
+    async function startImageServer() {
+      const server = http.createServer((req, res) => {
+        if (req.url === '/endless') {
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          const timer = setInterval(() => res.write(Buffer.alloc(512)), 1);
+          res.on('close', () => clearInterval(timer));
+          return;
+        }
+        if (req.url === '/moved') {
+          res.writeHead(302, { Location: '/cat.png' });
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(Buffer.from(png, 'base64'));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => {
+          server.closeAllConnections();
+          server.close();
+        },
+      };
+    }
+
+    it('should recognise loopback, private and link-local hosts', async () => {
+      const hosts = [
+        '127.0.0.1', 'localhost', '10.1.2.3', '192.168.0.10', '169.254.169.254',
+        '[::1]', '[fe80::1]', '[::ffff:10.0.0.1]',
+      ];
+      for (const host of hosts) {
+        expect(await isPrivateHost(host)).toBe(true);
+      }
+      expect(await isPrivateHost('8.8.8.8')).toBe(false);
+      expect(await isPrivateHost('[2606:4700::1111]')).toBe(false);
+    });
+
+    it('should refuse to fetch from private addresses', async () => {
+      await expect(resolveImage({ type: 'url', url: 'http://169.254.169.254/latest/meta-data' }, fetchConfig))
+        .rejects.toMatchObject({ statusCode: 400, code: 'image_url_not_supported' });
+    });
+
+    it('should fetch images, following redirects', async () => {
+      const server = await startImageServer();
+      try {
+        const block = await resolveImage({ type: 'url', url: `${server.url}/moved` }, { ...fetchConfig, allowPrivateHosts: true });
+        expect(block.source).toEqual({ type: 'base64', media_type: 'image/png', data: png });
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should stop reading a body without a length once it passes the limit', async () => {
+      const server = await startImageServer();
+      try {
+        await expect(resolveImage({ type: 'url', url: `${server.url}/endless` }, { ...fetchConfig, allowPrivateHosts: true }))
+          .rejects.toMatchObject({ statusCode: 400, code: 'image_too_large' });
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
+
+describe('Conversation Replay', () => {
+  const imageConfig = { maxBytes: 1024, allowRemoteFetch: false, fetchTimeoutMs: 1000 };
+
+  describe('openaiMessagesToConversation', () => {
+    it('should split system prompt, history and final user turn', async () => {
+      const input = await openaiMessagesToConversation([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'developer', content: 'Use metric units.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello!' },
+        { role: 'user', content: 'How tall is Everest?' },
+      ], imageConfig);
+
+      expect(input).toEqual({
+        prompt: 'How tall is Everest?',
+        systemPrompt: 'Be brief.\n\nUse metric units.',
+        history: [
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!' },
+        ],
+      });
+    });
+
+    it('should replay tool calls and send tool results as user turns', async () => {
+      const input = await openaiMessagesToConversation([
+        { role: 'user', content: 'Weather?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+      ], imageConfig);
+
+      expect(input!.history).toHaveLength(2);
+      expect(input!.history![1]!.content).toContain('<tool_call name="get_weather">');
+      expect(input!.prompt).toBe('<tool_result id="call_1" name="get_weather">\nSunny\n</tool_result>');
+    });
+
+    it('should return null when the conversation does not end with a user turn', async () => {
+      const input = await openaiMessagesToConversation([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello' },
+      ], imageConfig);
+
+      expect(input).toBeNull();
+    });
+  });
+
+  describe('anthropicMessagesToConversation', () => {
+    it('should merge consecutive turns of the same role', async () => {
+      const input = await anthropicMessagesToConversation([
+        { role: 'user', content: 'First' },
+        { role: 'user', content: [{ type: 'text', text: 'Second' }] },
+        { role: 'assistant', content: 'Reply' },
+        { role: 'user', content: 'Third' },
+      ], [{ type: 'text', text: 'System text' }], imageConfig);
+
+      expect(input).toEqual({
+        prompt: 'Third',
+        systemPrompt: 'System text',
+        history: [
+          { role: 'user', content: 'First\n\nSecond' },
+          { role: 'assistant', content: 'Reply' },
+        ],
+      });
+    });
+  });
+});
+
+describe('Output Limits', () => {
+  describe('normalizeStopSequences', () => {
+    it('should accept a string or a list and drop empty entries', () => {
+      expect(normalizeStopSequences('END')).toEqual(['END']);
+      expect(normalizeStopSequences(['a', '', 'b'])).toEqual(['a', 'b']);
+      expect(normalizeStopSequences(null)).toEqual([]);
+    });
+  });
+
+  describe('applyOutputLimits', () => {
+    it('should cut at the earliest stop sequence', () => {
+      const result = applyOutputLimits('one two three', { stopSequences: ['three', 'two'] });
+      expect(result.text).toBe('one ');
+      expect(result.stop).toEqual({ reason: 'stop_sequence', sequence: 'two' });
+    });
+
+    it('should cut at max_tokens using the character estimate', () => {
+      const result = applyOutputLimits('x'.repeat(100), { maxTokens: 5 });
+      expect(result.text).toBe('x'.repeat(20));
+      expect(result.stop).toEqual({ reason: 'max_tokens' });
+    });
+
+    it('should pass text through when no limit is hit', () => {
+      expect(applyOutputLimits('short', { maxTokens: 10, stopSequences: ['END'] })).toEqual({
+        text: 'short',
+        stop: null,
+      });
+    });
+  });
+
+  describe('OutputLimiter', () => {
+    it('should hold back text that may start a stop sequence', () => {
+      const limiter = new OutputLimiter({ stopSequences: ['</answer>'] });
+      expect(limiter.push('42 </ans')).toBe('42 ');
+      expect(limiter.push('wer> more')).toBe('');
+      expect(limiter.getStop()).toEqual({ reason: 'stop_sequence', sequence: '</answer>' });
+    });
+
+    it('should release held-back text that did not match', () => {
+      const limiter = new OutputLimiter({ stopSequences: ['END'] });
+      expect(limiter.push('the EN')).toBe('the ');
+      expect(limiter.push('D')).toBe('');
+      expect(limiter.getStop()?.reason).toBe('stop_sequence');
+
+      const other = new OutputLimiter({ stopSequences: ['END'] });
+      expect(other.push('the EN')).toBe('the ');
+      expect(other.finish()).toBe('EN');
+      expect(other.getStop()).toBeNull();
+    });
+
+    it('should stop across chunks once the budget is spent', () => {
+      const limiter = new OutputLimiter({ maxTokens: 2 });
+      expect(limiter.push('abcde')).toBe('abcde');
+      expect(limiter.push('fghij')).toBe('fgh');
+      expect(limiter.getStop()).toEqual({ reason: 'max_tokens' });
+      expect(limiter.push('more')).toBe('');
+      expect(limiter.getOutputTokens()).toBe(2);
+    });
+  });
+});
+
+describe('JSON Output', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+      size: { enum: ['s', 'm', 'l'] },
+    },
+    required: ['name'],
+    additionalProperties: false,
+    $defs: { tag: { type: 'string', pattern: '^[a-z]+$' } },
+  };
+
+  describe('validateJsonSchema', () => {
+    it('should accept a matching value', () => {
+      expect(validateJsonSchema({ name: 'box', tags: ['red'], size: 'm' }, schema)).toEqual([]);
+    });
+
+    it('should report each mismatch with its path', () => {
+      expect(validateJsonSchema({ tags: ['Red', 3], size: 'xl', extra: true }, schema)).toEqual([
+        '$: missing required property "name"',
+        '$.tags[0]: must match ^[a-z]+$',
+        '$.tags[1]: expected string, got integer',
+        '$.size: must be one of "s", "m", "l"',
+        '$: unexpected property "extra"',
+      ]);
+    });
+
+    it('should support integer, nullable types and anyOf', () => {
+      expect(validateJsonSchema(1.5, { type: 'integer' })).toHaveLength(1);
+      expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+      expect(validateJsonSchema(5, { anyOf: [{ type: 'string' }, { minimum: 10 }] })).toHaveLength(1);
+    });
+
+    it('should report reference cycles instead of recursing forever', () => {
+      expect(validateJsonSchema(1, { $ref: '#' })).toEqual(['$: # refers back to itself']);
+      expect(validateJsonSchema(1, { anyOf: [{ $ref: '#' }] })).toEqual(['$: does not match any allowed schema']);
+      expect(validateJsonSchema(1, { $defs: { a: { $ref: '#/$defs/b' }, b: { $ref: '#/$defs/a' } }, $ref: '#/$defs/a' }))
+        .toEqual(['$: #/$defs/a refers back to itself']);
+
+      // References that descend into the value are recursion, not a cycle
+      const tree = { type: 'object', properties: { children: { type: 'array', items: { $ref: '#' } } } };
+      expect(validateJsonSchema({ children: [{ children: [] }, { children: [1] }] }, tree))
+        .toEqual(['$.children[1].children[0]: expected object, got integer']);
+    });
+  });
+
+  describe('stripCodeFences', () => {
+    it('should unwrap a fenced reply', () => {
+      expect(stripCodeFences('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+      expect(stripCodeFences('  {"a": 1}  ')).toBe('{"a": 1}');
+    });
+  });
+
+  describe('parseJsonOutput', () => {
+    const format = { type: 'json_schema' as const, json_schema: { name: 'item', schema } };
+
+    it('should return compact JSON for a valid reply', () => {
+      expect(parseJsonOutput('```\n{ "name": "box" }\n```', format)).toEqual({ ok: true, json: '{"name":"box"}' });
+    });
+
+    it('should report unparseable and non-matching replies', () => {
+      const unparseable = parseJsonOutput('Sure! {"name": ', format);
+      expect(unparseable.ok).toBe(false);
+
+      expect(parseJsonOutput('[1]', { type: 'json_object' })).toEqual({
+        ok: false,
+        errors: ['reply must be a JSON object'],
+      });
+    });
+  });
+
+  describe('buildJsonFormatPrompt', () => {
+    it('should include the schema for json_schema formats', () => {
+      const prompt = buildJsonFormatPrompt({ type: 'json_schema', json_schema: { name: 'item', schema } });
+      expect(prompt).toContain('"item"');
+      expect(prompt).toContain('"additionalProperties":false');
+      expect(buildJsonFormatPrompt({ type: 'text' })).toBe('');
+    });
+  });
+});
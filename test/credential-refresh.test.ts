@@ -0,0 +1,183 @@
+/**
+ * Tests for OAuth credential refresh
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CredentialRefresher } from '../src/core/credential-refresh.js';
+import { accountPool } from '../src/core/account-pool.js';
+import { config } from '../src/core/config.js';
+
+/**
+ * Local stand-in for the OAuth token endpoint
+ */
+function startTokenEndpoint(reply: (body: any) => { status: number; body: unknown }) {
+  const requests: any[] = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(data);
+      requests.push(body);
+      const { status, body: response } = reply(body);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+  return new Promise<{ url: string; requests: any[]; close: () => void }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}/v1/oauth/token`, requests, close: () => server.close() });
+    });
+  });
+}
+
+describe('CredentialRefresher', () => {
+  let refresher: CredentialRefresher;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'creds-'));
+    vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', 'old-token');
+    vi.stubEnv('CLAUDE_OAUTH_CLIENT_ID', 'test-client');
+    config.setCredentials({
+      accessToken: 'old-token',
+      refreshToken: 'refresh-1',
+      subscriptionType: 'claude_max',
+      expiresAt: Date.now() + 60 * 60 * 1000,
+    });
+    refresher = new CredentialRefresher();
+  });
+
+  afterEach(() => {
+    refresher.stop();
+    accountPool.setAccounts([]);
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should schedule the refresh ahead of expiry', () => {
+    vi.stubEnv('CLAUDE_OAUTH_REFRESH_MARGIN_MS', '600000');
+    const expiresAt = config.getCredentials()!.expiresAt!;
+
+    refresher.start();
+
+    const status = refresher.getStatus();
+    expect(status.enabled).toBe(true);
+    expect(status.expiresAt).toBe(new Date(expiresAt).toISOString());
+    expect(Date.parse(status.nextRefreshAt!)).toBeGreaterThanOrEqual(expiresAt - 600000 - 1000);
+    expect(Date.parse(status.nextRefreshAt!)).toBeLessThanOrEqual(expiresAt - 600000);
+  });
+
+  it('should not schedule without a refresh token or when disabled', () => {
+    config.setCredentials({ accessToken: 'other-token', expiresAt: Date.now() + 1000 });
+    refresher.start();
+    expect(refresher.getStatus().nextRefreshAt).toBeUndefined();
+
+    vi.stubEnv('CLAUDE_OAUTH_REFRESH', 'false');
+    refresher.start();
+    expect(refresher.getStatus().enabled).toBe(false);
+  });
+
+  it('should swap in and save refreshed credentials', async () => {
+    const endpoint = await startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: 'new-token', refresh_token: 'refresh-2', expires_in: 3600 },
+    }));
+    const file = join(dir, '.credentials.json');
+    writeFileSync(file, JSON.stringify({ other: true, claudeAiOauth: { scopes: ['user:inference'] } }));
+    vi.stubEnv('CLAUDE_OAUTH_TOKEN_URL', endpoint.url);
+    vi.stubEnv('CLAUDE_CREDENTIALS_FILE', file);
+    const listener = vi.fn();
+    const unsubscribe = config.onCredentialsChange(listener);
+
+    try {
+      refresher.start();
+      expect(await refresher.refresh()).toBe(true);
+    } finally {
+      unsubscribe();
+      endpoint.close();
+    }
+
+    expect(endpoint.requests).toEqual([
+      { grant_type: 'refresh_token', refresh_token: 'refresh-1', client_id: 'test-client' },
+    ]);
+    expect(config.getCredentials()).toMatchObject({
+      accessToken: 'new-token',
+      refreshToken: 'refresh-2',
+      subscriptionType: 'claude_max',
+    });
+    expect(process.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('new-token');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    const saved = JSON.parse(readFileSync(file, 'utf8'));
+    expect(saved.other).toBe(true);
+    expect(saved.claudeAiOauth).toMatchObject({
+      accessToken: 'new-token',
+      refreshToken: 'refresh-2',
+      scopes: ['user:inference'],
+    });
+    expect(refresher.getStatus().lastRefresh).toMatchObject({ ok: true });
+  });
+
+  it('should keep the credentials and retry later when the refresh fails', async () => {
+    const endpoint = await startTokenEndpoint(() => ({ status: 400, body: { error: 'invalid_grant' } }));
+    vi.stubEnv('CLAUDE_OAUTH_TOKEN_URL', endpoint.url);
+
+    try {
+      refresher.start();
+      const [first, second] = await Promise.all([refresher.refresh(), refresher.refresh()]);
+      expect(first).toBe(false);
+      expect(second).toBe(false);
+    } finally {
+      endpoint.close();
+    }
+
+    expect(endpoint.requests).toHaveLength(1);
+    expect(config.getCredentials()!.accessToken).toBe('old-token');
+    const status = refresher.getStatus();
+    expect(status.lastRefresh).toMatchObject({ ok: false, error: 'Token endpoint returned 400' });
+    expect(status.nextRefreshAt).toBeDefined();
+  });
+
+  it('should refresh pooled accounts and save them to their credentials file', async () => {
+    const endpoint = await startTokenEndpoint(() => ({
+      status: 200,
+      body: { access_token: 'new-token-a', refresh_token: 'refresh-a2', expires_in: 3600 },
+    }));
+    const file = join(dir, 'a.credentials.json');
+    vi.stubEnv('CLAUDE_OAUTH_TOKEN_URL', endpoint.url);
+    accountPool.setAccounts([
+      {
+        name: 'a',
+        credentials: { accessToken: 'token-a', refreshToken: 'refresh-a', expiresAt: Date.now() + 60 * 60 * 1000 },
+        credentialsFile: file,
+      },
+      { name: 'b', credentials: { accessToken: 'token-b' } },
+    ]);
+    accountPool.reportFailure('a', { kind: 'auth', message: 'OAuth token has expired' });
+
+    try {
+      refresher.start();
+      expect(await refresher.refreshAccount('a')).toBe(true);
+      expect(await refresher.refreshAccount('b')).toBe(false);
+    } finally {
+      endpoint.close();
+    }
+
+    expect(endpoint.requests).toEqual([
+      { grant_type: 'refresh_token', refresh_token: 'refresh-a', client_id: 'test-client' },
+    ]);
+    expect(accountPool.getAccount('a')!.credentials).toMatchObject({
+      accessToken: 'new-token-a',
+      refreshToken: 'refresh-a2',
+    });
+    expect(accountPool.getStatus().accounts[0]!.status).toBe('available');
+    expect(config.getCredentials()!.accessToken).toBe('old-token');
+    expect(JSON.parse(readFileSync(file, 'utf8')).claudeAiOauth.accessToken).toBe('new-token-a');
+  });
+});
@@ -14,6 +14,12 @@ vi.mock('../src/core/claude-manager.js', () => ({
       queueLength: 0,
       lastActivity: Date.now(),
       pid: 12345,
+      pool: { minWorkers: 1, maxWorkers: 4, idleTimeoutMs: 300000 },
+      sessions: { hits: 3, resumed: 1, misses: 2, cached: 4, live: 2 },
+      workers: [
+        { id: 1, state: 'busy', pid: 12345, requestCount: 3, lastActivity: Date.now(), startedAt: Date.now() },
+        { id: 2, state: 'idle', pid: 12346, requestCount: 2, lastActivity: Date.now(), startedAt: Date.now() },
+      ],
     })),
     shutdown: vi.fn(),
   },
@@ -27,6 +33,8 @@ vi.mock('../src/core/config.js', () => ({
       accessToken: 'test-token',
       subscriptionType: 'claude_max',
     })),
+    getCredentialSource: vi.fn(() => 'CLAUDE_OAUTH_CREDS'),
+    getCredentialsFilePath: vi.fn(() => '/home/node/.claude/.credentials.json'),
     init: vi.fn(),
     getServerConfig: vi.fn(() => ({
       port: 8080,
@@ -59,6 +67,9 @@ describe('Health Endpoints', () => {
       expect(body.version).toBe('v7-modular');
       expect(body.credentials.configured).toBe(true);
       expect(body.credentials.subscriptionType).toBe('claude_max');
+      expect(body.credentials.source).toBe('CLAUDE_OAUTH_CREDS');
+      expect(body.credentials.file).toBeUndefined();
+      expect(body.credentials.refresh).toEqual({ enabled: false });
       expect(body.process.alive).toBe(true);
       expect(body.process.requestCount).toBe(5);
       expect(body.endpoints.openai).toContain('POST /v1/chat/completions');
@@ -75,6 +86,31 @@ describe('Health Endpoints', () => {
       const body = JSON.parse(res._body);
       expect(body.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
     });
+
+    it('should include worker pool state', async () => {
+      const req = createMockRequest({ method: 'GET', url: '/health' });
+      const res = createMockResponse();
+
+      await handleHealthCheck(req, res, 'test-req-3');
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.process.pool.maxWorkers).toBe(4);
+      expect(body.process.workers).toHaveLength(2);
+      expect(body.process.workers[0].state).toBe('busy');
+      expect(body.process.workers[1].state).toBe('idle');
+    });
+
+    it('should include session reuse stats', async () => {
+      const req = createMockRequest({ method: 'GET', url: '/health' });
+      const res = createMockResponse();
+
+      await handleHealthCheck(req, res, 'test-req-4');
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.process.sessions).toEqual({ hits: 3, resumed: 1, misses: 2, cached: 4, live: 2 });
+    });
   });
 
   describe('GET /ping', () => {
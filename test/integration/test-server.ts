@@ -60,6 +60,10 @@ if (keychainCreds) {
   authHeaders = {
     'x-oauth-creds': keychainCreds,
   };
+  // The proxy ignores header credentials without the upstream secret
+  if (process.env.PROXY_UPSTREAM_SECRET) {
+    authHeaders['x-upstream-secret'] = process.env.PROXY_UPSTREAM_SECRET;
+  }
 
   // For local testing, also set environment variables
   if (!isRemoteProxy()) {
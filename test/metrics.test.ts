@@ -0,0 +1,131 @@
+/**
+ * Tests for the metrics registry and GET /metrics
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createMockRequest, createMockResponse, waitForResponse } from './setup.js';
+
+vi.mock('../src/core/claude-manager.js', () => ({
+  claudeManager: {
+    getStatus: vi.fn(() => ({
+      alive: true,
+      requestCount: 2,
+      queueLength: 3,
+      workers: [
+        { id: 1, state: 'busy', requestCount: 1, lastActivity: Date.now(), startedAt: Date.now() },
+        { id: 2, state: 'busy', requestCount: 1, lastActivity: Date.now(), startedAt: Date.now() },
+        { id: 3, state: 'idle', requestCount: 0, lastActivity: Date.now(), startedAt: Date.now() },
+      ],
+    })),
+    shutdown: vi.fn(),
+  },
+}));
+
+import { MetricsRegistry, registry, proxyMetrics } from '../src/core/metrics.js';
+import { handleRequest } from '../src/server/server.js';
+import { observeRequest, setRequestContext, trackActiveStream } from '../src/server/middleware.js';
+
+describe('Metrics', () => {
+  beforeEach(() => {
+    registry.reset();
+  });
+
+  describe('registry', () => {
+    it('should render counters and gauges with escaped labels', () => {
+      const metrics = new MetricsRegistry();
+      const counter = metrics.counter('test_total', 'A counter', ['route', 'status']);
+      const gauge = metrics.gauge('test_depth', 'A gauge');
+
+      counter.inc({ route: '/v1/"x"', status: '200' });
+      counter.inc({ status: '200', route: '/v1/"x"' }, 2);
+      gauge.set(4);
+      gauge.dec();
+
+      expect(metrics.render()).toBe([
+        '# HELP test_total A counter',
+        '# TYPE test_total counter',
+        'test_total{route="/v1/\\"x\\"",status="200"} 3',
+        '# HELP test_depth A gauge',
+        '# TYPE test_depth gauge',
+        'test_depth 3',
+        '',
+      ].join('\n'));
+    });
+
+    it('should render cumulative histogram buckets', () => {
+      const metrics = new MetricsRegistry();
+      const histogram = metrics.histogram('test_seconds', 'A histogram', ['model'], [1, 0.5]);
+
+      histogram.observe(0.2, { model: 'opus' });
+      histogram.observe(0.7, { model: 'opus' });
+      histogram.observe(3, { model: 'opus' });
+
+      expect(metrics.render().split('\n').slice(2, 7)).toEqual([
+        'test_seconds_bucket{model="opus",le="0.5"} 1',
+        'test_seconds_bucket{model="opus",le="1"} 2',
+        'test_seconds_bucket{model="opus",le="+Inf"} 3',
+        'test_seconds_sum{model="opus"} 3.9',
+        'test_seconds_count{model="opus"} 3',
+      ]);
+    });
+
+    it('should refuse duplicate names and decreasing counters', () => {
+      const metrics = new MetricsRegistry();
+      const counter = metrics.counter('test_total', 'A counter');
+
+      expect(() => metrics.gauge('test_total', 'Again')).toThrow('already registered');
+      expect(() => counter.inc({}, -1)).toThrow('cannot decrease');
+    });
+  });
+
+  describe('request metrics', () => {
+    it('should count requests by route, status and model', () => {
+      const req = createMockRequest({ method: 'POST', url: '/v1/messages' });
+      const res = createMockResponse();
+      setRequestContext(req, { resolvedModel: 'claude-haiku-4-5-20251001' });
+      observeRequest(req, res, '/v1/messages', Date.now());
+
+      Object.assign(res, { writableEnded: true, statusCode: 200 });
+      res.emit('close');
+
+      expect(proxyMetrics.requests.get({
+        route: '/v1/messages',
+        status: '200',
+        model: 'claude-haiku-4-5-20251001',
+      })).toBe(1);
+    });
+
+    it('should count abandoned requests as 499 and track active streams', () => {
+      const req = createMockRequest({ method: 'POST', url: '/v1/chat/completions' });
+      const res = createMockResponse();
+      observeRequest(req, res, '/v1/chat/completions', Date.now());
+      trackActiveStream(res);
+      expect(proxyMetrics.activeStreams.get()).toBe(1);
+
+      res.emit('close');
+
+      expect(proxyMetrics.activeStreams.get()).toBe(0);
+      expect(proxyMetrics.requests.get({ route: '/v1/chat/completions', status: '499', model: '' })).toBe(1);
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should serve the text format without authentication', async () => {
+      const ping = createMockResponse();
+      await handleRequest(createMockRequest({ url: '/ping' }), ping);
+      ping.emit('close');
+
+      const res = createMockResponse();
+      await handleRequest(createMockRequest({ url: '/metrics' }), res);
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._headers['content-type']).toContain('text/plain');
+      expect(res._body).toContain('# TYPE claude_proxy_requests_total counter');
+      expect(res._body).toContain('claude_proxy_queue_depth 3');
+      expect(res._body).toContain('claude_proxy_workers{state="busy"} 2');
+      expect(res._body).toContain('claude_proxy_workers{state="idle"} 1');
+      expect(res._body).toContain('# TYPE claude_proxy_time_to_first_token_seconds histogram');
+    });
+  });
+});
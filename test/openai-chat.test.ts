@@ -8,8 +8,11 @@ import {
   waitForResponse,
   parseSSEEvents,
   createMockClaudeManager,
+  createMockClaudeManagerNonStreaming,
+  createMockClaudeEvents,
 } from './setup.js';
 import type { ClaudeStreamMessage } from '../src/core/types.js';
+import { ClaudeRequestError } from '../src/core/errors.js';
 
 // Mock claude-manager - must use factory function without external references
 vi.mock('../src/core/claude-manager.js', () => {
@@ -38,11 +41,25 @@ vi.mock('../src/core/config.js', () => ({
       subscriptionType: 'claude_max',
     })),
     init: vi.fn(),
+    getImageConfig: vi.fn(() => ({
+      maxBytes: 1024,
+      allowRemoteFetch: false,
+      fetchTimeoutMs: 1000,
+    })),
+    getConversationMode: vi.fn(() => 'transcript'),
+    getParameterStrictness: vi.fn(() => 'warn'),
+    getJsonRetry: vi.fn(() => true),
+    getMaxChoices: vi.fn(() => 8),
+    getRateLimitConfig: vi.fn(() => ({
+      defaults: { requestsPerMinute: 0, concurrency: 0, inputTokensPerDay: 0, outputTokensPerDay: 0 },
+    })),
   },
 }));
 
 // Import after mocks
 import { claudeManager } from '../src/core/claude-manager.js';
+import { config } from '../src/core/config.js';
+import { applyRateLimit, setRequestContext } from '../src/server/middleware.js';
 import {
   handleOpenAIChatCompletion,
   validateRequest,
@@ -145,6 +162,22 @@ describe('OpenAI Chat Completions API', () => {
       expect(valid.valid).toBe(true);
     });
 
+    it('should cap n at the configured maximum', () => {
+      const tooMany = validateRequest({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        n: 9,
+      });
+      expect(tooMany).toMatchObject({ valid: false, error: 'n must be at most 8', param: 'n' });
+
+      const atCap = validateRequest({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        n: 8,
+      });
+      expect(atCap.valid).toBe(true);
+    });
+
     it('should validate frequency_penalty range', () => {
       const invalid = validateRequest({
         model: 'gpt-4o',
@@ -210,7 +243,7 @@ describe('OpenAI Chat Completions API', () => {
       const body = JSON.parse(res._body);
       expect(body.object).toBe('chat.completion');
       expect(body.id).toMatch(/^chatcmpl-/);
-      expect(body.model).toBe('gpt-4o');
+      expect(body.model).toBe('claude-sonnet-4-5-20250929');
       expect(body.choices).toHaveLength(1);
       expect(body.choices[0].message.role).toBe('assistant');
       expect(body.choices[0].message.content).toBe('Hello from Claude!');
@@ -218,6 +251,24 @@ describe('OpenAI Chat Completions API', () => {
       expect(body.usage).toBeDefined();
     });
 
+    it('should run the request on the resolved Claude model', async () => {
+      const mock = createMockClaudeManager('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4',
+        messages: [{ role: 'user', content: 'Hello' }],
+      }, 'test-req-model');
+
+      await waitForResponse(res);
+
+      const options = vi.mocked(claudeManager.sendMessage).mock.calls[0]![4];
+      expect(options?.model).toBe('claude-opus-4-5-20251101');
+      expect(JSON.parse(res._body).model).toBe('claude-opus-4-5-20251101');
+    });
+
     it('should handle invalid request body', async () => {
       const res = createMockResponse();
 
@@ -287,11 +338,511 @@ describe('OpenAI Chat Completions API', () => {
         const chunk = event.data as any;
         expect(chunk.object).toBe('chat.completion.chunk');
         expect(chunk.id).toMatch(/^chatcmpl-/);
-        expect(chunk.model).toBe('gpt-4o');
+        expect(chunk.model).toBe('claude-sonnet-4-5-20250929');
       }
     });
   });
 
+  describe('Output Limits', () => {
+    it('should cut the response at max_tokens with finish_reason length', async () => {
+      const mock = createMockClaudeManagerNonStreaming('x'.repeat(100));
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Write' }],
+        max_tokens: 5,
+      }, 'test-req-limits-1');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.choices[0].message.content).toBe('x'.repeat(20));
+      expect(body.choices[0].finish_reason).toBe('length');
+      expect(body.usage.completion_tokens).toBe(5);
+    });
+
+    it('should end the stream at the first stop sequence', async () => {
+      const mock = createMockClaudeManager('one, two, three');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Count' }],
+        stop: ['three', ', two'],
+        stream: true,
+      }, 'test-req-limits-2');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .map(e => e.data)
+        .filter(d => d !== '[DONE]') as any[];
+      const content = chunks.map(c => c.choices[0]?.delta?.content ?? '').join('');
+      expect(content).toBe('one');
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('stop');
+      expect(res._body.trim().endsWith('data: [DONE]')).toBe(true);
+
+      const handle = mock.sendMessage.mock.results[0]!.value;
+      expect(handle.cancel).toHaveBeenCalled();
+    });
+
+    it('should stream the stop reason the CLI turn ended with', async () => {
+      const events = createMockClaudeEvents('Once upon a');
+      for (const msg of events) {
+        if (msg.event?.type === 'message_delta') msg.event.delta = { stop_reason: 'max_tokens' };
+      }
+      vi.mocked(claudeManager.sendMessage).mockImplementation((prompt, onEvent, onError, onDone) => {
+        setTimeout(() => {
+          events.forEach(onEvent);
+          onDone(0);
+        }, 1);
+        return { id: 'mock-request', cancel: vi.fn() };
+      });
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Tell a story' }],
+        stream: true,
+      }, 'test-req-limits-upstream');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .map(e => e.data)
+        .filter(d => d !== '[DONE]') as any[];
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('length');
+    });
+
+    it('should list parameters the CLI ignores in a response header', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.5,
+        seed: 7,
+        max_tokens: 100,
+      }, 'test-req-limits-3');
+
+      await waitForResponse(res);
+
+      expect(res._headers['x-proxy-ignored-params']).toBe('temperature, seed');
+    });
+  });
+
+  describe('Multiple Choices', () => {
+    it('should run one CLI turn per choice and sum their usage', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Candidate');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        n: 3,
+      }, 'test-req-n-1');
+
+      await waitForResponse(res);
+
+      expect(claudeManager.sendMessage).toHaveBeenCalledTimes(3);
+      const body = JSON.parse(res._body);
+      expect(body.choices.map((c: any) => c.index)).toEqual([0, 1, 2]);
+      expect(body.choices.every((c: any) => c.message.content === 'Candidate' && c.finish_reason === 'stop')).toBe(true);
+      expect(body.usage).toMatchObject({ prompt_tokens: 30, completion_tokens: 15, total_tokens: 45 });
+    });
+
+    it('should tag streamed chunks with their choice index', async () => {
+      const mock = createMockClaudeManager('Candidate');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        n: 2,
+        stream: true,
+        stream_options: { include_usage: true },
+      }, 'test-req-n-2');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .map(e => e.data)
+        .filter(d => d !== '[DONE]') as any[];
+      for (const index of [0, 1]) {
+        const choiceChunks = chunks.filter(c => c.choices[0]?.index === index);
+        expect(choiceChunks.map(c => c.choices[0].delta.content ?? '').join('')).toBe('Candidate');
+        expect(choiceChunks[choiceChunks.length - 1].choices[0].finish_reason).toBe('stop');
+        expect(choiceChunks.every(c => !c.usage)).toBe(true);
+      }
+
+      const last = chunks[chunks.length - 1];
+      expect(last.choices).toEqual([]);
+      expect(last.usage).toMatchObject({ prompt_tokens: 20, completion_tokens: 10 });
+      expect(res._body.trim().endsWith('data: [DONE]')).toBe(true);
+    });
+
+    it('should reject n above the maximum before running any turn', async () => {
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        n: 1000,
+      }, 'test-req-n-3');
+
+      expect(res._statusCode).toBe(400);
+      expect(JSON.parse(res._body).error).toMatchObject({ type: 'invalid_request_error', param: 'n' });
+      expect(claudeManager.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should charge every extra choice to the key concurrency limit', async () => {
+      // One lookup each for the request itself and the two handler calls
+      const limited = {
+        defaults: { requestsPerMinute: 0, concurrency: 2, inputTokensPerDay: 0, outputTokensPerDay: 0 },
+      };
+      vi.mocked(config.getRateLimitConfig)
+        .mockReturnValueOnce(limited)
+        .mockReturnValueOnce(limited)
+        .mockReturnValueOnce(limited);
+      const mock = createMockClaudeManagerNonStreaming('Candidate');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+      const req = {} as any;
+      setRequestContext(req, { keyName: 'choices-key' });
+      // The server admits the request itself, taking one of the two slots
+      expect(applyRateLimit(req, createMockResponse()).allowed).toBe(true);
+
+      const tooMany = createMockResponse();
+      await handleOpenAIChatCompletion(req, tooMany, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        n: 3,
+      }, 'test-req-n-4');
+      expect(tooMany._statusCode).toBe(429);
+      expect(JSON.parse(tooMany._body).error.type).toBe('rate_limit_error');
+      expect(claudeManager.sendMessage).not.toHaveBeenCalled();
+
+      const res = createMockResponse();
+      await handleOpenAIChatCompletion(req, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Suggest a name' }],
+        n: 2,
+      }, 'test-req-n-5');
+      await waitForResponse(res);
+      expect(res._statusCode).toBe(200);
+      expect(claudeManager.sendMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Reasoning', () => {
+    it('should reject an unknown reasoning_effort', () => {
+      const result = validateRequest({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hi' }],
+        reasoning_effort: 'extreme',
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('reasoning_effort must be one of minimal, low, medium, high');
+    });
+
+    it('should map reasoning_effort to a thinking budget', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      for (const [effort, budget] of [['minimal', 0], ['low', 2048], ['high', 24576]] as const) {
+        const res = createMockResponse();
+        await handleOpenAIChatCompletion({} as any, res, {
+          model: 'gpt-4o',
+          messages: [{ role: 'user', content: 'Hi' }],
+          reasoning_effort: effort,
+        }, `test-req-reasoning-${effort}`);
+        await waitForResponse(res);
+        expect(mock.sendMessage.mock.lastCall![4]).toMatchObject({ thinkingTokens: budget });
+        expect(res._headers['x-proxy-ignored-params']).toBeUndefined();
+      }
+    });
+
+    it('should return thinking as reasoning_content with reasoning token usage', async () => {
+      const mock = createMockClaudeManagerNonStreaming('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        reasoning_effort: 'medium',
+      }, 'test-req-reasoning-1');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.choices[0].message).toEqual({
+        role: 'assistant',
+        content: 'The answer is 4.',
+        reasoning_content: 'Two plus two is four.',
+      });
+      expect(body.usage.completion_tokens_details).toEqual({ reasoning_tokens: 6 });
+    });
+
+    it('should stream thinking as reasoning_content deltas', async () => {
+      const mock = createMockClaudeManager('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+        reasoning_effort: 'low',
+        stream: true,
+        stream_options: { include_usage: true },
+      }, 'test-req-reasoning-2');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .map(e => e.data)
+        .filter(d => d !== '[DONE]') as any[];
+      const deltas = chunks.map(c => c.choices[0].delta);
+      expect(deltas.map(d => d.reasoning_content ?? '').join('')).toBe('Two plus two is four.');
+      expect(deltas.map(d => d.content ?? '').join('')).toBe('The answer is 4.');
+      expect(chunks[chunks.length - 1].usage.completion_tokens_details).toEqual({ reasoning_tokens: 6 });
+    });
+
+    it('should leave thinking out unless reasoning was requested', async () => {
+      const mock = createMockClaudeManagerNonStreaming('The answer is 4.', 'Two plus two is four.');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 2+2?' }],
+      }, 'test-req-reasoning-3');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.choices[0].message.reasoning_content).toBeUndefined();
+      expect(body.usage.completion_tokens_details).toEqual({ reasoning_tokens: 0 });
+    });
+  });
+
+  describe('JSON Output', () => {
+    const responseFormat = {
+      type: 'json_schema' as const,
+      json_schema: {
+        name: 'answer',
+        schema: { type: 'object', properties: { value: { type: 'number' } }, required: ['value'] },
+      },
+    };
+
+    const mockReplies = (...replies: string[]) => {
+      vi.mocked(claudeManager.sendMessage).mockImplementation((...args: any[]) => {
+        const reply = replies.shift()!;
+        return createMockClaudeManagerNonStreaming(reply).sendMessage(...(args as [any, any, any, any]));
+      });
+    };
+
+    it('should instruct the model and return clean JSON', async () => {
+      mockReplies('```json\n{ "value": 42 }\n```');
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 6 x 7?' }],
+        response_format: responseFormat,
+      }, 'test-req-json-1');
+
+      await waitForResponse(res);
+
+      const options = vi.mocked(claudeManager.sendMessage).mock.calls[0]![4];
+      expect(options!.systemPrompt).toContain('"required":["value"]');
+      expect(JSON.parse(res._body).choices[0].message.content).toBe('{"value":42}');
+    });
+
+    it('should retry once with the validation errors', async () => {
+      mockReplies('{"value": "forty-two"}', '{"value": 42}');
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 6 x 7?' }],
+        response_format: responseFormat,
+      }, 'test-req-json-2');
+
+      await waitForResponse(res);
+
+      expect(claudeManager.sendMessage).toHaveBeenCalledTimes(2);
+      const retryOptions = vi.mocked(claudeManager.sendMessage).mock.calls[1]![4];
+      expect(retryOptions!.systemPrompt).toContain('$.value: expected number, got string');
+
+      const body = JSON.parse(res._body);
+      expect(body.choices[0].message.content).toBe('{"value":42}');
+      expect(body.usage.completion_tokens).toBe(10);
+    });
+
+    it('should return a structured error when the retry also fails', async () => {
+      mockReplies('not json', 'still not json');
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Answer' }],
+        response_format: { type: 'json_object' },
+      }, 'test-req-json-3');
+
+      await waitForResponse(res);
+
+      const content = JSON.parse(JSON.parse(res._body).choices[0].message.content);
+      expect(content.error.type).toBe('invalid_json_output');
+      expect(content.error.output).toBe('still not json');
+    });
+
+    it('should stream the checked JSON once it is complete', async () => {
+      mockReplies('```\n{"value": 42}\n```');
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'What is 6 x 7?' }],
+        response_format: responseFormat,
+        stream: true,
+      }, 'test-req-json-4');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .map(e => e.data)
+        .filter(d => d !== '[DONE]') as any[];
+      expect(chunks.map(c => c.choices[0].delta.content ?? '').join('')).toBe('{"value":42}');
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('stop');
+      expect(res._body.trim().endsWith('data: [DONE]')).toBe(true);
+    });
+
+    it('should reject an unknown response_format type', () => {
+      const result = validateRequest({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        response_format: { type: 'yaml' },
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('Parameter Strictness', () => {
+    it('should reject ignored parameters in strict mode', async () => {
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({ headers: { 'x-proxy-strictness': 'strict' } } as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        logit_bias: { '50256': -100 },
+      }, 'test-req-strict-1');
+
+      expect(res._statusCode).toBe(400);
+      const body = JSON.parse(res._body);
+      expect(body.error.type).toBe('invalid_request_error');
+      expect(body.error.param).toBe('logit_bias');
+      expect(claudeManager.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should not count default values as ignored', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({ headers: { 'x-proxy-strictness': 'strict' } } as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        logprobs: false,
+      }, 'test-req-strict-2');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._headers['x-proxy-ignored-params']).toBeUndefined();
+    });
+
+    it('should list ignored parameters without rejecting in lenient mode', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({ headers: { 'x-proxy-strictness': 'lenient' } } as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.5,
+      }, 'test-req-strict-3');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      expect(res._headers['x-proxy-ignored-params']).toBe('temperature');
+    });
+  });
+
+  describe('Client Disconnect', () => {
+    it('should cancel the Claude request when the client disconnects', async () => {
+      const cancel = vi.fn();
+      vi.mocked(claudeManager.sendMessage).mockImplementation(() => ({ id: 'r1', cancel }));
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: true,
+      }, 'test-req-close');
+
+      res.emit('close');
+
+      expect(cancel).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cancel after the response has finished', async () => {
+      const mock = createMockClaudeManager('Done');
+      let cancel: ReturnType<typeof vi.fn> | undefined;
+      vi.mocked(claudeManager.sendMessage).mockImplementation((...args) => {
+        const handle = mock.sendMessage(...args);
+        cancel = handle.cancel;
+        return handle;
+      });
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: true,
+      }, 'test-req-close-2');
+
+      await waitForResponse(res);
+      res.emit('close');
+
+      expect(cancel).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Supported Parameters', () => {
     it('should list required parameters', () => {
       expect(supportedParameters.required).toContain('model');
@@ -314,6 +865,169 @@ describe('OpenAI Chat Completions API', () => {
     });
   });
 
+  describe('System Prompt', () => {
+    it('should pass system and developer messages as the system prompt', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Ok');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'developer', content: 'Answer in French.' },
+          { role: 'user', content: 'Hello' },
+        ],
+      }, 'test-req-system-1');
+
+      await waitForResponse(res);
+
+      const [prompt, , , , options] = vi.mocked(claudeManager.sendMessage).mock.calls[0]!;
+      expect(prompt).toBe('Hello');
+      expect(options!.systemPrompt).toBe('Be brief.\n\nAnswer in French.');
+    });
+  });
+
+  describe('Tool Calling', () => {
+    const tools = [{
+      type: 'function' as const,
+      function: { name: 'get_weather', parameters: { type: 'object' } },
+    }];
+
+    it('should reject tool_choice naming an unknown tool', () => {
+      const result = validateRequest({
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        tools,
+        tool_choice: { type: 'function', function: { name: 'missing' } },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('missing');
+    });
+
+    it('should describe tools in the system prompt', async () => {
+      const mock = createMockClaudeManager('Hi');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather in SF?' }],
+        tools,
+      }, 'test-req-tools-1');
+
+      await waitForResponse(res);
+
+      const [prompt, , , , options] = vi.mocked(claudeManager.sendMessage).mock.calls[0]!;
+      expect(prompt).toBe('Weather in SF?');
+      expect(options!.systemPrompt).toContain('get_weather');
+      expect(options!.systemPrompt).toContain('<tool_call name="TOOL_NAME">');
+    });
+
+    it('should return tool_calls with finish_reason tool_calls', async () => {
+      const mock = createMockClaudeManagerNonStreaming('<tool_call name="get_weather">\n{"city": "SF"}\n</tool_call>');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather in SF?' }],
+        tools,
+      }, 'test-req-tools-2');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.choices[0].finish_reason).toBe('tool_calls');
+      expect(body.choices[0].message.content).toBeNull();
+      expect(body.choices[0].message.tool_calls).toEqual([{
+        id: expect.any(String),
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city": "SF"}' },
+      }]);
+    });
+
+    it('should stream tool call chunks', async () => {
+      const mock = createMockClaudeManager('On it. <tool_call name="get_weather">{"city": "SF"}</tool_call>');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Weather in SF?' }],
+        tools,
+        stream: true,
+      }, 'test-req-tools-3');
+
+      await waitForResponse(res);
+
+      const chunks = parseSSEEvents(res._body)
+        .filter(e => e.data !== '[DONE]')
+        .map(e => e.data as any);
+      const deltas = chunks.map(c => c.choices[0].delta);
+
+      expect(deltas.some(d => d.content === 'On it. ')).toBe(true);
+      const toolDeltas = deltas.filter(d => d.tool_calls).map(d => d.tool_calls[0]);
+      expect(toolDeltas[0]).toMatchObject({ index: 0, type: 'function', function: { name: 'get_weather', arguments: '' } });
+      expect(toolDeltas.slice(1).map(t => t.function.arguments).join('')).toBe('{"city": "SF"}');
+      expect(chunks[chunks.length - 1].choices[0].finish_reason).toBe('tool_calls');
+    });
+  });
+
+  describe('Image Inputs', () => {
+    it('should send images to Claude as content blocks', async () => {
+      const mock = createMockClaudeManagerNonStreaming('A cat');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).toString('base64');
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${png}` } },
+          ],
+        }],
+      }, 'test-req-image-1');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      const input = vi.mocked(claudeManager.sendMessage).mock.calls[0]![0];
+      expect(input).toEqual([
+        { type: 'text', text: 'What is this?' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: png } },
+      ]);
+    });
+
+    it('should reject remote image URLs with a 400', async () => {
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{
+          role: 'user',
+          content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }],
+        }],
+      }, 'test-req-image-2');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(400);
+      const body = JSON.parse(res._body);
+      expect(body.error.type).toBe('invalid_request_error');
+      expect(body.error.code).toBe('image_url_not_supported');
+      expect(claudeManager.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle Claude manager errors', async () => {
       vi.mocked(claudeManager.sendMessage).mockImplementation((
@@ -325,6 +1039,7 @@ describe('OpenAI Chat Completions API', () => {
         setTimeout(() => {
           onError(new Error('Claude process failed'));
         }, 1);
+        return { id: 'r1', cancel: vi.fn() };
       });
 
       const res = createMockResponse();
@@ -354,6 +1069,7 @@ describe('OpenAI Chat Completions API', () => {
         setTimeout(() => {
           onError(new Error('Stream interrupted'));
         }, 1);
+        return { id: 'r1', cancel: vi.fn() };
       });
 
       const res = createMockResponse();
@@ -369,5 +1085,33 @@ describe('OpenAI Chat Completions API', () => {
       expect(res._body).toContain('error');
       expect(res._body).toContain('Stream interrupted');
     });
+
+    it('should report timeouts as overloaded_error with the error status', async () => {
+      vi.mocked(claudeManager.sendMessage).mockImplementation((
+        prompt: string,
+        onEvent: (msg: any) => void,
+        onError: (err: Error) => void
+      ) => {
+        setTimeout(() => {
+          onError(new ClaudeRequestError('overloaded_error', 'Claude did not start responding', 529));
+        }, 1);
+        return { id: 'r1', cancel: vi.fn() };
+      });
+
+      const res = createMockResponse();
+
+      await handleOpenAIChatCompletion({} as any, res, {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Hello' }],
+        stream: false,
+      }, 'test-req-timeout');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(529);
+      const body = JSON.parse(res._body);
+      expect(body.error.type).toBe('overloaded_error');
+      expect(body.error.message).toContain('did not start responding');
+    });
   });
 });
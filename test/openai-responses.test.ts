@@ -0,0 +1,332 @@
+/**
+ * Tests for OpenAI Responses API
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createMockResponse,
+  waitForResponse,
+  parseSSEEvents,
+  createMockClaudeManager,
+  createMockClaudeManagerNonStreaming,
+} from './setup.js';
+import type { ClaudeStreamMessage } from '../src/core/types.js';
+import { ClaudeRequestError } from '../src/core/errors.js';
+
+// Mock claude-manager - must use factory function without external references
+vi.mock('../src/core/claude-manager.js', () => {
+  return {
+    claudeManager: {
+      sendMessage: vi.fn(),
+      getStatus: vi.fn(() => ({
+        alive: true,
+        requestCount: 1,
+        queueLength: 0,
+        lastActivity: Date.now(),
+        pid: 12345,
+      })),
+      shutdown: vi.fn(),
+      ensureProcess: vi.fn(),
+    },
+  };
+});
+
+// Mock config, keeping the real parameter strictness so header tests see its default
+vi.mock('../src/core/config.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../src/core/config.js')>();
+  return {
+    config: {
+      hasValidCredentials: vi.fn(() => true),
+      getCredentials: vi.fn(() => ({
+        accessToken: 'test-token',
+        subscriptionType: 'claude_max',
+      })),
+      init: vi.fn(),
+      getImageConfig: vi.fn(() => ({
+        maxBytes: 1024,
+        allowRemoteFetch: false,
+        fetchTimeoutMs: 1000,
+      })),
+      getConversationMode: vi.fn(() => 'transcript'),
+      getParameterStrictness: actual.config.getParameterStrictness,
+    },
+  };
+});
+
+// Import after mocks
+import { claudeManager } from '../src/core/claude-manager.js';
+import { handleOpenAIResponses, validateRequest } from '../src/handlers/openai-responses.js';
+
+describe('OpenAI Responses API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Request Validation', () => {
+    it('should reject missing model', () => {
+      const result = validateRequest({ input: 'Hello' });
+      expect(result.valid).toBe(false);
+      expect(result.param).toBe('model');
+    });
+
+    it('should reject missing or empty input', () => {
+      expect(validateRequest({ model: 'gpt-4o' }).valid).toBe(false);
+      expect(validateRequest({ model: 'gpt-4o', input: [] }).valid).toBe(false);
+    });
+
+    it('should accept string and array input', () => {
+      expect(validateRequest({ model: 'gpt-4o', input: 'Hello' }).valid).toBe(true);
+      expect(validateRequest({
+        model: 'gpt-4o',
+        input: [{ role: 'user', content: [{ type: 'input_text', text: 'Hello' }] }],
+      }).valid).toBe(true);
+    });
+
+    it('should validate max_output_tokens is a positive integer', () => {
+      const result = validateRequest({ model: 'gpt-4o', input: 'Hello', max_output_tokens: 0 });
+      expect(result.valid).toBe(false);
+      expect(result.param).toBe('max_output_tokens');
+    });
+
+    it('should reject previous_response_id and item references', () => {
+      expect(validateRequest({
+        model: 'gpt-4o',
+        input: 'Hello',
+        previous_response_id: 'resp_123',
+      }).param).toBe('previous_response_id');
+      expect(validateRequest({
+        model: 'gpt-4o',
+        input: [{ type: 'item_reference', id: 'msg_123' }],
+      }).valid).toBe(false);
+    });
+
+    it('should reject input items other than messages, naming their type', () => {
+      const result = validateRequest({
+        model: 'gpt-4o',
+        input: [
+          { role: 'user', content: 'Weather?' },
+          { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{}' },
+        ],
+      });
+      expect(result).toMatchObject({ valid: false, param: 'input' });
+      expect(result.error).toContain('function_call');
+    });
+
+    it('should return 400 in OpenAI error format', async () => {
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, { model: 'gpt-4o' } as any, 'test-req-0');
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(400);
+      const body = JSON.parse(res._body);
+      expect(body.error.type).toBe('invalid_request_error');
+      expect(body.error.param).toBe('input');
+    });
+  });
+
+  describe('Non-Streaming Response', () => {
+    it('should return a response object with a message output item', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Hello from Claude!');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        input: 'Hello',
+        instructions: 'Be brief.',
+        max_output_tokens: 256,
+      }, 'test-req-1');
+
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+
+      const body = JSON.parse(res._body);
+      expect(body.object).toBe('response');
+      expect(body.id).toMatch(/^resp-/);
+      expect(body.status).toBe('completed');
+      expect(body.model).toBe('claude-sonnet-4-5-20250929');
+      expect(body.instructions).toBe('Be brief.');
+      expect(body.max_output_tokens).toBe(256);
+      expect(body.output).toHaveLength(1);
+      expect(body.output[0].type).toBe('message');
+      expect(body.output[0].role).toBe('assistant');
+      expect(body.output[0].content[0]).toEqual({
+        type: 'output_text',
+        text: 'Hello from Claude!',
+        annotations: [],
+      });
+      expect(body.usage).toMatchObject({ input_tokens: 10, output_tokens: 5, total_tokens: 15 });
+    });
+
+    it('should convert instructions to the system prompt and input items to the prompt', async () => {
+      const mock = createMockClaudeManagerNonStreaming('Ok');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        instructions: 'You are terse.',
+        input: [
+          { role: 'user', content: [{ type: 'input_text', text: 'First question' }] },
+          { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'First answer' }] },
+          { role: 'user', content: 'Second question' },
+        ],
+      }, 'test-req-2');
+
+      await waitForResponse(res);
+
+      const [prompt, , , , options] = vi.mocked(claudeManager.sendMessage).mock.calls[0]!;
+      expect(options!.systemPrompt).toBe('You are terse.');
+      expect(prompt).not.toContain('You are terse.');
+      expect(prompt).toContain('First question');
+      expect(prompt).toContain('First answer');
+      expect(prompt).toContain('Second question');
+    });
+  });
+
+  describe('Streaming Response', () => {
+    it('should emit the Responses event family in order', async () => {
+      const mock = createMockClaudeManager('Hello');
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        input: 'Hi',
+        stream: true,
+      }, 'test-req-3');
+
+      await waitForResponse(res);
+
+      expect(res._headers['content-type']).toBe('text/event-stream');
+
+      const events = parseSSEEvents(res._body);
+      const types = events.map(e => e.event);
+      expect(types[0]).toBe('response.created');
+      expect(types[1]).toBe('response.in_progress');
+      expect(types).toContain('response.output_text.delta');
+      expect(types[types.length - 1]).toBe('response.completed');
+
+      const sequence = events.map(e => (e.data as any).sequence_number);
+      expect(sequence).toEqual(sequence.map((_, i) => i));
+
+      const text = events
+        .filter(e => e.event === 'response.output_text.delta')
+        .map(e => (e.data as any).delta)
+        .join('');
+      expect(text).toBe('Hello');
+
+      const completed = events[events.length - 1]!.data as any;
+      expect(completed.response.status).toBe('completed');
+      expect(completed.response.output[0].content[0].text).toBe('Hello');
+    });
+
+    it('should emit response.failed on errors', async () => {
+      vi.mocked(claudeManager.sendMessage).mockImplementation((
+        prompt: string,
+        onEvent: (msg: ClaudeStreamMessage) => void,
+        onError: (err: Error) => void
+      ) => {
+        setTimeout(() => onError(new ClaudeRequestError('api_error', 'Request timed out', 504, 'request_timeout')), 1);
+        return { id: 'mock-request', cancel: vi.fn() };
+      });
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        input: 'Hi',
+        stream: true,
+      }, 'test-req-4');
+
+      await waitForResponse(res);
+
+      const events = parseSSEEvents(res._body);
+      const failed = events[events.length - 1]!;
+      expect(failed.event).toBe('response.failed');
+      expect((failed.data as any).response.error.message).toBe('Request timed out');
+    });
+  });
+
+  describe('Late Errors', () => {
+    it('should not write an error after the response finished', async () => {
+      const errors: Array<(err: Error) => void> = [];
+      vi.mocked(claudeManager.sendMessage).mockImplementation((
+        prompt: string,
+        onEvent: (msg: ClaudeStreamMessage) => void,
+        onError: (err: Error) => void,
+        onDone: (code: number) => void
+      ) => {
+        errors.push(onError);
+        setTimeout(() => onDone(0), 1);
+        return { id: 'mock-request', cancel: vi.fn() };
+      });
+
+      for (const stream of [false, true]) {
+        const res = createMockResponse();
+        await handleOpenAIResponses({} as any, res, { model: 'gpt-4o', input: 'Hi', stream }, `test-req-late-${stream}`);
+        await waitForResponse(res);
+        const body = res._body;
+
+        errors.pop()!(new ClaudeRequestError('api_error', 'Worker crashed', 500));
+
+        expect(res._statusCode).toBe(200);
+        expect(res._body).toBe(body);
+      }
+    });
+  });
+
+  describe('Output Limits', () => {
+    it('should return an incomplete response when max_output_tokens is reached', async () => {
+      const mock = createMockClaudeManagerNonStreaming('x'.repeat(100));
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        input: 'Write',
+        max_output_tokens: 5,
+        temperature: 0.3,
+      }, 'test-req-limits-1');
+
+      await waitForResponse(res);
+
+      const body = JSON.parse(res._body);
+      expect(body.status).toBe('incomplete');
+      expect(body.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+      expect(body.output[0].status).toBe('incomplete');
+      expect(body.output[0].content[0].text).toBe('x'.repeat(20));
+      expect(body.usage.output_tokens).toBe(5);
+      expect(res._headers['x-proxy-ignored-params']).toBe('temperature');
+    });
+
+    it('should finish the stream with response.incomplete', async () => {
+      const mock = createMockClaudeManager('x'.repeat(100));
+      vi.mocked(claudeManager.sendMessage).mockImplementation(mock.sendMessage);
+
+      const res = createMockResponse();
+
+      await handleOpenAIResponses({} as any, res, {
+        model: 'gpt-4o',
+        input: 'Write',
+        max_output_tokens: 5,
+        stream: true,
+      }, 'test-req-limits-2');
+
+      await waitForResponse(res);
+
+      const events = parseSSEEvents(res._body);
+      const last = events[events.length - 1]!;
+      expect(last.event).toBe('response.incomplete');
+      expect((last.data as any).response.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+      expect((last.data as any).response.output[0].content[0].text).toBe('x'.repeat(20));
+      expect(events.some(e => e.event === 'response.completed')).toBe(false);
+    });
+  });
+});
@@ -2,16 +2,26 @@
  * Tests for server routing and middleware
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   setCorsHeaders,
   extractApiKey,
+  validateAuth,
+  getRequestContext,
   generateRequestId,
   parseJsonBody,
   sendErrorResponse,
   sendAnthropicError,
   requiresAuth,
+  requestSendOptions,
 } from '../src/server/middleware.js';
+import { config } from '../src/core/config.js';
+import { handleRequest } from '../src/server/server.js';
+import { apiKeyStore, parseApiKeyList, parseApiKeyFile } from '../src/core/api-keys.js';
+import { RateLimiter, rateLimiter } from '../src/core/rate-limiter.js';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { createMockRequest, createMockResponse } from './setup.js';
 
 describe('Server Middleware', () => {
@@ -195,6 +205,18 @@ describe('Request Routing', () => {
       // Route verification
       expect(true).toBe(true);
     });
+
+    it('should answer a null body with a 400 rather than a 500', async () => {
+      const req = createMockRequest({ method: 'POST', url: '/v1/chat/completions' });
+      const res = createMockResponse();
+
+      const handled = handleRequest(req, res);
+      req.emit('data', Buffer.from('null'));
+      await handled;
+
+      expect(res._statusCode).toBe(400);
+      expect(JSON.parse(res._body).error.type).toBe('invalid_request_error');
+    });
   });
 
   describe('Anthropic endpoints', () => {
@@ -211,3 +233,357 @@ describe('Request Routing', () => {
     });
   });
 });
+
+describe('Proxy API Keys', () => {
+  afterEach(() => {
+    apiKeyStore.setKeys([]);
+  });
+
+  describe('key sources', () => {
+    it('should parse named and bare keys from a list', () => {
+      expect(parseApiKeyList('alice:sk-a, sk-b ,')).toEqual([
+        { name: 'alice', key: 'sk-a' },
+        { name: 'key-2', key: 'sk-b' },
+      ]);
+    });
+
+    it('should parse JSON key files', () => {
+      expect(parseApiKeyFile('{"keys": [{"name": "ci", "key": "sk-ci"}]}', 'keys.json')).toEqual([
+        { name: 'ci', key: 'sk-ci' },
+      ]);
+      expect(parseApiKeyFile('{"alice": "sk-a"}')).toEqual([{ name: 'alice', key: 'sk-a' }]);
+    });
+
+    it('should parse YAML key files', () => {
+      const yaml = [
+        '# Proxy clients',
+        'keys:',
+        '  - name: alice',
+        '    key: "sk-a"',
+        '  - name: ci   # build server',
+        '    key: sk-ci',
+      ].join('\n');
+      expect(parseApiKeyFile(yaml, 'keys.yaml')).toEqual([
+        { name: 'alice', key: 'sk-a' },
+        { name: 'ci', key: 'sk-ci' },
+      ]);
+      expect(parseApiKeyFile('alice: sk-a\nbob: sk-b\n', 'keys.yml')).toEqual([
+        { name: 'alice', key: 'sk-a' },
+        { name: 'bob', key: 'sk-b' },
+      ]);
+    });
+
+    it('should read per-key limits from key files', () => {
+      const yaml = 'keys:\n  - name: ci\n    key: sk-ci\n    rpm: 10\n    output_tokens_per_day: 50000\n';
+      expect(parseApiKeyFile(yaml, 'keys.yaml')).toEqual([
+        { name: 'ci', key: 'sk-ci', limits: { requestsPerMinute: 10, outputTokensPerDay: 50000 } },
+      ]);
+      expect(() => parseApiKeyFile('[{"name": "ci", "key": "sk-ci", "rpm": -1}]')).toThrow('invalid rpm');
+    });
+
+    it('should read the admin flag from key files', () => {
+      expect(parseApiKeyFile('keys:\n  - name: ops\n    key: sk-ops\n    admin: true\n', 'keys.yaml')).toEqual([
+        { name: 'ops', key: 'sk-ops', admin: true },
+      ]);
+      expect(parseApiKeyFile('[{"name": "ci", "key": "sk-ci", "admin": false}]')).toEqual([{ name: 'ci', key: 'sk-ci' }]);
+      expect(() => parseApiKeyFile('[{"name": "ci", "key": "sk-ci", "admin": "yes"}]')).toThrow('invalid admin flag');
+    });
+
+    it('should reject key entries without a key', () => {
+      expect(() => parseApiKeyFile('[{"name": "alice"}]')).toThrow('key 1 has no key value');
+    });
+  });
+
+  describe('validateAuth', () => {
+    it('should accept any request when no keys are configured', () => {
+      const req = createMockRequest({});
+      expect(validateAuth(req)).toEqual({ valid: true, keyName: undefined });
+    });
+
+    it('should accept a known key as Bearer token or x-api-key', () => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a' }, { name: 'bob', key: 'sk-b' }]);
+
+      const bearer = createMockRequest({ headers: { authorization: 'Bearer sk-a' } });
+      expect(validateAuth(bearer)).toEqual({ valid: true, keyName: 'alice' });
+      expect(getRequestContext(bearer).keyName).toBe('alice');
+
+      const header = createMockRequest({ headers: { 'x-api-key': 'sk-b' } });
+      expect(validateAuth(header)).toEqual({ valid: true, keyName: 'bob' });
+    });
+
+    it('should reject missing and unknown keys', () => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a' }]);
+
+      const missing = validateAuth(createMockRequest({}));
+      expect(missing).toMatchObject({ valid: false, code: 'missing_api_key' });
+
+      const unknown = createMockRequest({ headers: { authorization: 'Bearer sk-wrong' } });
+      expect(validateAuth(unknown)).toMatchObject({ valid: false, error: 'Invalid API key', code: 'invalid_api_key' });
+      expect(getRequestContext(unknown).keyName).toBeUndefined();
+    });
+  });
+
+  describe('401 responses', () => {
+    beforeEach(() => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a' }]);
+    });
+
+    it('should use the OpenAI error format on OpenAI routes', async () => {
+      const res = createMockResponse();
+
+      await handleRequest(createMockRequest({ method: 'POST', url: '/v1/chat/completions' }), res);
+
+      expect(res._statusCode).toBe(401);
+      expect(JSON.parse(res._body)).toEqual({
+        error: { type: 'authentication_error', message: expect.stringContaining('Missing API key'), code: 'missing_api_key' },
+      });
+    });
+
+    it('should use the Anthropic error format on messages routes', async () => {
+      const res = createMockResponse();
+
+      await handleRequest(createMockRequest({
+        method: 'POST',
+        url: '/v1/messages',
+        headers: { 'x-api-key': 'sk-wrong' },
+      }), res);
+
+      expect(res._statusCode).toBe(401);
+      expect(JSON.parse(res._body)).toEqual({
+        type: 'error',
+        error: { type: 'authentication_error', message: 'Invalid API key' },
+      });
+    });
+
+    it('should leave health and model routes open', async () => {
+      const res = createMockResponse();
+
+      await handleRequest(createMockRequest({ url: '/v1/models' }), res);
+
+      expect(res._statusCode).toBe(200);
+    });
+  });
+});
+
+describe('Upstream Credentials', () => {
+  const headerCreds = JSON.stringify({ claudeAiOauth: { accessToken: 'header-token', subscriptionType: 'max' } });
+
+  beforeEach(() => {
+    vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', 'global-token');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should ignore X-OAuth-Creds without the upstream secret', () => {
+    vi.stubEnv('PROXY_UPSTREAM_SECRET', 'shh');
+    const setCredentials = vi.spyOn(config, 'setCredentials');
+
+    for (const secret of [undefined, 'wrong']) {
+      const req = createMockRequest({
+        headers: { 'x-oauth-creds': headerCreds, ...(secret ? { 'x-upstream-secret': secret } : {}) },
+      });
+      expect(validateAuth(req).valid).toBe(true);
+      expect(getRequestContext(req).credentials).toBeUndefined();
+      expect(requestSendOptions(req).oauthToken).toBeUndefined();
+    }
+    expect(setCredentials).not.toHaveBeenCalled();
+    expect(process.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('global-token');
+    setCredentials.mockRestore();
+  });
+
+  it('should ignore X-OAuth-Creds when no upstream secret is configured', () => {
+    const req = createMockRequest({ headers: { 'x-oauth-creds': headerCreds, 'x-upstream-secret': '' } });
+
+    validateAuth(req);
+
+    expect(getRequestContext(req).credentials).toBeUndefined();
+  });
+
+  it('should scope trusted header credentials to the request', () => {
+    vi.stubEnv('PROXY_UPSTREAM_SECRET', 'shh');
+    const req = createMockRequest({ headers: { 'x-oauth-creds': headerCreds, 'x-upstream-secret': 'shh' } });
+
+    expect(validateAuth(req).valid).toBe(true);
+
+    expect(getRequestContext(req).credentials).toMatchObject({ accessToken: 'header-token', subscriptionType: 'max' });
+    expect(requestSendOptions(req).oauthToken).toBe('header-token');
+    expect(process.env.CLAUDE_CODE_OAUTH_TOKEN).toBe('global-token');
+  });
+
+  it('should use the shared CLI processes when the header repeats the global token', () => {
+    vi.stubEnv('PROXY_UPSTREAM_SECRET', 'shh');
+    vi.stubEnv('CLAUDE_CODE_OAUTH_TOKEN', 'header-token');
+    const req = createMockRequest({ headers: { 'x-oauth-creds': headerCreds, 'x-upstream-secret': 'shh' } });
+
+    validateAuth(req);
+
+    expect(requestSendOptions(req).oauthToken).toBeUndefined();
+  });
+
+  it('should keep using the refreshed token when the header carries the pre-refresh credentials', () => {
+    vi.stubEnv('PROXY_UPSTREAM_SECRET', 'shh');
+    const deployed = { accessToken: 'deployed-token', refreshToken: 'refresh-1', subscriptionType: 'max' as const };
+    config.setCredentials(deployed);
+    // The refresh rotates both tokens
+    config.setCredentials({ ...deployed, accessToken: 'refreshed-token', refreshToken: 'refresh-2' });
+
+    const stale = createMockRequest({
+      headers: { 'x-oauth-creds': JSON.stringify({ claudeAiOauth: deployed }), 'x-upstream-secret': 'shh' },
+    });
+    validateAuth(stale);
+    expect(requestSendOptions(stale).oauthToken).toBeUndefined();
+
+    const other = createMockRequest({ headers: { 'x-oauth-creds': headerCreds, 'x-upstream-secret': 'shh' } });
+    validateAuth(other);
+    expect(requestSendOptions(other).oauthToken).toBe('header-token');
+  });
+});
+
+describe('Rate Limits', () => {
+  const limits = { requestsPerMinute: 0, concurrency: 0, inputTokensPerDay: 0, outputTokensPerDay: 0 };
+  const noon = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+  it('should refuse requests beyond the per-minute limit until the window moves', () => {
+    const limiter = new RateLimiter();
+    const rpm = { ...limits, requestsPerMinute: 2 };
+
+    expect(limiter.acquire('alice', rpm, noon).allowed).toBe(true);
+    expect(limiter.acquire('alice', rpm, noon + 10_000).allowed).toBe(true);
+
+    const refused = limiter.acquire('alice', rpm, noon + 20_000);
+    expect(refused).toMatchObject({ allowed: false, retryAfter: 40 });
+    expect(refused.headers).toMatchObject({
+      'retry-after': '40',
+      'x-ratelimit-limit-requests': '2',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '40s',
+    });
+
+    expect(limiter.acquire('bob', rpm, noon + 20_000).allowed).toBe(true);
+    expect(limiter.acquire('alice', rpm, noon + 60_001).allowed).toBe(true);
+  });
+
+  it('should free a concurrency slot when a request is released', () => {
+    const limiter = new RateLimiter();
+    const single = { ...limits, concurrency: 1 };
+
+    const first = limiter.acquire('alice', single, noon);
+    expect(limiter.acquire('alice', single, noon).allowed).toBe(false);
+
+    if (first.allowed) {
+      first.release();
+      first.release();
+    }
+    expect(limiter.acquire('alice', single, noon).allowed).toBe(true);
+    expect(limiter.acquire('alice', single, noon).allowed).toBe(false);
+  });
+
+  it('should count a request taking several slots as that many requests', () => {
+    const limiter = new RateLimiter();
+    const both = { ...limits, requestsPerMinute: 4, concurrency: 3 };
+
+    const triple = limiter.acquire('alice', both, noon, 3);
+    expect(triple.allowed).toBe(true);
+    expect(limiter.acquire('alice', both, noon + 1000).allowed).toBe(false);
+    expect(limiter.acquire('bob', both, noon, 4)).toMatchObject({ allowed: false });
+
+    if (triple.allowed) triple.release();
+    expect(limiter.acquire('alice', both, noon + 1000).allowed).toBe(true);
+    expect(limiter.acquire('alice', both, noon + 2000)).toMatchObject({ allowed: false, retryAfter: 58 });
+  });
+
+  it('should enforce daily token quotas until the next UTC day', () => {
+    const limiter = new RateLimiter();
+    const quota = { ...limits, inputTokensPerDay: 1000, outputTokensPerDay: 500 };
+
+    limiter.recordUsage('alice', { input_tokens: 100, output_tokens: 500 }, noon);
+
+    const refused = limiter.acquire('alice', quota, noon);
+    expect(refused).toMatchObject({ allowed: false, retryAfter: 12 * 60 * 60 });
+    expect(refused.headers).toMatchObject({
+      'x-ratelimit-remaining-input-tokens': '900',
+      'x-ratelimit-remaining-output-tokens': '0',
+    });
+    if (!refused.allowed) expect(refused.message).toContain('500 output tokens');
+
+    expect(limiter.acquire('alice', quota, noon + 12 * 60 * 60 * 1000).allowed).toBe(true);
+  });
+
+  it('should restore today\'s token counts from the state file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rate-limits-'));
+    const file = join(dir, 'state.json');
+    try {
+      const limiter = new RateLimiter();
+      limiter.setStateFile(file);
+      limiter.recordUsage('alice', { input_tokens: 40, output_tokens: 60 });
+      limiter.flush();
+      expect(JSON.parse(readFileSync(file, 'utf8')).keys.alice).toEqual({ inputTokens: 40, outputTokens: 60 });
+
+      const restored = new RateLimiter();
+      restored.setStateFile(file);
+      const decision = restored.acquire('alice', { ...limits, outputTokensPerDay: 100 });
+      expect(decision.headers['x-ratelimit-remaining-output-tokens']).toBe('40');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should ignore a state file that is not an object', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rate-limits-'));
+    const file = join(dir, 'state.json');
+    try {
+      for (const content of ['null', '[1]', '{"day": "2025-06-01", "keys": {"alice": null}}']) {
+        writeFileSync(file, content);
+        const limiter = new RateLimiter();
+        expect(() => limiter.setStateFile(file, Date.parse('2025-06-01T12:00:00Z'))).not.toThrow();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('429 responses', () => {
+    beforeEach(() => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a', limits: { requestsPerMinute: 1 } }]);
+      rateLimiter.reset();
+    });
+
+    afterEach(() => {
+      apiKeyStore.setKeys([]);
+      rateLimiter.reset();
+    });
+
+    it('should reject requests over the key\'s limit in the format of the API called', async () => {
+      // The first request uses up the minute's allowance before its body is read
+      await handleRequest(createMockRequest({
+        method: 'POST',
+        url: '/v1/chat/completions',
+        headers: { authorization: 'Bearer sk-a' },
+      }), createMockResponse());
+
+      const openai = createMockResponse();
+      await handleRequest(createMockRequest({
+        method: 'POST',
+        url: '/v1/chat/completions',
+        headers: { authorization: 'Bearer sk-a' },
+      }), openai);
+
+      expect(openai._statusCode).toBe(429);
+      expect(openai._headers['retry-after']).toBeDefined();
+      expect(openai._headers['x-ratelimit-remaining-requests']).toBe('0');
+      expect(JSON.parse(openai._body).error).toMatchObject({ type: 'rate_limit_error', code: 'rate_limit_exceeded' });
+
+      const anthropic = createMockResponse();
+      await handleRequest(createMockRequest({
+        method: 'POST',
+        url: '/v1/messages',
+        headers: { 'x-api-key': 'sk-a' },
+      }), anthropic);
+
+      expect(anthropic._statusCode).toBe(429);
+      expect(JSON.parse(anthropic._body)).toMatchObject({ type: 'error', error: { type: 'rate_limit_error' } });
+    });
+  });
+});
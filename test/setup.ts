@@ -100,6 +100,7 @@ export function createMockResponse(): ServerResponse & {
       res._body += str;
     }
     res._ended = true;
+    (res as { writableEnded: boolean }).writableEnded = true;
     res.emit('finish');
     return res;
   });
@@ -151,10 +152,49 @@ export function parseSSEEvents(body: string): Array<{ event?: string; data: unkn
 }
 
 /**
- * Mock Claude stream events for testing
+ * Mock stream events for a signed thinking block
  */
-export function createMockClaudeEvents(text: string): ClaudeStreamMessage[] {
+export function createMockThinkingEvents(thinking: string): ClaudeStreamMessage[] {
   return [
+    {
+      type: 'stream_event',
+      event: {
+        type: 'content_block_start',
+        index: 0,
+        content_block: { type: 'thinking', thinking: '', signature: '' },
+      },
+    },
+    {
+      type: 'stream_event',
+      event: {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'thinking_delta', thinking },
+      },
+    },
+    {
+      type: 'stream_event',
+      event: {
+        type: 'content_block_delta',
+        index: 0,
+        delta: { type: 'signature_delta', signature: 'sig_test' },
+      },
+    },
+    {
+      type: 'stream_event',
+      event: {
+        type: 'content_block_stop',
+        index: 0,
+      },
+    },
+  ];
+}
+
+/**
+ * Mock Claude stream events for testing, optionally preceded by a thinking block
+ */
+export function createMockClaudeEvents(text: string, thinking?: string): ClaudeStreamMessage[] {
+  const events: ClaudeStreamMessage[] = [
     {
       type: 'stream_event',
       event: {
@@ -171,6 +211,7 @@ export function createMockClaudeEvents(text: string): ClaudeStreamMessage[] {
         },
       },
     },
+    ...(thinking !== undefined ? createMockThinkingEvents(thinking) : []),
     {
       type: 'stream_event',
       event: {
@@ -213,13 +254,14 @@ export function createMockClaudeEvents(text: string): ClaudeStreamMessage[] {
       usage: { input_tokens: 10, output_tokens: 5 },
     },
   ];
+  return events;
 }
 
 /**
  * Create mock Claude manager
  */
-export function createMockClaudeManager(responseText: string = 'Hello, world!') {
-  const events = createMockClaudeEvents(responseText);
+export function createMockClaudeManager(responseText: string = 'Hello, world!', thinking?: string) {
+  const events = createMockClaudeEvents(responseText, thinking);
 
   return {
     sendMessage: vi.fn((
@@ -240,6 +282,7 @@ export function createMockClaudeManager(responseText: string = 'Hello, world!')
         }
       };
       setTimeout(sendNextEvent, 1);
+      return { id: 'mock-request', cancel: vi.fn() };
     }),
     getStatus: vi.fn(() => ({
       alive: true,
@@ -256,7 +299,7 @@ export function createMockClaudeManager(responseText: string = 'Hello, world!')
 /**
  * Create mock for non-streaming response
  */
-export function createMockClaudeManagerNonStreaming(responseText: string = 'Hello, world!') {
+export function createMockClaudeManagerNonStreaming(responseText: string = 'Hello, world!', thinking?: string) {
   return {
     sendMessage: vi.fn((
       prompt: string,
@@ -269,7 +312,10 @@ export function createMockClaudeManagerNonStreaming(responseText: string = 'Hell
         type: 'assistant',
         message: {
           role: 'assistant',
-          content: [{ type: 'text', text: responseText }],
+          content: [
+            ...(thinking !== undefined ? [{ type: 'thinking' as const, thinking, signature: 'sig_test' }] : []),
+            { type: 'text', text: responseText },
+          ],
         },
       });
 
@@ -281,6 +327,7 @@ export function createMockClaudeManagerNonStreaming(responseText: string = 'Hell
 
       // Complete
       setTimeout(() => onDone(0), 1);
+      return { id: 'mock-request', cancel: vi.fn() };
     }),
     getStatus: vi.fn(() => ({
       alive: true,
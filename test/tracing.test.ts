@@ -0,0 +1,197 @@
+/**
+ * Tests for OpenTelemetry tracing
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Tracer, tracer, parseTraceparent } from '../src/core/tracing.js';
+import { config } from '../src/core/config.js';
+import type { TracingConfig } from '../src/core/types.js';
+import { handleRequest } from '../src/server/server.js';
+import { createMockRequest, createMockResponse, waitForResponse } from './setup.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+/**
+ * Local stand-in for an OTLP/HTTP collector
+ */
+function startCollector(status = 200) {
+  const exports: Array<{ headers: http.IncomingHttpHeaders; body: any }> = [];
+  const server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      exports.push({ headers: req.headers, body: JSON.parse(data) });
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  return new Promise<{ url: string; exports: typeof exports; close: () => void }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `http://127.0.0.1:${port}/v1/traces`, exports, close: () => server.close() });
+    });
+  });
+}
+
+function tracingConfig(endpoint: string, overrides: Partial<TracingConfig> = {}): TracingConfig {
+  return {
+    endpoint,
+    headers: {},
+    serviceName: 'test-proxy',
+    exportIntervalMs: 60_000,
+    maxBatchSize: 512,
+    maxQueueSize: 2048,
+    ...overrides,
+  };
+}
+
+function exportedSpans(exports: Array<{ body: any }>): any[] {
+  return exports.flatMap(entry => entry.body.resourceSpans[0].scopeSpans[0].spans);
+}
+
+function attribute(span: any, key: string): unknown {
+  const value = span.attributes.find((entry: any) => entry.key === key)?.value;
+  return value && Object.values(value)[0];
+}
+
+describe('Tracing', () => {
+  afterEach(async () => {
+    await tracer.stop();
+    vi.unstubAllEnvs();
+  });
+
+  describe('parseTraceparent', () => {
+    it('should read sampled and unsampled parents', () => {
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`)).toEqual({
+        traceId: TRACE_ID,
+        spanId: PARENT_ID,
+        sampled: true,
+      });
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)?.sampled).toBe(false);
+      expect(parseTraceparent(`01-${TRACE_ID}-${PARENT_ID}-01-future`)?.traceId).toBe(TRACE_ID);
+    });
+
+    it('should reject malformed headers', () => {
+      expect(parseTraceparent(undefined)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01-extra`)).toBeNull();
+      expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_ID}-01`)).toBeNull();
+      expect(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${PARENT_ID}-01`)).toBeNull();
+    });
+  });
+
+  describe('config', () => {
+    it('should read the standard OpenTelemetry variables', () => {
+      expect(config.getTracingConfig().endpoint).toBeUndefined();
+
+      vi.stubEnv('OTEL_EXPORTER_OTLP_ENDPOINT', 'http://collector:4318/');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_HEADERS', 'authorization=Bearer%20abc, x-team=proxy');
+      vi.stubEnv('OTEL_SERVICE_NAME', 'edge-proxy');
+      expect(config.getTracingConfig()).toMatchObject({
+        endpoint: 'http://collector:4318/v1/traces',
+        headers: { authorization: 'Bearer abc', 'x-team': 'proxy' },
+        serviceName: 'edge-proxy',
+      });
+
+      vi.stubEnv('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT', 'http://traces:4318/custom');
+      expect(config.getTracingConfig().endpoint).toBe('http://traces:4318/custom');
+
+      vi.stubEnv('OTEL_SDK_DISABLED', 'true');
+      expect(config.getTracingConfig().endpoint).toBeUndefined();
+    });
+  });
+
+  describe('Tracer', () => {
+    it('should record nothing when no endpoint is configured', () => {
+      const disabled = new Tracer();
+      disabled.start(tracingConfig(''));
+
+      expect(disabled.isEnabled()).toBe(false);
+      expect(disabled.startSpan('GET /ping')).toBeUndefined();
+    });
+
+    it('should export spans as OTLP JSON, continuing the caller trace', async () => {
+      const collector = await startCollector();
+      const local = new Tracer();
+      local.start(tracingConfig(collector.url, { headers: { 'x-api-key': 'secret' } }));
+
+      const root = local.startSpan('POST /v1/messages', {
+        kind: 'server',
+        traceparent: `00-${TRACE_ID}-${PARENT_ID}-01`,
+        attributes: { 'proxy.request_id': 'abc123', 'gen_ai.usage.input_tokens': 12 },
+      })!;
+      root.child('parse body').end();
+      root.setError('HTTP 500').end();
+      expect(local.startSpan('GET /ping', { traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` })).toBeUndefined();
+      await local.stop();
+      collector.close();
+
+      expect(collector.exports).toHaveLength(1);
+      expect(collector.exports[0]!.headers['x-api-key']).toBe('secret');
+      const { resource } = collector.exports[0]!.body.resourceSpans[0];
+      expect(resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'test-proxy' } }]);
+
+      const [child, span] = exportedSpans(collector.exports);
+      expect(span).toMatchObject({
+        traceId: TRACE_ID,
+        parentSpanId: PARENT_ID,
+        name: 'POST /v1/messages',
+        kind: 2,
+        status: { code: 2, message: 'HTTP 500' },
+      });
+      expect(span.attributes).toContainEqual({ key: 'gen_ai.usage.input_tokens', value: { intValue: 12 } });
+      expect(BigInt(span.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(span.startTimeUnixNano));
+      expect(child).toMatchObject({ traceId: TRACE_ID, parentSpanId: span.spanId, name: 'parse body', kind: 1 });
+      expect(local.getStatus()).toMatchObject({ exported: 2, dropped: 0 });
+    });
+
+    it('should drop spans the collector refuses or the queue cannot hold', async () => {
+      const collector = await startCollector(503);
+      const local = new Tracer();
+      local.start(tracingConfig(collector.url, { maxQueueSize: 2 }));
+
+      for (let i = 0; i < 3; i++) local.startSpan(`span ${i}`)!.end();
+      await local.flush();
+      await local.stop();
+      collector.close();
+
+      expect(collector.exports).toHaveLength(1);
+      expect(local.getStatus()).toMatchObject({ exported: 0, dropped: 3 });
+    });
+  });
+
+  describe('HTTP requests', () => {
+    it('should trace a request with its route, status and parsing', async () => {
+      const collector = await startCollector();
+      tracer.start(tracingConfig(collector.url));
+
+      const req = createMockRequest({
+        method: 'POST',
+        url: '/v1/messages',
+        headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` },
+      });
+      const res = createMockResponse();
+      const handled = handleRequest(req, res);
+      req.emit('data', Buffer.from('{not json'));
+      await handled;
+      await waitForResponse(res);
+      Object.assign(res, { writableEnded: true });
+      res.emit('close');
+      await new Promise(resolve => setImmediate(resolve));
+      await tracer.flush();
+      collector.close();
+
+      const spans = exportedSpans(collector.exports);
+      const request = spans.find(span => span.name === 'POST /v1/messages');
+      const parse = spans.find(span => span.name === 'parse body');
+      expect(request).toMatchObject({ traceId: TRACE_ID, parentSpanId: PARENT_ID, kind: 2 });
+      expect(attribute(request, 'http.route')).toBe('/v1/messages');
+      expect(attribute(request, 'http.response.status_code')).toBe(400);
+      expect(attribute(request, 'proxy.request_id')).toEqual(expect.any(String));
+      expect(parse).toMatchObject({ parentSpanId: request.spanId, status: { code: 2 } });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Tests for the usage ledger and GET /v1/usage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, appendFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { usageLedger, summarizeUsage } from '../src/core/usage-ledger.js';
+import type { UsageRecord } from '../src/core/usage-ledger.js';
+import { parseUsageQuery } from '../src/handlers/usage.js';
+import { handleRequest } from '../src/server/server.js';
+import { recordUsageOnClose, setRequestContext, usageRecorder } from '../src/server/middleware.js';
+import { apiKeyStore } from '../src/core/api-keys.js';
+import { createMockRequest, createMockResponse, waitForResponse } from './setup.js';
+
+function record(overrides: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2025-06-01T10:00:00.000Z',
+    request_id: 'abc123',
+    key: 'alice',
+    endpoint: '/v1/chat/completions',
+    model: 'sonnet',
+    resolved_model: 'claude-sonnet-4-5-20250929',
+    input_tokens: 100,
+    output_tokens: 20,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    duration_ms: 1000,
+    status: 200,
+    ...overrides,
+  };
+}
+
+describe('Usage Ledger', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'usage-'));
+    file = join(dir, 'usage.jsonl');
+    usageLedger.setFile(file);
+  });
+
+  afterEach(() => {
+    usageLedger.setFile(undefined);
+    apiKeyStore.setKeys([]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('summarizeUsage', () => {
+    const records = [
+      record({}),
+      record({ output_tokens: 30, status: 500 }),
+      record({ key: 'bob', resolved_model: 'claude-opus-4-5-20251101', input_tokens: 1000 }),
+      record({ timestamp: '2025-06-02T08:00:00.000Z', cache_read_input_tokens: 50 }),
+    ];
+
+    it('should aggregate by day, key and model', () => {
+      const summary = summarizeUsage(records, { groupBy: ['day', 'key', 'model'] });
+
+      expect(summary.groups).toEqual([
+        expect.objectContaining({ day: '2025-06-02', key: 'alice', requests: 1, cache_read_input_tokens: 50 }),
+        expect.objectContaining({ day: '2025-06-01', key: 'bob', model: 'claude-opus-4-5-20251101', requests: 1 }),
+        expect.objectContaining({
+          day: '2025-06-01',
+          key: 'alice',
+          model: 'claude-sonnet-4-5-20250929',
+          requests: 2,
+          errors: 1,
+          input_tokens: 200,
+          output_tokens: 50,
+          duration_ms: 2000,
+        }),
+      ]);
+      expect(summary.totals).toMatchObject({ requests: 4, errors: 1, input_tokens: 1300 });
+    });
+
+    it('should filter by day range and key', () => {
+      const byKey = summarizeUsage(records, { from: '2025-06-01', to: '2025-06-01', groupBy: ['key'] });
+      expect(byKey.groups.map(group => [group.key, group.requests])).toEqual([['bob', 1], ['alice', 2]]);
+
+      const alice = summarizeUsage(records, { key: 'alice', groupBy: [] });
+      expect(alice.groups).toEqual([expect.objectContaining({ requests: 3 })]);
+      expect(alice.groups[0]!.key).toBeUndefined();
+    });
+  });
+
+  describe('ledger file', () => {
+    it('should append records and skip unreadable lines', async () => {
+      usageLedger.record(record({ request_id: 'one' }));
+      await usageLedger.flush();
+      appendFileSync(file, '{"cut short\n');
+      usageLedger.record(record({ request_id: 'two' }));
+
+      const records = await usageLedger.readRecords();
+
+      expect(records.map(entry => entry.request_id)).toEqual(['one', 'two']);
+      expect(readFileSync(file, 'utf8').split('\n').filter(Boolean)).toHaveLength(3);
+    });
+
+    it('should record a finished request with its key, models and tokens', async () => {
+      const req = createMockRequest({ method: 'POST', url: '/v1/chat/completions' });
+      const res = createMockResponse();
+      setRequestContext(req, { keyName: 'alice', model: 'sonnet', resolvedModel: 'claude-sonnet-4-5-20250929' });
+      recordUsageOnClose(req, res, 'req-1', '/v1/chat/completions', Date.now() - 50);
+
+      const recordUsage = usageRecorder(req);
+      recordUsage({ input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 3 });
+      recordUsage({ input_tokens: 1, output_tokens: 2 });
+      Object.assign(res, { writableEnded: true });
+      res.emit('close');
+      await new Promise(resolve => setImmediate(resolve));
+
+      const [entry] = await usageLedger.readRecords();
+      expect(entry).toMatchObject({
+        request_id: 'req-1',
+        key: 'alice',
+        endpoint: '/v1/chat/completions',
+        model: 'sonnet',
+        resolved_model: 'claude-sonnet-4-5-20250929',
+        input_tokens: 11,
+        output_tokens: 7,
+        cache_read_input_tokens: 3,
+        status: 200,
+      });
+      expect(entry!.duration_ms).toBeGreaterThanOrEqual(50);
+    });
+
+    it('should mark requests the client abandoned', async () => {
+      const req = createMockRequest({ method: 'POST', url: '/v1/messages' });
+      const res = createMockResponse();
+      recordUsageOnClose(req, res, 'req-2', '/v1/messages', Date.now());
+
+      res.emit('close');
+      await new Promise(resolve => setImmediate(resolve));
+
+      const [entry] = await usageLedger.readRecords();
+      expect(entry).toMatchObject({ key: 'anonymous', status: 499 });
+    });
+
+    it('should not record requests refused by authentication', async () => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a' }]);
+      const res = createMockResponse();
+
+      await handleRequest(createMockRequest({ method: 'POST', url: '/v1/messages' }), res);
+      expect(res._statusCode).toBe(401);
+      res.emit('close');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(await usageLedger.readRecords()).toEqual([]);
+    });
+  });
+
+  describe('GET /v1/usage', () => {
+    it('should parse and validate the query', () => {
+      expect(parseUsageQuery('/v1/usage?from=2025-06-01&group_by=model,key').query).toEqual({
+        from: '2025-06-01',
+        to: undefined,
+        key: undefined,
+        groupBy: ['key', 'model'],
+      });
+      expect(parseUsageQuery('/v1/usage?to=yesterday').error).toContain('to must be a day');
+      expect(parseUsageQuery('/v1/usage?group_by=hour').error).toContain('got hour');
+    });
+
+    it('should return aggregated usage of every key to admin keys', async () => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a', admin: true }]);
+      usageLedger.record(record({}));
+      usageLedger.record(record({ key: 'bob' }));
+
+      const unauthenticated = createMockResponse();
+      await handleRequest(createMockRequest({ url: '/v1/usage' }), unauthenticated);
+      expect(unauthenticated._statusCode).toBe(401);
+
+      const res = createMockResponse();
+      await handleRequest(createMockRequest({
+        url: '/v1/usage?group_by=key',
+        headers: { authorization: 'Bearer sk-a' },
+      }), res);
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      const body = JSON.parse(res._body);
+      expect(body.object).toBe('list');
+      expect(body.group_by).toEqual(['key']);
+      expect(body.data.map((group: { key: string }) => group.key).sort()).toEqual(['alice', 'bob']);
+      expect(body.totals).toMatchObject({ requests: 2, input_tokens: 200, output_tokens: 40 });
+    });
+
+    it('should limit other keys to their own usage', async () => {
+      apiKeyStore.setKeys([{ name: 'alice', key: 'sk-a' }, { name: 'bob', key: 'sk-b' }]);
+      usageLedger.record(record({}));
+      usageLedger.record(record({ key: 'bob' }));
+
+      const res = createMockResponse();
+      await handleRequest(createMockRequest({
+        url: '/v1/usage?group_by=key',
+        headers: { authorization: 'Bearer sk-a' },
+      }), res);
+      await waitForResponse(res);
+
+      expect(res._statusCode).toBe(200);
+      const body = JSON.parse(res._body);
+      expect(body.data.map((group: { key: string }) => group.key)).toEqual(['alice']);
+      expect(body.totals).toMatchObject({ requests: 1 });
+
+      const other = createMockResponse();
+      await handleRequest(createMockRequest({
+        url: '/v1/usage?key=bob',
+        headers: { authorization: 'Bearer sk-a' },
+      }), other);
+      await waitForResponse(other);
+
+      expect(other._statusCode).toBe(403);
+      expect(JSON.parse(other._body).error.type).toBe('permission_error');
+    });
+
+    it('should reject a bad query with a 400', async () => {
+      const res = createMockResponse();
+
+      await handleRequest(createMockRequest({ url: '/v1/usage?from=June' }), res);
+
+      expect(res._statusCode).toBe(400);
+      expect(JSON.parse(res._body).error.type).toBe('invalid_request_error');
+    });
+  });
+});